@@ -8,7 +8,9 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useSession } from '../contexts/SessionContext';
 import { useSettings } from '../contexts/SettingsContext';
 import { useAppTheme } from '../contexts/ThemeContext';
-import { getTodayDueReviews } from '../services/scheduler';
+import { getTodayDueReviews, TodayDueReviews } from '../services/scheduler';
+import { getActiveFreeze } from '../services/database/freeze';
+import { FreezePeriod } from '../types';
 
 export default function HomeScreen() {
   const theme = useTheme();
@@ -18,12 +20,17 @@ export default function HomeScreen() {
   
   const [isFirstTime, setIsFirstTime] = useState<boolean>(true);
   const [loading, setLoading] = useState<boolean>(true);
-  const [dueReviews, setDueReviews] = useState<{
-    due: number;
-    new: number;
-    learning: number;
-    review: number;
-  }>({ due: 0, new: 0, learning: 0, review: 0 });
+  const [dueReviews, setDueReviews] = useState<TodayDueReviews>({
+    due: 0,
+    new: 0,
+    learning: 0,
+    review: 0,
+    newRemaining: 0,
+    reviewRemaining: 0,
+    tiers: null,
+    manzilJuz: []
+  });
+  const [freeze, setFreeze] = useState<FreezePeriod | null>(null);
 
   // Check if this is the first time opening the app
   useEffect(() => {
@@ -52,6 +59,7 @@ export default function HomeScreen() {
       try {
         const reviews = await getTodayDueReviews();
         setDueReviews(reviews);
+        setFreeze(await getActiveFreeze());
       } catch (error) {
         console.error('Error loading due reviews:', error);
       }
@@ -73,6 +81,16 @@ export default function HomeScreen() {
     }
   };
 
+  // Handle starting a study-ahead session when nothing is due
+  const handleStudyAhead = async () => {
+    try {
+      await startSession('studyAhead');
+      router.push('/session');
+    } catch (error) {
+      console.error('Error starting study-ahead session:', error);
+    }
+  };
+
   // Handle resume session
   const handleResumeSession = () => {
     router.push('/session');
@@ -148,6 +166,24 @@ export default function HomeScreen() {
                   <Text variant="bodyMedium">Review</Text>
                 </View>
               </View>
+              
+              {dueReviews.tiers && (
+                <Text variant="bodySmall" style={styles.quotaText}>
+                  Sabaq {dueReviews.tiers.sabaq} · Sabqi {dueReviews.tiers.sabqi} · Manzil {dueReviews.tiers.manzil}
+                  {dueReviews.manzilJuz.length > 0 ? ` (Juz ${formatJuzList(dueReviews.manzilJuz)})` : ''}
+                </Text>
+              )}
+              
+              <Text variant="bodySmall" style={styles.quotaText}>
+                Left today: {dueReviews.newRemaining} new ayahs
+                {dueReviews.tiers ? '' : `, ${dueReviews.reviewRemaining} reviews`}
+              </Text>
+              
+              {freeze && (
+                <Text variant="bodySmall" style={styles.quotaText}>
+                  Schedule frozen until {freeze.endDate.toLocaleDateString()}
+                </Text>
+              )}
             </Card.Content>
             
             <Card.Actions style={styles.cardActions}>
@@ -155,6 +191,22 @@ export default function HomeScreen() {
                 <Button mode="contained" onPress={handleResumeSession}>
                   Resume Session
                 </Button>
+              ) : freeze ? (
+                <Button 
+                  mode="outlined" 
+                  icon="snowflake"
+                  onPress={() => router.push('/settings/freeze')}
+                >
+                  Manage Freeze
+                </Button>
+              ) : dueReviews.due === 0 && (settings?.reviewAheadDays || 0) > 0 ? (
+                <Button 
+                  mode="outlined" 
+                  icon="calendar-arrow-right"
+                  onPress={handleStudyAhead}
+                >
+                  Study Ahead
+                </Button>
               ) : (
                 <Button 
                   mode="contained" 
@@ -208,7 +260,16 @@ export default function HomeScreen() {
               >
                 Add New Surah
               </Button>
-              
+
+              <Button
+                mode="outlined"
+                icon="tune"
+                onPress={() => router.push('/session/custom')}
+                disabled={isActive}
+              >
+                Custom Session
+              </Button>
+
               <Button 
                 mode="outlined" 
                 icon="cog"
@@ -231,6 +292,22 @@ export default function HomeScreen() {
   }
 }
 
+// Helper function to list juz numbers as ranges (e.g. [3, 4, 5, 9] -> "3-5, 9")
+const formatJuzList = (juz: number[]) => {
+  const ranges: string[] = [];
+  let start = juz[0];
+  
+  for (let i = 1; i <= juz.length; i++) {
+    if (i === juz.length || juz[i] !== juz[i - 1] + 1) {
+      const end = juz[i - 1];
+      ranges.push(start === end ? `${start}` : `${start}-${end}`);
+      start = juz[i];
+    }
+  }
+  
+  return ranges.join(', ');
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -274,6 +351,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: 8,
   },
+  quotaText: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
   progressStats: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Text, Button, Card, useTheme, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { getSessionStatistics, getTodayDueReviews, TodayDueReviews } from '../../services/scheduler';
+import { useSession } from '../../contexts/SessionContext';
+import { SessionStatistics } from '../../types';
+
+export default function SessionBreakScreen() {
+  const theme = useTheme();
+  const { sessionId } = useLocalSearchParams();
+  const { startSession, loading: startingSession, isActive, canUndo, undoLastRating } = useSession();
+
+  const [stats, setStats] = useState<SessionStatistics | null>(null);
+  const [remaining, setRemaining] = useState<TodayDueReviews | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Load the finished part's statistics and what's left of today's queue
+  useEffect(() => {
+    const loadBreakInfo = async () => {
+      try {
+        setLoading(true);
+
+        if (sessionId) {
+          setStats(await getSessionStatistics(sessionId as string));
+        }
+        setRemaining(await getTodayDueReviews());
+      } catch (err) {
+        console.error('Error loading break info:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBreakInfo();
+  }, [sessionId]);
+
+  // Start the next mini-session
+  const handleContinue = async () => {
+    try {
+      await startSession();
+      router.replace('/session/review');
+    } catch (error) {
+      console.error('Error starting next session:', error);
+    }
+  };
+
+  // Go back to the last card of the part just finished and undo its rating
+  const handleUndo = () => {
+    undoLastRating();
+  };
+
+  // Show the summary of the part just finished
+  const handleViewSummary = () => {
+    router.replace({
+      pathname: '/session/summary',
+      params: { sessionId: sessionId as string }
+    });
+  };
+
+  // Stop for now; the rest stays queued for later today
+  const handleFinish = () => {
+    router.replace('/');
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={styles.content}>
+        <Text variant="headlineMedium" style={styles.title}>Take a Break</Text>
+        <Text variant="bodyLarge" style={styles.subtitle}>
+          {stats ? `You reviewed ${stats.totalReviewed} in this part.` : 'Part complete.'}
+        </Text>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.cardTitle}>Left Today</Text>
+
+            <View style={styles.reviewStats}>
+              <View style={styles.statItem}>
+                <Text variant="headlineMedium" style={{ color: theme.colors.primary }}>
+                  {remaining?.due || 0}
+                </Text>
+                <Text variant="bodyMedium">Total Due</Text>
+              </View>
+
+              <View style={styles.statItem}>
+                <Text variant="headlineMedium" style={{ color: theme.colors.error }}>
+                  {remaining?.new || 0}
+                </Text>
+                <Text variant="bodyMedium">New</Text>
+              </View>
+
+              <View style={styles.statItem}>
+                <Text variant="headlineMedium" style={{ color: theme.colors.tertiary }}>
+                  {remaining?.learning || 0}
+                </Text>
+                <Text variant="bodyMedium">Learning</Text>
+              </View>
+
+              <View style={styles.statItem}>
+                <Text variant="headlineMedium" style={{ color: theme.colors.secondary }}>
+                  {remaining?.review || 0}
+                </Text>
+                <Text variant="bodyMedium">Review</Text>
+              </View>
+            </View>
+
+            <Text variant="bodyMedium" style={styles.hint}>
+              You can pick up where you left off any time today.
+            </Text>
+          </Card.Content>
+        </Card>
+
+        <View style={styles.actions}>
+          <Button
+            mode="contained"
+            onPress={handleContinue}
+            loading={startingSession}
+            disabled={startingSession || !remaining?.due}
+            style={styles.actionButton}
+          >
+            Continue
+          </Button>
+          <Button mode="outlined" onPress={handleViewSummary} style={styles.actionButton}>
+            View Summary
+          </Button>
+          {canUndo && !isActive && (
+            <Button mode="outlined" icon="undo" onPress={handleUndo} style={styles.actionButton}>
+              Undo Last Rating
+            </Button>
+          )}
+          <Button mode="text" onPress={handleFinish} style={styles.actionButton}>
+            Finish for Now
+          </Button>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+    justifyContent: 'center',
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginBottom: 24,
+  },
+  card: {
+    marginBottom: 24,
+    elevation: 2,
+  },
+  cardTitle: {
+    marginBottom: 16,
+  },
+  reviewStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  hint: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginTop: 8,
+  },
+  actions: {
+    alignItems: 'stretch',
+  },
+  actionButton: {
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,405 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, ScrollView, Switch } from 'react-native';
+import {
+  Text,
+  Button,
+  Card,
+  Chip,
+  useTheme,
+  RadioButton,
+  TouchableRipple,
+  MD3Theme
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import Slider from '@react-native-community/slider';
+import { useSession } from '../../contexts/SessionContext';
+import { fetchSurahs } from '../../services/quran/api';
+import { JUZ_STARTS } from '../../utils/juz';
+import { AyahProgress, CustomSessionOptions, ReviewMode, Surah } from '../../types';
+
+// Which part of the Quran a custom session draws from
+type Scope = 'all' | 'surah' | 'juz' | 'page';
+
+const CARD_STATES: AyahProgress['state'][] = ['new', 'learning', 'review', 'relearning'];
+const PAGE_COUNT = 604;
+
+export default function CustomSessionScreen() {
+  const theme = useTheme();
+  const { startSession, loading, error } = useSession();
+
+  const [surahs, setSurahs] = useState<Surah[]>([]);
+  const [scope, setScope] = useState<Scope>('all');
+  const [surahNumber, setSurahNumber] = useState(1);
+  const [juzRange, setJuzRange] = useState<[number, number]>([30, 30]);
+  const [pageRange, setPageRange] = useState<[number, number]>([1, 1]);
+  const [states, setStates] = useState<AyahProgress['state'][]>([]);
+  const [leechesOnly, setLeechesOnly] = useState(false);
+  const [reviewedToday, setReviewedToday] = useState(false);
+  const [lowestRecall, setLowestRecall] = useState<number | null>(null);
+  const [failedWithinDays, setFailedWithinDays] = useState<number | null>(null);
+  const [cram, setCram] = useState(true);
+  const [reviewMode, setReviewMode] = useState<ReviewMode | 'settings'>('settings');
+
+  // Load surah names for the surah picker
+  useEffect(() => {
+    fetchSurahs()
+      .then(setSurahs)
+      .catch(err => console.error('Error loading surahs:', err));
+  }, []);
+
+  // Handle toggling a card state filter
+  const handleToggleState = (state: AyahProgress['state']) => {
+    setStates(prev => prev.includes(state) ? prev.filter(s => s !== state) : [...prev, state]);
+  };
+
+  // Handle starting the session with the chosen filters
+  const handleStart = async () => {
+    const options: CustomSessionOptions = {
+      surahNumber: scope === 'surah' ? surahNumber : null,
+      juzRange: scope === 'juz' ? juzRange : null,
+      pageRange: scope === 'page' ? pageRange : null,
+      states,
+      leechesOnly,
+      lowestRecall,
+      failedWithinDays,
+      reviewedToday,
+      cram,
+      reviewMode: reviewMode === 'settings' ? null : reviewMode
+    };
+
+    try {
+      await startSession('custom', options);
+      router.push('/session/review');
+    } catch (err) {
+      console.error('Error starting custom session:', err);
+    }
+  };
+
+  const surahName = surahs.find(surah => surah.number === surahNumber)?.name;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView style={styles.content}>
+        {error && (
+          <Text variant="bodyMedium" style={{ color: theme.colors.error, marginBottom: 16 }}>
+            {error}
+          </Text>
+        )}
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.cardTitle}>
+              Range
+            </Text>
+
+            <RadioButton.Group onValueChange={value => setScope(value as Scope)} value={scope}>
+              <RadioButton.Item label="Everything I'm learning" value="all" style={styles.radioItem} />
+              <RadioButton.Item label="One surah" value="surah" style={styles.radioItem} />
+              <RadioButton.Item label="Juz range" value="juz" style={styles.radioItem} />
+              <RadioButton.Item label="Page range" value="page" style={styles.radioItem} />
+            </RadioButton.Group>
+
+            {scope === 'surah' && (
+              <>
+                <View style={styles.settingRow}>
+                  <Text variant="titleMedium">Surah</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {surahNumber}{surahName ? ` · ${surahName}` : ''}
+                  </Text>
+                </View>
+
+                <Slider
+                  value={surahNumber}
+                  onValueChange={value => setSurahNumber(Math.round(value))}
+                  minimumValue={1}
+                  maximumValue={114}
+                  step={1}
+                  minimumTrackTintColor={theme.colors.primary}
+                  maximumTrackTintColor={theme.colors.surfaceVariant}
+                  thumbTintColor={theme.colors.primary}
+                  style={styles.slider}
+                />
+              </>
+            )}
+
+            {scope === 'juz' && renderRangeSliders('Juz', juzRange, setJuzRange, JUZ_STARTS.length, theme)}
+
+            {scope === 'page' && renderRangeSliders('Page', pageRange, setPageRange, PAGE_COUNT, theme)}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.cardTitle}>
+              Filters
+            </Text>
+
+            <Text variant="titleMedium">Card State</Text>
+            <View style={styles.chipContainer}>
+              {CARD_STATES.map(state => (
+                <Chip
+                  key={state}
+                  selected={states.includes(state)}
+                  onPress={() => handleToggleState(state)}
+                  style={styles.chip}
+                >
+                  {state}
+                </Chip>
+              ))}
+            </View>
+
+            <TouchableRipple onPress={() => setLeechesOnly(!leechesOnly)}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text variant="titleMedium">Leeches Only</Text>
+                </View>
+                <Switch
+                  value={leechesOnly}
+                  onValueChange={setLeechesOnly}
+                  trackColor={{ true: theme.colors.primary }}
+                />
+              </View>
+            </TouchableRipple>
+
+            <TouchableRipple onPress={() => setReviewedToday(!reviewedToday)}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text variant="titleMedium">Reviewed Today</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    Go over what you've already reviewed this study day
+                  </Text>
+                </View>
+                <Switch
+                  value={reviewedToday}
+                  onValueChange={setReviewedToday}
+                  trackColor={{ true: theme.colors.primary }}
+                />
+              </View>
+            </TouchableRipple>
+
+            <TouchableRipple onPress={() => setFailedWithinDays(failedWithinDays === null ? 7 : null)}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text variant="titleMedium">Recently Failed</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {failedWithinDays === null
+                      ? 'Only ayahs rated Again recently'
+                      : `Rated Again in the last ${failedWithinDays} days`}
+                  </Text>
+                </View>
+                <Switch
+                  value={failedWithinDays !== null}
+                  onValueChange={value => setFailedWithinDays(value ? 7 : null)}
+                  trackColor={{ true: theme.colors.primary }}
+                />
+              </View>
+            </TouchableRipple>
+
+            {failedWithinDays !== null && (
+              <Slider
+                value={failedWithinDays}
+                onValueChange={value => setFailedWithinDays(Math.round(value))}
+                minimumValue={1}
+                maximumValue={30}
+                step={1}
+                minimumTrackTintColor={theme.colors.primary}
+                maximumTrackTintColor={theme.colors.surfaceVariant}
+                thumbTintColor={theme.colors.primary}
+                style={styles.slider}
+              />
+            )}
+
+            <TouchableRipple onPress={() => setLowestRecall(lowestRecall === null ? 20 : null)}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text variant="titleMedium">Weakest First</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {lowestRecall === null
+                      ? 'Only the ayahs with the lowest recall scores'
+                      : `The ${lowestRecall} ayahs or groups with the lowest recall scores`}
+                  </Text>
+                </View>
+                <Switch
+                  value={lowestRecall !== null}
+                  onValueChange={value => setLowestRecall(value ? 20 : null)}
+                  trackColor={{ true: theme.colors.primary }}
+                />
+              </View>
+            </TouchableRipple>
+
+            {lowestRecall !== null && (
+              <Slider
+                value={lowestRecall}
+                onValueChange={value => setLowestRecall(Math.round(value))}
+                minimumValue={5}
+                maximumValue={100}
+                step={5}
+                minimumTrackTintColor={theme.colors.primary}
+                maximumTrackTintColor={theme.colors.surfaceVariant}
+                thumbTintColor={theme.colors.primary}
+                style={styles.slider}
+              />
+            )}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.cardTitle}>
+              Review Mode
+            </Text>
+
+            <RadioButton.Group
+              onValueChange={value => setReviewMode(value as ReviewMode | 'settings')}
+              value={reviewMode}
+            >
+              <RadioButton.Item label="As in settings" value="settings" style={styles.radioItem} />
+              <RadioButton.Item label="Recite from memory" value="recite" style={styles.radioItem} />
+              <RadioButton.Item label="Fill in the blanks" value="cloze" style={styles.radioItem} />
+              <RadioButton.Item label="Recite the next ayah" value="nextAyah" style={styles.radioItem} />
+              <RadioButton.Item label="Type the ayah" value="typed" style={styles.radioItem} />
+              <RadioButton.Item label="Put groups in order" value="order" style={styles.radioItem} />
+            </RadioButton.Group>
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <TouchableRipple onPress={() => setCram(!cram)}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text variant="titleMedium">Cram</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {cram
+                      ? "Practice only: ratings won't change when ayahs are next due"
+                      : 'Ratings are scheduled like any other review'}
+                  </Text>
+                </View>
+                <Switch
+                  value={cram}
+                  onValueChange={setCram}
+                  trackColor={{ true: theme.colors.primary }}
+                />
+              </View>
+            </TouchableRipple>
+          </Card.Content>
+        </Card>
+
+        <Button
+          mode="contained"
+          icon="play"
+          onPress={handleStart}
+          loading={loading}
+          disabled={loading}
+          style={styles.startButton}
+        >
+          Start Session
+        </Button>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// Helper function to render a pair of sliders picking the first and last of a range
+const renderRangeSliders = (
+  label: string,
+  range: [number, number],
+  setRange: (range: [number, number]) => void,
+  max: number,
+  theme: MD3Theme
+) => (
+  <>
+    <View style={styles.settingRow}>
+      <Text variant="titleMedium">{label}</Text>
+      <Text variant="bodyMedium" style={styles.settingDescription}>
+        {range[0] === range[1] ? `${range[0]}` : `${range[0]} – ${range[1]}`}
+      </Text>
+    </View>
+
+    <Text variant="bodySmall" style={styles.settingDescription}>From</Text>
+    <Slider
+      value={range[0]}
+      onValueChange={value => {
+        const first = Math.round(value);
+        setRange([first, Math.max(first, range[1])]);
+      }}
+      minimumValue={1}
+      maximumValue={max}
+      step={1}
+      minimumTrackTintColor={theme.colors.primary}
+      maximumTrackTintColor={theme.colors.surfaceVariant}
+      thumbTintColor={theme.colors.primary}
+      style={styles.slider}
+    />
+
+    <Text variant="bodySmall" style={styles.settingDescription}>To</Text>
+    <Slider
+      value={range[1]}
+      onValueChange={value => {
+        const last = Math.round(value);
+        setRange([Math.min(range[0], last), last]);
+      }}
+      minimumValue={1}
+      maximumValue={max}
+      step={1}
+      minimumTrackTintColor={theme.colors.primary}
+      maximumTrackTintColor={theme.colors.surfaceVariant}
+      thumbTintColor={theme.colors.primary}
+      style={styles.slider}
+    />
+  </>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  cardTitle: {
+    marginBottom: 8,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  settingDescription: {
+    opacity: 0.7,
+  },
+  slider: {
+    marginBottom: 16,
+  },
+  radioItem: {
+    paddingVertical: 4,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: 8,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  switchText: {
+    flex: 1,
+  },
+  startButton: {
+    marginBottom: 32,
+  },
+});
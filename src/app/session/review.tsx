@@ -1,16 +1,39 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { StyleSheet, View, BackHandler, Platform } from 'react-native';
-import { Text, useTheme, ActivityIndicator, Badge, Portal, Dialog, Button as PaperButton } from 'react-native-paper';
+import {
+  Text,
+  useTheme,
+  ActivityIndicator,
+  Badge,
+  Portal,
+  Dialog,
+  Menu,
+  IconButton,
+  Divider,
+  Button as PaperButton
+} from 'react-native-paper';
 import { useSession } from '../../contexts/SessionContext';
 import { useSettings } from '../../contexts/SettingsContext';
 import { router, useNavigation } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import AyahDisplay from '../../components/AyahDisplay';
 import GradingButtons from '../../components/GradingButtons';
-import { fetchAyahsForSurah } from '../../services/quran/api';
-import { Ayah, Rating } from '../../types';
+import GroupAudioPlayer from '../../components/GroupAudioPlayer';
+import ClozeQuiz from '../../components/ClozeQuiz';
+import TypedRecitation from '../../components/TypedRecitation';
+import OrderQuiz from '../../components/OrderQuiz';
+import { fetchAyahsForSurah, fetchSurahs } from '../../services/quran/api';
+import { Ayah, AyahProgress, Rating, ReviewMode, UserSettings } from '../../types';
 import { calculateOptimalIntervals } from '../../services/fsrs';
+import { settingsToFSRSParameters } from '../../services/database/settings';
 import { executeQuery } from '../../services/database';
+import { getWordMistakes, MissedWords } from '../../services/database/wordMistakes';
+import { getJuzLastSurah, getJuzNumber } from '../../utils/juz';
+import { suggestRatingFromHints } from '../../utils/hints';
+import { tokenizeAyah } from '../../utils/arabic';
+import { ClozeResult, suggestRatingFromCloze } from '../../utils/cloze';
+import { WordDiff, countErrors, suggestRatingFromErrors } from '../../utils/diff';
+import { OrderResult } from '../../utils/order';
 
 export default function ReviewScreen() {
   const theme = useTheme();
@@ -22,19 +45,65 @@ export default function ReviewScreen() {
     ayahs,
     ayahIndex,
     rateAyah, 
+    undoLastRating,
+    canUndo,
+    suspendCurrentAyah,
+    buryCurrentAyah,
     endSession,
     loading,
     error,
     uniqueGroups,
     uniqueGroupIndex,
-    totalGroups
+    totalGroups,
+    cram,
+    sessionReviewMode,
+    setSessionReviewMode
   } = useSession();
   
   const [ayahContent, setAyahContent] = useState<Ayah | Ayah[] | null>(null);
+  const [promptContent, setPromptContent] = useState<Ayah | null>(null);
+  const [promptTitle, setPromptTitle] = useState<string | null>(null);
+  const [answerShown, setAnswerShown] = useState(false);
+  
+  const isConsolidationCard = currentAyah?.cardType === 'surah' || currentAyah?.cardType === 'juz';
   const [loadingAyah, setLoadingAyah] = useState(false);
-  const [showArabic, setShowArabic] = useState(true);
+  const [showArabic, setShowArabic] = useState(false);
+  const [hints, setHints] = useState(0);
+  const [clozeMistakes, setClozeMistakes] = useState<Map<string, number> | undefined>(undefined);
+  const [clozeResult, setClozeResult] = useState<ClozeResult | null>(null);
+  const [typedDiff, setTypedDiff] = useState<WordDiff[] | null>(null);
+  const [orderResult, setOrderResult] = useState<OrderResult | null>(null);
   const [intervals, setIntervals] = useState<{ [key in Rating]: number }>({ 1: 0, 2: 1, 3: 3, 4: 7 });
   const [exitDialogVisible, setExitDialogVisible] = useState(false);
+  const [menuVisible, setMenuVisible] = useState(false);
+  
+  // How the current card is tested, from this session's choice or the settings for its card type
+  const reviewMode = currentAyah && settings
+    ? getCardReviewMode(currentAyah, settings, sessionReviewMode)
+    : 'recite';
+  
+  // Cloze mode: ayah cards are tested by filling in blanked-out words
+  const clozeMode = reviewMode === 'cloze';
+  
+  // Typed mode: ayah cards are typed out and checked word by word
+  const typedMode = reviewMode === 'typed';
+  
+  // Order mode: the ayahs of a group are shuffled to be put back in order
+  const orderMode = reviewMode === 'order' && Array.isArray(ayahContent) && ayahContent.length > 1;
+  
+  // Next-ayah mode: the front shows the ayah before (or the surah's opening), the back the card
+  const nextAyahMode = reviewMode === 'nextAyah';
+  
+  // Recited ayah cards start with every word hidden, to be revealed word by word with hints,
+  // unless the Arabic is switched on for the session
+  const reciteMode = currentAyah?.cardType === 'ayah' && reviewMode === 'recite';
+  const hintMode = reciteMode && !showArabic;
+  
+  // The shown ayahs as a list for the quizzes, only replaced when new content loads
+  const quizAyahs = useMemo(
+    () => ayahContent ? (Array.isArray(ayahContent) ? ayahContent : [ayahContent]) : [],
+    [ayahContent]
+  );
   
   // Define loadAyahContent outside useEffect so it can be called from retry button
   const loadAyahContent = async () => {
@@ -43,8 +112,25 @@ export default function ReviewScreen() {
     try {
       setLoadingAyah(true);
       
-      // Check if this ayah should be tested with its group
-      if (currentAyah.testWithGroup) {
+      // Surah and juz cards load every ayah they cover, to be recited in one go
+      if (isConsolidationCard) {
+        const lastSurah = currentAyah.cardType === 'juz' && currentAyah.juzNumber
+          ? getJuzLastSurah(currentAyah.juzNumber)
+          : currentAyah.surahNumber;
+        const ayahContents: Ayah[] = [];
+        
+        for (let surahNumber = currentAyah.surahNumber; surahNumber <= lastSurah; surahNumber++) {
+          const surahAyahs = await fetchAyahsForSurah(surahNumber);
+          
+          ayahContents.push(...surahAyahs.filter(a =>
+            currentAyah.cardType === 'surah' ||
+            getJuzNumber(a.surahNumber, a.ayahNumber) === currentAyah.juzNumber
+          ));
+        }
+        
+        setAyahContent(ayahContents.length > 0 ? ayahContents : null);
+      } else if (currentAyah.testWithGroup) {
+        // Check if this ayah should be tested with its group
         // Get all ayahs in this group
         const groupAyahs = await executeQuery(
           `SELECT * FROM ayah_progress 
@@ -105,6 +191,13 @@ export default function ReviewScreen() {
         
         const ayah = ayahs.find(a => a.ayahNumber === currentAyah.ayahNumber);
         
+        // Link cards prompt with the last ayah of the previous group
+        setPromptContent(
+          currentAyah.cardType === 'link'
+            ? ayahs.find(a => a.ayahNumber === currentAyah.promptAyahNumber) || null
+            : null
+        );
+        
         if (ayah) {
           // Check if we have a local audio path for this ayah
           if (!ayah.audioPath) {
@@ -137,10 +230,11 @@ export default function ReviewScreen() {
           lapses: currentAyah.lapses,
           lastReview: currentAyah.lastReviewed,
           dueDate: currentAyah.nextReview,
-          interval: currentAyah.interval
+          interval: currentAyah.interval,
+          step: currentAyah.learningStep
         };
         
-        const optimalIntervals = calculateOptimalIntervals(card);
+        const optimalIntervals = calculateOptimalIntervals(card, new Date(), settingsToFSRSParameters(settings));
         setIntervals(optimalIntervals);
       }
     } catch (err) {
@@ -154,9 +248,62 @@ export default function ReviewScreen() {
   
   // Load ayah content when current ayah changes
   useEffect(() => {
+    setAnswerShown(false);
+    setPromptContent(null);
+    setPromptTitle(null);
+    setHints(0);
+    setClozeMistakes(undefined);
+    setClozeResult(null);
+    setTypedDiff(null);
+    setOrderResult(null);
     loadAyahContent();
   }, [currentAyah]);
   
+  // Load the next-ayah prompt: the ayah before the first one tested, or at the start of a
+  // surah its name and the basmala (played from Al-Fatihah). Al-Fatihah, whose first ayah is
+  // the basmala, and At-Tawbah, which has none, get just the name.
+  useEffect(() => {
+    if (!nextAyahMode || !ayahContent) return;
+    
+    let cancelled = false;
+    const first = Array.isArray(ayahContent) ? ayahContent[0] : ayahContent;
+    
+    const loadPrompt = async () => {
+      if (first.ayahNumber > 1) {
+        const surahAyahs = await fetchAyahsForSurah(first.surahNumber);
+        if (cancelled) return;
+        
+        setPromptTitle('Continue from this ayah');
+        setPromptContent(surahAyahs.find(a => a.ayahNumber === first.ayahNumber - 1) || null);
+        return;
+      }
+      
+      const surah = (await fetchSurahs()).find(s => s.number === first.surahNumber);
+      const basmala = first.surahNumber === 1 || first.surahNumber === 9
+        ? null
+        : (await fetchAyahsForSurah(1)).find(a => a.ayahNumber === 1) || null;
+      if (cancelled) return;
+      
+      setPromptTitle(`Begin Surah ${surah ? surah.name : first.surahNumber}`);
+      setPromptContent(basmala);
+    };
+    
+    loadPrompt().catch(err => console.error('Error loading next-ayah prompt:', err));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [ayahContent, nextAyahMode]);
+  
+  // Load past mistakes for cloze blanks that lean on them
+  useEffect(() => {
+    if (!clozeMode || quizAyahs.length === 0 || settings?.clozeSelection !== 'weighted') return;
+    
+    getWordMistakes(quizAyahs, quizAyahs[0].scriptType)
+      .then(setClozeMistakes)
+      .catch(err => console.error('Error loading word mistakes:', err));
+  }, [clozeMode, quizAyahs, settings?.clozeSelection]);
+  
   // Handle back button behavior (Android)
   useEffect(() => {
     const handleBackPress = () => {
@@ -180,14 +327,114 @@ export default function ReviewScreen() {
     setExitDialogVisible(false);
   };
   
-  // Handle rating an ayah
+  // Handle rating an ayah. After an ordering quiz, the group's ayahs put out of order are
+  // passed along to be rated on their own; after a cloze, the words missed are passed along
+  // so weighted blanks can lean on them.
   const handleRate = (rating: Rating) => {
-    rateAyah(rating);
+    const misplacedIds = orderMode && orderResult && Array.isArray(ayahContent)
+      ? ayahs
+          .filter(a =>
+            a.groupId === currentAyah?.groupId &&
+            orderResult.misplaced.some(index =>
+              ayahContent[index].surahNumber === a.surahNumber &&
+              ayahContent[index].ayahNumber === a.ayahNumber
+            )
+          )
+          .map(a => a.id)
+      : undefined;
+    
+    const clozeAyahs = ayahContent && (Array.isArray(ayahContent) ? ayahContent : [ayahContent]);
+    const missedWords: MissedWords | undefined = clozeMode && clozeResult && clozeAyahs &&
+      clozeResult.missed.length > 0
+      ? {
+          words: clozeResult.missed.map(word => ({
+            surahNumber: clozeAyahs[word.ayahIndex].surahNumber,
+            ayahNumber: clozeAyahs[word.ayahIndex].ayahNumber,
+            wordIndex: word.wordIndex
+          })),
+          scriptType: clozeAyahs[0].scriptType
+        }
+      : undefined;
+    
+    rateAyah(rating, hintMode ? hints : undefined, misplacedIds, missedWords);
+  };
+  
+  // Handle a finished cloze
+  const handleClozeComplete = (result: ClozeResult) => {
+    setClozeResult(result);
+  };
+  
+  // Handle undoing the last rating
+  const handleUndo = () => {
+    undoLastRating();
+  };
+  
+  // Handle suspending the current ayah or group
+  const handleSuspend = () => {
+    setMenuVisible(false);
+    suspendCurrentAyah();
+  };
+  
+  // Handle burying the current ayah or group until tomorrow
+  const handleBury = () => {
+    setMenuVisible(false);
+    buryCurrentAyah();
+  };
+  
+  // Handle choosing a review mode for the rest of the session (choosing it again goes back to the settings)
+  const handleSessionReviewMode = (mode: ReviewMode) => {
+    setMenuVisible(false);
+    setSessionReviewMode(sessionReviewMode === mode ? null : mode);
   };
   
-  // Toggle showing Arabic
+  // Render the front of a link or next-ayah card: what to continue from
+  const renderNextAyahPrompt = () => {
+    const first = Array.isArray(ayahContent) ? ayahContent[0] : ayahContent;
+    
+    return (
+      <>
+        <Text variant="titleSmall" style={styles.promptLabel}>
+          {currentAyah?.cardType === 'link' ? 'What comes next?' : promptTitle}
+        </Text>
+        {promptContent && (
+          <AyahDisplay
+            ayah={promptContent}
+            showAyahNumber={currentAyah?.cardType === 'link' || first?.ayahNumber !== 1}
+            showAudio={settings?.audioEnabled || false}
+            autoPlayAudio={settings?.audioEnabled || false}
+          />
+        )}
+      </>
+    );
+  };
+  
+  // Get the rating suggested by how the current card's quiz or hints went, if any
+  const getSuggestedRating = (): Rating | null => {
+    if (clozeMode && clozeResult) {
+      return suggestRatingFromCloze(clozeResult.correct, clozeResult.total);
+    }
+    
+    // After an ordering quiz the rating only applies to the ayahs put in place (the misplaced
+    // ones are rated Again on their own), so those were recalled in order
+    if (orderMode && orderResult) {
+      return 3;
+    }
+    
+    if (typedMode && typedDiff && ayahContent) {
+      return suggestRatingFromErrors(countErrors(typedDiff), countWords(ayahContent));
+    }
+    
+    if (hintMode && ayahContent) {
+      return suggestRatingFromHints(hints, countWords(ayahContent));
+    }
+    
+    return null;
+  };
+  
+  // Toggle showing Arabic. With it hidden (the default), recited ayah cards are in hint mode.
   const toggleArabicDisplay = () => {
     setShowArabic(!showArabic);
+    setHints(0);
   };
   
   // Get progress percentage
@@ -241,16 +488,69 @@ export default function ReviewScreen() {
           <Badge style={[styles.stateBadge, { backgroundColor: getBadgeColor(currentAyah.state, theme) }]}>
             {currentAyah.state}
           </Badge>
+          {currentAyah.leech && (
+            <Badge style={[styles.stateBadge, { backgroundColor: theme.colors.error }]}>
+              leech
+            </Badge>
+          )}
+          {cram && (
+            <Badge style={[styles.stateBadge, { backgroundColor: theme.colors.tertiary }]}>
+              cram
+            </Badge>
+          )}
         </View>
         
         <View style={styles.headerActions}>
-          <PaperButton
-            mode="text"
-            compact
-            onPress={toggleArabicDisplay}
+          {canUndo && (
+            <PaperButton
+              mode="text"
+              compact
+              icon="undo"
+              onPress={handleUndo}
+            >
+              Undo
+            </PaperButton>
+          )}
+          {reciteMode && (
+            <PaperButton
+              mode="text"
+              compact
+              onPress={toggleArabicDisplay}
+            >
+              {showArabic ? 'Hide Arabic' : 'Show Arabic'}
+            </PaperButton>
+          )}
+          <Menu
+            visible={menuVisible}
+            onDismiss={() => setMenuVisible(false)}
+            anchor={
+              <IconButton
+                icon="dots-vertical"
+                size={20}
+                onPress={() => setMenuVisible(true)}
+              />
+            }
           >
-            {showArabic ? 'Hide Arabic' : 'Show Arabic'}
-          </PaperButton>
+            <Menu.Item
+              leadingIcon="calendar-arrow-right"
+              onPress={handleBury}
+              title={currentAyah.testWithGroup ? 'Bury group until tomorrow' : 'Bury until tomorrow'}
+            />
+            <Menu.Item
+              leadingIcon="pause-circle-outline"
+              onPress={handleSuspend}
+              title={currentAyah.testWithGroup ? 'Suspend group' : 'Suspend'}
+            />
+            <Divider />
+            {SESSION_REVIEW_MODES.map(option => (
+              <Menu.Item
+                key={option.mode}
+                leadingIcon={sessionReviewMode === option.mode ? 'check' : option.icon}
+                onPress={() => handleSessionReviewMode(option.mode)}
+                title={option.label}
+              />
+            ))}
+          </Menu>
         </View>
       </View>
       
@@ -267,17 +567,105 @@ export default function ReviewScreen() {
       </View>
       
       <View style={styles.content}>
+        {currentAyah.leech && currentAyah.state === 'learning' && (
+          <View style={[styles.relearnBanner, { backgroundColor: theme.colors.errorContainer }]}>
+            <Text variant="titleSmall" style={{ color: theme.colors.onErrorContainer }}>
+              Re-learning a leech
+            </Text>
+            <Text variant="bodySmall" style={{ color: theme.colors.onErrorContainer }}>
+              This ayah keeps slipping. Listen and read along a few times, then recite it
+              from memory before grading.
+            </Text>
+          </View>
+        )}
+        
         {loadingAyah ? (
           <View style={styles.ayahLoadingContainer}>
             <ActivityIndicator size="large" color={theme.colors.primary} />
             <Text>Loading ayah...</Text>
           </View>
+        ) : ayahContent && isConsolidationCard ? (
+          <View style={styles.promptContainer}>
+            <Text variant="titleSmall" style={styles.promptLabel}>
+              {currentAyah.cardType === 'juz'
+                ? `Recite Juz ${currentAyah.juzNumber} from memory`
+                : `Recite Surah ${currentAyah.surahNumber} from memory`}
+            </Text>
+            {nextAyahMode && !answerShown ? (
+              renderNextAyahPrompt()
+            ) : (
+              <GroupAudioPlayer
+                ayahs={Array.isArray(ayahContent) ? ayahContent : [ayahContent]}
+                autoPlay={!nextAyahMode && (settings?.audioEnabled || false)}
+              />
+            )}
+            {answerShown ? (
+              <AyahDisplay
+                ayah={ayahContent}
+                showAyahNumber={true}
+                showAudio={false}
+              />
+            ) : (
+              <PaperButton
+                mode="contained-tonal"
+                onPress={() => setAnswerShown(true)}
+                style={styles.showAnswerButton}
+              >
+                Show Text
+              </PaperButton>
+            )}
+          </View>
+        ) : ayahContent && (currentAyah.cardType === 'link' || nextAyahMode) ? (
+          <View style={styles.promptContainer}>
+            {renderNextAyahPrompt()}
+            {answerShown ? (
+              <AyahDisplay
+                ayah={ayahContent}
+                showAyahNumber={true}
+                showAudio={settings?.audioEnabled || false}
+              />
+            ) : (
+              <PaperButton
+                mode="contained-tonal"
+                onPress={() => setAnswerShown(true)}
+                style={styles.showAnswerButton}
+              >
+                Show Answer
+              </PaperButton>
+            )}
+          </View>
+        ) : ayahContent && clozeMode && settings ? (
+          settings.clozeSelection !== 'weighted' || clozeMistakes ? (
+            <ClozeQuiz
+              ayahs={quizAyahs}
+              share={settings.clozeShare}
+              input={settings.clozeInput}
+              mistakes={settings.clozeSelection === 'weighted' ? clozeMistakes : undefined}
+              onComplete={handleClozeComplete}
+            />
+          ) : (
+            <View style={styles.ayahLoadingContainer}>
+              <ActivityIndicator size="large" color={theme.colors.primary} />
+            </View>
+          )
+        ) : ayahContent && orderMode ? (
+          <OrderQuiz
+            ayahs={quizAyahs}
+            onComplete={setOrderResult}
+          />
+        ) : ayahContent && typedMode ? (
+          <TypedRecitation
+            ayahs={Array.isArray(ayahContent) ? ayahContent : [ayahContent]}
+            onComplete={setTypedDiff}
+          />
         ) : ayahContent ? (
           <AyahDisplay
             ayah={ayahContent}
             showAyahNumber={true}
             showAudio={settings?.audioEnabled || false}
             autoPlayAudio={settings?.audioEnabled || false}
+            hintMode={hintMode}
+            onHintsChange={setHints}
           />
         ) : (
           <View style={styles.ayahLoadingContainer}>
@@ -298,7 +686,14 @@ export default function ReviewScreen() {
             onRate={handleRate}
             showIntervals={true}
             intervals={intervals}
-            disabled={loadingAyah}
+            suggestedRating={getSuggestedRating()}
+            disabled={
+              loadingAyah ||
+              ((currentAyah.cardType === 'link' || nextAyahMode) && !answerShown) ||
+              (clozeMode && !clozeResult) ||
+              (typedMode && !typedDiff) ||
+              (orderMode && !orderResult)
+            }
           />
         </View>
       </View>
@@ -321,6 +716,39 @@ export default function ReviewScreen() {
   );
 }
 
+// Review modes that can be chosen for the rest of a session from the menu
+const SESSION_REVIEW_MODES: { mode: ReviewMode; label: string; icon: string }[] = [
+  { mode: 'recite', label: 'Recite from memory', icon: 'microphone-outline' },
+  { mode: 'cloze', label: 'Fill in the blanks', icon: 'form-textbox' },
+  { mode: 'nextAyah', label: 'Recite the next ayah', icon: 'page-next-outline' },
+  { mode: 'typed', label: 'Type the ayah', icon: 'keyboard-outline' },
+  { mode: 'order', label: 'Put the group in order', icon: 'sort-numeric-ascending' },
+];
+
+// Helper function to get how a card is tested. Link cards always prompt with the ayah before,
+// and whole surahs and juz are too long to fill in or type out, so cloze and typed modes only
+// apply to ayah cards. Ordering needs a group tested together.
+const getCardReviewMode = (
+  ayah: AyahProgress,
+  settings: UserSettings,
+  sessionReviewMode: ReviewMode | null
+): ReviewMode => {
+  if (ayah.cardType === 'link') {
+    return 'recite';
+  }
+  
+  const mode = sessionReviewMode
+    ?? (ayah.cardType === 'ayah' ? settings.reviewMode : settings.consolidationReviewMode);
+  
+  if (mode === 'order' && !ayah.testWithGroup) {
+    return 'recite';
+  }
+  
+  return (mode === 'cloze' || mode === 'typed' || mode === 'order') && ayah.cardType !== 'ayah'
+    ? 'recite'
+    : mode;
+};
+
 // Helper function to get badge color based on ayah state
 const getBadgeColor = (state: string, theme: any) => {
   switch (state) {
@@ -337,6 +765,12 @@ const getBadgeColor = (state: string, theme: any) => {
   }
 };
 
+// Helper function to count the words in an ayah or group of ayahs
+const countWords = (content: Ayah | Ayah[]) => {
+  const ayahs = Array.isArray(content) ? content : [content];
+  return ayahs.reduce((sum, ayah) => sum + tokenizeAyah(ayah.text).length, 0);
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -398,4 +832,21 @@ const styles = StyleSheet.create({
   gradingContainer: {
     marginTop: 16,
   },
+  relearnBanner: {
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  promptContainer: {
+    flex: 1,
+  },
+  promptLabel: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  showAnswerButton: {
+    alignSelf: 'center',
+    marginTop: 16,
+  },
 });
\ No newline at end of file
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { StyleSheet, View, ScrollView } from 'react-native';
-import { Text, Button, Card, useTheme, ActivityIndicator, Divider, IconButton } from 'react-native-paper';
+import { Text, Button, Card, useTheme, ActivityIndicator, Divider, IconButton, MD3Theme } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
 import { getSessionStatistics } from '../../services/scheduler';
+import { useSession } from '../../contexts/SessionContext';
 import { SessionStatistics } from '../../types';
 import { PieChart } from 'react-native-chart-kit';
 import { Dimensions } from 'react-native';
@@ -14,6 +15,7 @@ const screenWidth = Dimensions.get('window').width;
 export default function SessionSummaryScreen() {
   const theme = useTheme();
   const { sessionId } = useLocalSearchParams();
+  const { isActive, canUndo, undoLastRating } = useSession();
   
   const [stats, setStats] = useState<SessionStatistics | null>(null);
   const [loading, setLoading] = useState(true);
@@ -102,6 +104,11 @@ export default function SessionSummaryScreen() {
     ].filter(item => item.count > 0); // Only show ratings that were used
   };
   
+  // Handle undoing the rating that ended the session, which goes back to that card
+  const handleUndo = () => {
+    undoLastRating();
+  };
+  
   // Handle return to home
   const handleReturnHome = () => {
     router.replace('/');
@@ -266,6 +273,11 @@ export default function SessionSummaryScreen() {
         </Card>
         
         <View style={styles.buttonContainer}>
+          {canUndo && !isActive && (
+            <Button mode="outlined" icon="undo" onPress={handleUndo} style={[styles.button, styles.undoButton]}>
+              Undo Last Rating
+            </Button>
+          )}
           <Button mode="contained" onPress={handleReturnHome} style={styles.button}>
             Return to Home
           </Button>
@@ -276,7 +288,7 @@ export default function SessionSummaryScreen() {
 }
 
 // Helper function to get retention color
-const getRetentionColor = (retention: number, theme: any) => {
+const getRetentionColor = (retention: number, theme: MD3Theme) => {
   if (retention >= 90) return '#4CAF50'; // Green
   if (retention >= 75) return theme.colors.primary;
   if (retention >= 60) return '#FF9800'; // Orange
@@ -388,4 +400,7 @@ const styles = StyleSheet.create({
   button: {
     padding: 8,
   },
+  undoButton: {
+    marginBottom: 8,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,325 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, ScrollView } from 'react-native';
+import {
+  Text,
+  Button,
+  Card,
+  useTheme,
+  ActivityIndicator,
+  List,
+  Divider,
+  RadioButton
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Slider from '@react-native-community/slider';
+import { useSettings } from '../../contexts/SettingsContext';
+import {
+  cancelFreezePeriod,
+  createFreezePeriod,
+  getFreezePeriods,
+  getPendingFreeze,
+  resumeFromFreeze
+} from '../../services/database/freeze';
+import { addDays } from '../../utils/studyDay';
+import { FreezePeriod, FreezeResumeMode } from '../../types';
+
+export default function FreezeScheduleScreen() {
+  const theme = useTheme();
+  const { settings, updateUserSettings } = useSettings();
+
+  const [pending, setPending] = useState<FreezePeriod | null>(null);
+  const [history, setHistory] = useState<FreezePeriod[]>([]);
+  const [startsIn, setStartsIn] = useState(0);
+  const [length, setLength] = useState(7);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the current freeze and past ones
+  const loadFreezes = async () => {
+    try {
+      setError(null);
+
+      setPending(await getPendingFreeze());
+      setHistory((await getFreezePeriods()).filter(period => period.resumedAt !== null));
+    } catch (err) {
+      console.error('Error loading freeze periods:', err);
+      setError('Failed to load freeze periods');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadFreezes();
+  }, []);
+
+  // Schedule a new freeze
+  const handleFreeze = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const start = addDays(new Date(), startsIn);
+      await createFreezePeriod(start, addDays(start, length));
+      await loadFreezes();
+    } catch (err) {
+      console.error('Error creating freeze:', err);
+      setError(err instanceof Error ? err.message : 'Failed to freeze schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Resume the schedule now, catching up the way the settings say
+  const handleResume = async () => {
+    if (!pending || !settings) return;
+
+    try {
+      setSaving(true);
+      await resumeFromFreeze(pending, settings.freezeResumeMode, settings.catchUpDays);
+      await loadFreezes();
+    } catch (err) {
+      console.error('Error resuming schedule:', err);
+      setError('Failed to resume schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Cancel a freeze that hasn't started yet
+  const handleCancel = async () => {
+    if (!pending) return;
+
+    try {
+      await cancelFreezePeriod(pending.id);
+      await loadFreezes();
+    } catch (err) {
+      console.error('Error cancelling freeze:', err);
+    }
+  };
+
+  // Handle changing how the backlog is handled on resume
+  const handleResumeModeChange = async (mode: FreezeResumeMode) => {
+    try {
+      await updateUserSettings({ freezeResumeMode: mode });
+    } catch (err) {
+      console.error('Error updating resume mode:', err);
+    }
+  };
+
+  // Handle changing the number of catch-up days
+  const handleCatchUpDaysChange = async (value: number) => {
+    try {
+      await updateUserSettings({ catchUpDays: Math.round(value) });
+    } catch (err) {
+      console.error('Error updating catch-up days:', err);
+    }
+  };
+
+  if (loading || !settings) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  const isActive = pending !== null && pending.startDate <= new Date();
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView style={styles.content}>
+        {error && (
+          <Text variant="bodyMedium" style={{ color: theme.colors.error, marginBottom: 16 }}>
+            {error}
+          </Text>
+        )}
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.cardTitle}>
+              Freeze Schedule
+            </Text>
+
+            {pending ? (
+              <>
+                <Text variant="bodyMedium" style={styles.statusText}>
+                  {isActive
+                    ? `Frozen since ${pending.startDate.toLocaleDateString()}, until ${pending.endDate.toLocaleDateString()}.`
+                    : `Freeze scheduled from ${pending.startDate.toLocaleDateString()} to ${pending.endDate.toLocaleDateString()}.`}
+                </Text>
+
+                {isActive ? (
+                  <Button mode="contained" onPress={handleResume} loading={saving} disabled={saving}>
+                    Resume Now
+                  </Button>
+                ) : (
+                  <Button mode="outlined" onPress={handleCancel}>
+                    Cancel Freeze
+                  </Button>
+                )}
+              </>
+            ) : (
+              <>
+                <Text variant="bodyMedium" style={styles.settingDescription}>
+                  Nothing comes due while the schedule is frozen
+                </Text>
+
+                <View style={styles.settingRow}>
+                  <Text variant="titleMedium">Starts</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {startsIn === 0 ? 'Today' : `In ${startsIn} days`}
+                  </Text>
+                </View>
+
+                <Slider
+                  value={startsIn}
+                  onValueChange={value => setStartsIn(Math.round(value))}
+                  minimumValue={0}
+                  maximumValue={30}
+                  step={1}
+                  minimumTrackTintColor={theme.colors.primary}
+                  maximumTrackTintColor={theme.colors.surfaceVariant}
+                  thumbTintColor={theme.colors.primary}
+                  style={styles.slider}
+                />
+
+                <View style={styles.settingRow}>
+                  <Text variant="titleMedium">Length</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {length} days
+                  </Text>
+                </View>
+
+                <Slider
+                  value={length}
+                  onValueChange={value => setLength(Math.round(value))}
+                  minimumValue={1}
+                  maximumValue={60}
+                  step={1}
+                  minimumTrackTintColor={theme.colors.primary}
+                  maximumTrackTintColor={theme.colors.surfaceVariant}
+                  thumbTintColor={theme.colors.primary}
+                  style={styles.slider}
+                />
+
+                <Button mode="contained" icon="snowflake" onPress={handleFreeze} loading={saving} disabled={saving}>
+                  Freeze
+                </Button>
+              </>
+            )}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.cardTitle}>
+              When Resuming
+            </Text>
+
+            <RadioButton.Group
+              onValueChange={value => handleResumeModeChange(value as FreezeResumeMode)}
+              value={settings.freezeResumeMode}
+            >
+              <RadioButton.Item
+                label="Shift every review by the length of the freeze"
+                value="shift"
+                style={styles.radioItem}
+              />
+              <RadioButton.Item
+                label="Spread the backlog over catch-up days"
+                value="spread"
+                style={styles.radioItem}
+              />
+            </RadioButton.Group>
+
+            {settings.freezeResumeMode === 'spread' && (
+              <>
+                <View style={styles.settingRow}>
+                  <Text variant="titleMedium">Catch-up Days</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {settings.catchUpDays} days
+                  </Text>
+                </View>
+
+                <Slider
+                  value={settings.catchUpDays}
+                  onSlidingComplete={handleCatchUpDaysChange}
+                  minimumValue={1}
+                  maximumValue={30}
+                  step={1}
+                  minimumTrackTintColor={theme.colors.primary}
+                  maximumTrackTintColor={theme.colors.surfaceVariant}
+                  thumbTintColor={theme.colors.primary}
+                  style={styles.slider}
+                />
+              </>
+            )}
+          </Card.Content>
+        </Card>
+
+        {history.length > 0 && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleLarge" style={styles.cardTitle}>
+                Past Freezes
+              </Text>
+
+              {history.map((period, index) => (
+                <View key={period.id}>
+                  <List.Item
+                    title={`${period.startDate.toLocaleDateString()} – ${period.resumedAt?.toLocaleDateString()}`}
+                    description={period.resumeMode === 'spread' ? 'Backlog spread out' : 'Reviews shifted'}
+                    left={props => <List.Icon {...props} icon="snowflake" />}
+                  />
+                  {index < history.length - 1 && <Divider />}
+                </View>
+              ))}
+            </Card.Content>
+          </Card>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  cardTitle: {
+    marginBottom: 8,
+  },
+  statusText: {
+    marginBottom: 16,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  settingDescription: {
+    opacity: 0.7,
+  },
+  slider: {
+    marginBottom: 16,
+  },
+  radioItem: {
+    paddingVertical: 4,
+  },
+});
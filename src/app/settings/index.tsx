@@ -12,6 +12,8 @@ import {
   Portal,
   Dialog,
   RadioButton,
+  TextInput,
+  HelperText,
 } from 'react-native-paper';
 import Slider from '@react-native-community/slider';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -19,9 +21,19 @@ import { router } from 'expo-router';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useAppTheme } from '../../contexts/ThemeContext';
 import { clearCache, calculateCacheSize, getFileSizeString } from '../../utils/storage';
-import { resetAllProgress } from '../../services/database/ayahProgress';
+import {
+  getAllAyahProgress,
+  rescheduleAllAyahs,
+  resetAllProgress,
+  RescheduleReport
+} from '../../services/database/ayahProgress';
+import { getFreezePeriods } from '../../services/database/freeze';
+import { settingsToFSRSParameters } from '../../services/database/settings';
+import { buildReviewSequences, optimizeParameters, OptimizationResult } from '../../services/fsrs/optimizer';
+import { DEFAULT_PARAMETERS } from '../../services/fsrs';
 import { downloadQuranForOffline } from '../../services/quran/api';
 import { ThemeType } from '../../contexts/ThemeContext';
+import { LeechAction, ReviewMode, ReviewSortOrder } from '../../types';
 
 export default function SettingsScreen() {
   const theme = useTheme();
@@ -33,7 +45,19 @@ export default function SettingsScreen() {
   const [resetDialogVisible, setResetDialogVisible] = useState(false);
   const [themeDialogVisible, setThemeDialogVisible] = useState(false);
   const [scriptDialogVisible, setScriptDialogVisible] = useState(false);
+  const [sortOrderDialogVisible, setSortOrderDialogVisible] = useState(false);
+  const [leechActionDialogVisible, setLeechActionDialogVisible] = useState(false);
+  const [reviewModeDialogVisible, setReviewModeDialogVisible] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState(0);
+  const [optimizing, setOptimizing] = useState(false);
+  const [optimizeProgress, setOptimizeProgress] = useState(0);
+  const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | null>(null);
+  const [optimizeError, setOptimizeError] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState(false);
+  const [rescheduleReport, setRescheduleReport] = useState<RescheduleReport | null>(null);
+  const [learningStepsText, setLearningStepsText] = useState('');
+  const [lapseStepsText, setLapseStepsText] = useState('');
+  const [stepsError, setStepsError] = useState<string | null>(null);
   
   // Get cache size
   useEffect(() => {
@@ -45,6 +69,14 @@ export default function SettingsScreen() {
     getCacheSize();
   }, []);
   
+  // Keep the step inputs in sync with the stored settings
+  useEffect(() => {
+    if (settings) {
+      setLearningStepsText(settings.learningSteps.join(', '));
+      setLapseStepsText(settings.lapseSteps.join(', '));
+    }
+  }, [settings?.learningSteps, settings?.lapseSteps]);
+  
   // Handle theme change
   const handleThemeChange = (newTheme: ThemeType) => {
     setTheme(newTheme);
@@ -60,6 +92,60 @@ export default function SettingsScreen() {
     }
   };
   
+  // Handle toggling interval fuzz
+  const handleToggleFuzz = async (value: boolean) => {
+    try {
+      await updateUserSettings({ enableFuzz: value });
+    } catch (error) {
+      console.error('Error updating fuzz setting:', error);
+    }
+  };
+  
+  // Handle toggling load balancing
+  const handleToggleLoadBalancing = async (value: boolean) => {
+    try {
+      await updateUserSettings({ loadBalancing: value });
+    } catch (error) {
+      console.error('Error updating load balancing setting:', error);
+    }
+  };
+  
+  // Handle switching between FSRS and sabaq / sabqi / manzil sessions
+  const handleToggleTieredRevision = async (value: boolean) => {
+    try {
+      await updateUserSettings({ revisionMode: value ? 'tiered' : 'fsrs' });
+    } catch (error) {
+      console.error('Error updating revision mode setting:', error);
+    }
+  };
+  
+  // Handle changing how long a group stays in sabqi
+  const handleSabqiDaysChange = async (value: number) => {
+    try {
+      await updateUserSettings({ sabqiDays: Math.round(value) });
+    } catch (error) {
+      console.error('Error updating sabqi setting:', error);
+    }
+  };
+  
+  // Handle changing the manzil cycle length
+  const handleManzilCycleDaysChange = async (value: number) => {
+    try {
+      await updateUserSettings({ manzilCycleDays: Math.round(value) });
+    } catch (error) {
+      console.error('Error updating manzil cycle setting:', error);
+    }
+  };
+  
+  // Handle changing the stability needed for surah and juz consolidation cards
+  const handleConsolidationStabilityChange = async (value: number) => {
+    try {
+      await updateUserSettings({ consolidationStability: Math.round(value) });
+    } catch (error) {
+      console.error('Error updating consolidation setting:', error);
+    }
+  };
+  
   // Handle offline mode toggle
   const handleToggleOfflineMode = async (value: boolean) => {
     try {
@@ -121,6 +207,24 @@ export default function SettingsScreen() {
     }
   };
   
+  // Handle toggling sequential unlocking of new groups
+  const handleToggleSequentialUnlock = async (value: boolean) => {
+    try {
+      await updateUserSettings({ sequentialUnlock: value });
+    } catch (error) {
+      console.error('Error updating sequential unlock setting:', error);
+    }
+  };
+  
+  // Handle changing the stability needed to unlock the next group
+  const handleUnlockStabilityChange = async (value: number) => {
+    try {
+      await updateUserSettings({ unlockStability: Math.round(value) });
+    } catch (error) {
+      console.error('Error updating unlock stability setting:', error);
+    }
+  };
+  
   // Handle changing review limit
   const handleReviewLimitChange = async (value: number) => {
     try {
@@ -131,6 +235,33 @@ export default function SettingsScreen() {
     }
   };
   
+  // Handle changing how many cards make up one mini-session
+  const handleMaxReviewsPerSessionChange = async (value: number) => {
+    try {
+      await updateUserSettings({ maxReviewsPerSession: Math.round(value) });
+    } catch (error) {
+      console.error('Error updating session size setting:', error);
+    }
+  };
+  
+  // Handle changing how many days ahead a study-ahead session reaches
+  const handleReviewAheadDaysChange = async (value: number) => {
+    try {
+      await updateUserSettings({ reviewAheadDays: Math.round(value) });
+    } catch (error) {
+      console.error('Error updating study ahead setting:', error);
+    }
+  };
+  
+  // Handle changing the hour a new study day starts
+  const handleDayStartHourChange = async (value: number) => {
+    try {
+      await updateUserSettings({ dayStartHour: Math.round(value) });
+    } catch (error) {
+      console.error('Error updating day start setting:', error);
+    }
+  };
+  
   // Handle changing grouping method
   const handleGroupingMethodChange = async (method: 'recommended' | 'fixed' | 'ruku' | 'page') => {
     try {
@@ -150,6 +281,95 @@ export default function SettingsScreen() {
     }
   };
   
+  // Handle saving learning or lapse steps
+  const handleStepsChange = async (key: 'learningSteps' | 'lapseSteps', text: string) => {
+    const steps = parseSteps(text);
+    
+    if (!steps) {
+      setStepsError('Steps must be a comma-separated list of minutes, e.g. 1, 10, 60');
+      return;
+    }
+    
+    try {
+      setStepsError(null);
+      await updateUserSettings({ [key]: steps });
+    } catch (error) {
+      console.error('Error updating steps:', error);
+    }
+  };
+  
+  // Handle optimizing FSRS parameters from review history
+  const handleOptimize = async () => {
+    if (!settings) return;
+    
+    try {
+      setOptimizing(true);
+      setOptimizeProgress(0);
+      setOptimizeError(null);
+      setOptimizationResult(null);
+      
+      const progress = await getAllAyahProgress();
+      const sequences = buildReviewSequences(progress, await getFreezePeriods());
+      const result = await optimizeParameters(sequences, settingsToFSRSParameters(settings), {
+        onProgress: setOptimizeProgress
+      });
+      
+      setOptimizationResult(result);
+    } catch (error) {
+      console.error('Error optimizing FSRS parameters:', error);
+      setOptimizeError(error instanceof Error ? error.message : 'Failed to optimize parameters');
+    } finally {
+      setOptimizing(false);
+    }
+  };
+  
+  // Handle applying optimized FSRS parameters
+  const handleApplyOptimization = async () => {
+    if (!optimizationResult) return;
+    
+    try {
+      await updateUserSettings({ w: optimizationResult.w });
+      setOptimizationResult(null);
+    } catch (error) {
+      console.error('Error applying FSRS parameters:', error);
+    }
+  };
+  
+  // Handle restoring the default FSRS parameters
+  const handleResetParameters = async () => {
+    try {
+      await updateUserSettings({ w: DEFAULT_PARAMETERS.w });
+      setOptimizationResult(null);
+    } catch (error) {
+      console.error('Error resetting FSRS parameters:', error);
+    }
+  };
+  
+  // Handle previewing a reschedule of all ayahs under the current parameters
+  const handlePreviewReschedule = async () => {
+    try {
+      setRescheduling(true);
+      setRescheduleReport(await rescheduleAllAyahs(true));
+    } catch (error) {
+      console.error('Error previewing reschedule:', error);
+    } finally {
+      setRescheduling(false);
+    }
+  };
+  
+  // Handle confirming the reschedule
+  const handleConfirmReschedule = async () => {
+    try {
+      setRescheduling(true);
+      await rescheduleAllAyahs();
+      setRescheduleReport(null);
+    } catch (error) {
+      console.error('Error rescheduling ayahs:', error);
+    } finally {
+      setRescheduling(false);
+    }
+  };
+  
   // Handle script change
   const handleScriptChange = async (script: 'uthmani' | 'indopak') => {
     try {
@@ -160,6 +380,81 @@ export default function SettingsScreen() {
     }
   };
   
+  // Handle review order change
+  const handleSortOrderChange = async (sortOrder: ReviewSortOrder) => {
+    try {
+      await updateUserSettings({ reviewSortOrder: sortOrder });
+      setSortOrderDialogVisible(false);
+    } catch (error) {
+      console.error('Error updating review order setting:', error);
+    }
+  };
+  
+  // Handle changing how many lapses make an ayah a leech
+  const handleLeechThresholdChange = async (value: number) => {
+    try {
+      await updateUserSettings({ leechThreshold: Math.round(value) });
+    } catch (error) {
+      console.error('Error updating leech threshold setting:', error);
+    }
+  };
+  
+  // Handle leech action change
+  const handleLeechActionChange = async (leechAction: LeechAction) => {
+    try {
+      await updateUserSettings({ leechAction });
+      setLeechActionDialogVisible(false);
+    } catch (error) {
+      console.error('Error updating leech action setting:', error);
+    }
+  };
+  
+  // Handle review mode change
+  const handleReviewModeChange = async (reviewMode: ReviewMode) => {
+    try {
+      await updateUserSettings({ reviewMode });
+      setReviewModeDialogVisible(false);
+    } catch (error) {
+      console.error('Error updating review mode setting:', error);
+    }
+  };
+  
+  // Handle toggling next-ayah prompts for surah and juz cards
+  const handleToggleConsolidationNextAyah = async (value: boolean) => {
+    try {
+      await updateUserSettings({ consolidationReviewMode: value ? 'nextAyah' : 'recite' });
+    } catch (error) {
+      console.error('Error updating consolidation review mode setting:', error);
+    }
+  };
+  
+  // Handle changing the share of words blanked out in cloze reviews
+  const handleClozeShareChange = async (value: number) => {
+    try {
+      await updateUserSettings({ clozeShare: Math.round(value * 20) / 20 });
+    } catch (error) {
+      console.error('Error updating cloze share setting:', error);
+    }
+  };
+  
+  // Handle toggling blanks weighted toward words missed before
+  const handleToggleClozeWeighted = async (value: boolean) => {
+    try {
+      await updateUserSettings({ clozeSelection: value ? 'weighted' : 'random' });
+    } catch (error) {
+      console.error('Error updating cloze selection setting:', error);
+    }
+  };
+  
+  // Handle toggling typed cloze answers
+  const handleToggleClozeTyped = async (value: boolean) => {
+    try {
+      await updateUserSettings({ clozeInput: value ? 'typed' : 'bank' });
+    } catch (error) {
+      console.error('Error updating cloze input setting:', error);
+    }
+  };
+  
   if (settingsLoading || !settings) {
     return (
       <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
@@ -207,18 +502,258 @@ export default function SettingsScreen() {
             </Text>
             
             <View style={styles.settingRow}>
-              <Text variant="titleMedium">New Ayahs Per Day</Text>
+              <Text variant="titleMedium">New Ayahs Per Day</Text>
+              <Text variant="bodyMedium" style={styles.settingDescription}>
+                {settings.newAyahsPerDay}
+              </Text>
+            </View>
+            
+            <Slider
+              value={settings.newAyahsPerDay}
+              onValueChange={value => {}}
+              onSlidingComplete={handleNewAyahsChange}
+              minimumValue={1}
+              maximumValue={20}
+              step={1}
+              minimumTrackTintColor={theme.colors.primary}
+              maximumTrackTintColor={theme.colors.surfaceVariant}
+              thumbTintColor={theme.colors.primary}
+              style={styles.slider}
+            />
+            
+            <TouchableRipple onPress={() => {}}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text variant="titleMedium">Unlock Groups in Order</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    Start each new group only once the one before it is settled
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.sequentialUnlock}
+                  onValueChange={handleToggleSequentialUnlock}
+                  trackColor={{ true: theme.colors.primary }}
+                />
+              </View>
+            </TouchableRipple>
+            
+            {settings.sequentialUnlock && (
+              <>
+                <View style={styles.settingRow}>
+                  <Text variant="titleMedium">Unlock Stability</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {settings.unlockStability} days
+                  </Text>
+                </View>
+                
+                <Slider
+                  value={settings.unlockStability}
+                  onValueChange={value => {}}
+                  onSlidingComplete={handleUnlockStabilityChange}
+                  minimumValue={1}
+                  maximumValue={30}
+                  step={1}
+                  minimumTrackTintColor={theme.colors.primary}
+                  maximumTrackTintColor={theme.colors.surfaceVariant}
+                  thumbTintColor={theme.colors.primary}
+                  style={styles.slider}
+                />
+              </>
+            )}
+            
+            <View style={styles.settingRow}>
+              <Text variant="titleMedium">Daily Review Limit</Text>
+              <Text variant="bodyMedium" style={styles.settingDescription}>
+                {settings.reviewLimit}
+              </Text>
+            </View>
+            
+            <Slider
+              value={settings.reviewLimit}
+              onValueChange={value => {}}
+              onSlidingComplete={handleReviewLimitChange}
+              minimumValue={10}
+              maximumValue={200}
+              step={10}
+              minimumTrackTintColor={theme.colors.primary}
+              maximumTrackTintColor={theme.colors.surfaceVariant}
+              thumbTintColor={theme.colors.primary}
+              style={styles.slider}
+            />
+            
+            <View style={styles.settingRow}>
+              <Text variant="titleMedium">Session Size</Text>
+              <Text variant="bodyMedium" style={styles.settingDescription}>
+                {settings.maxReviewsPerSession} per part
+              </Text>
+            </View>
+            
+            <Slider
+              value={settings.maxReviewsPerSession}
+              onValueChange={value => {}}
+              onSlidingComplete={handleMaxReviewsPerSessionChange}
+              minimumValue={5}
+              maximumValue={100}
+              step={5}
+              minimumTrackTintColor={theme.colors.primary}
+              maximumTrackTintColor={theme.colors.surfaceVariant}
+              thumbTintColor={theme.colors.primary}
+              style={styles.slider}
+            />
+            
+            <View style={styles.settingRow}>
+              <Text variant="titleMedium">Study Ahead</Text>
+              <Text variant="bodyMedium" style={styles.settingDescription}>
+                {settings.reviewAheadDays === 0
+                  ? 'Off'
+                  : `${settings.reviewAheadDays} ${settings.reviewAheadDays === 1 ? 'day' : 'days'}`}
+              </Text>
+            </View>
+            
+            <Slider
+              value={settings.reviewAheadDays}
+              onValueChange={value => {}}
+              onSlidingComplete={handleReviewAheadDaysChange}
+              minimumValue={0}
+              maximumValue={14}
+              step={1}
+              minimumTrackTintColor={theme.colors.primary}
+              maximumTrackTintColor={theme.colors.surfaceVariant}
+              thumbTintColor={theme.colors.primary}
+              style={styles.slider}
+            />
+            
+            <View style={styles.settingRow}>
+              <Text variant="titleMedium">Next Day Starts At</Text>
+              <Text variant="bodyMedium" style={styles.settingDescription}>
+                {formatHour(settings.dayStartHour)}
+              </Text>
+            </View>
+            
+            <Slider
+              value={settings.dayStartHour}
+              onValueChange={value => {}}
+              onSlidingComplete={handleDayStartHourChange}
+              minimumValue={0}
+              maximumValue={23}
+              step={1}
+              minimumTrackTintColor={theme.colors.primary}
+              maximumTrackTintColor={theme.colors.surfaceVariant}
+              thumbTintColor={theme.colors.primary}
+              style={styles.slider}
+            />
+            
+            <TouchableRipple onPress={() => setSortOrderDialogVisible(true)}>
+              <List.Item
+                title="Review Order"
+                description={getSortOrderDescription(settings.reviewSortOrder)}
+                left={props => <List.Icon {...props} icon="sort" />}
+                right={props => <List.Icon {...props} icon="chevron-right" />}
+              />
+            </TouchableRipple>
+            
+            <TouchableRipple onPress={() => router.push('/settings/workload')}>
+              <List.Item
+                title="Preview Workload"
+                description="See how changes would affect your daily reviews"
+                left={props => <List.Icon {...props} icon="chart-line" />}
+                right={props => <List.Icon {...props} icon="chevron-right" />}
+              />
+            </TouchableRipple>
+            
+            <TouchableRipple onPress={() => router.push('/settings/suspended')}>
+              <List.Item
+                title="Suspended & Buried"
+                description="Ayahs and groups taken out of rotation"
+                left={props => <List.Icon {...props} icon="pause-circle-outline" />}
+                right={props => <List.Icon {...props} icon="chevron-right" />}
+              />
+            </TouchableRipple>
+            
+            <TouchableRipple onPress={() => router.push('/settings/freeze')}>
+              <List.Item
+                title="Freeze Schedule"
+                description="Pause reviews while you're travelling or unwell"
+                left={props => <List.Icon {...props} icon="snowflake" />}
+                right={props => <List.Icon {...props} icon="chevron-right" />}
+              />
+            </TouchableRipple>
+            
+            <Divider style={styles.divider} />
+            
+            <TouchableRipple onPress={() => {}}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text variant="titleMedium">Sabaq, Sabqi & Manzil</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    Build each day from the new lesson, the recent portion and a rotating slice of older portions
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.revisionMode === 'tiered'}
+                  onValueChange={handleToggleTieredRevision}
+                  trackColor={{ true: theme.colors.primary }}
+                />
+              </View>
+            </TouchableRipple>
+            
+            {settings.revisionMode === 'tiered' && (
+              <>
+                <View style={styles.settingRow}>
+                  <Text variant="titleMedium">Sabqi Period</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {settings.sabqiDays} days
+                  </Text>
+                </View>
+                
+                <Slider
+                  value={settings.sabqiDays}
+                  onValueChange={value => {}}
+                  onSlidingComplete={handleSabqiDaysChange}
+                  minimumValue={7}
+                  maximumValue={90}
+                  step={1}
+                  minimumTrackTintColor={theme.colors.primary}
+                  maximumTrackTintColor={theme.colors.surfaceVariant}
+                  thumbTintColor={theme.colors.primary}
+                  style={styles.slider}
+                />
+                
+                <View style={styles.settingRow}>
+                  <Text variant="titleMedium">Manzil Cycle</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {settings.manzilCycleDays} days
+                  </Text>
+                </View>
+                
+                <Slider
+                  value={settings.manzilCycleDays}
+                  onValueChange={value => {}}
+                  onSlidingComplete={handleManzilCycleDaysChange}
+                  minimumValue={3}
+                  maximumValue={60}
+                  step={1}
+                  minimumTrackTintColor={theme.colors.primary}
+                  maximumTrackTintColor={theme.colors.surfaceVariant}
+                  thumbTintColor={theme.colors.primary}
+                  style={styles.slider}
+                />
+              </>
+            )}
+            
+            <View style={styles.settingRow}>
+              <Text variant="titleMedium">Whole Surah Stability</Text>
               <Text variant="bodyMedium" style={styles.settingDescription}>
-                {settings.newAyahsPerDay}
+                {settings.consolidationStability} days
               </Text>
             </View>
             
             <Slider
-              value={settings.newAyahsPerDay}
+              value={settings.consolidationStability}
               onValueChange={value => {}}
-              onSlidingComplete={handleNewAyahsChange}
-              minimumValue={1}
-              maximumValue={20}
+              onSlidingComplete={handleConsolidationStabilityChange}
+              minimumValue={14}
+              maximumValue={180}
               step={1}
               minimumTrackTintColor={theme.colors.primary}
               maximumTrackTintColor={theme.colors.surfaceVariant}
@@ -226,26 +761,101 @@ export default function SettingsScreen() {
               style={styles.slider}
             />
             
+            <Divider style={styles.divider} />
+            
+            <Text variant="titleMedium">Learning Steps</Text>
+            <Text variant="bodyMedium" style={styles.settingDescription}>
+              Minutes between reviews of new ayahs before they graduate
+            </Text>
+            <TextInput
+              mode="outlined"
+              dense
+              value={learningStepsText}
+              onChangeText={setLearningStepsText}
+              onBlur={() => handleStepsChange('learningSteps', learningStepsText)}
+              keyboardType="numbers-and-punctuation"
+              style={styles.stepsInput}
+            />
+            
+            <Text variant="titleMedium">Lapse Steps</Text>
+            <Text variant="bodyMedium" style={styles.settingDescription}>
+              Minutes between reviews of forgotten ayahs before they return to review
+            </Text>
+            <TextInput
+              mode="outlined"
+              dense
+              value={lapseStepsText}
+              onChangeText={setLapseStepsText}
+              onBlur={() => handleStepsChange('lapseSteps', lapseStepsText)}
+              keyboardType="numbers-and-punctuation"
+              style={styles.stepsInput}
+            />
+            
+            <HelperText type="error" visible={!!stepsError}>
+              {stepsError}
+            </HelperText>
+            
             <View style={styles.settingRow}>
-              <Text variant="titleMedium">Daily Review Limit</Text>
+              <Text variant="titleMedium">Leech Threshold</Text>
               <Text variant="bodyMedium" style={styles.settingDescription}>
-                {settings.reviewLimit}
+                {settings.leechThreshold} lapses
               </Text>
             </View>
             
             <Slider
-              value={settings.reviewLimit}
+              value={settings.leechThreshold}
               onValueChange={value => {}}
-              onSlidingComplete={handleReviewLimitChange}
-              minimumValue={10}
-              maximumValue={200}
-              step={10}
+              onSlidingComplete={handleLeechThresholdChange}
+              minimumValue={2}
+              maximumValue={20}
+              step={1}
               minimumTrackTintColor={theme.colors.primary}
               maximumTrackTintColor={theme.colors.surfaceVariant}
               thumbTintColor={theme.colors.primary}
               style={styles.slider}
             />
             
+            <TouchableRipple onPress={() => setLeechActionDialogVisible(true)}>
+              <List.Item
+                title="Leech Action"
+                description={getLeechActionDescription(settings.leechAction)}
+                left={props => <List.Icon {...props} icon="alert-circle-outline" />}
+                right={props => <List.Icon {...props} icon="chevron-right" />}
+              />
+            </TouchableRipple>
+            
+            <TouchableRipple onPress={() => {}}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text variant="titleMedium">Spread Out Reviews</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    Vary intervals slightly so ayahs added together don't all come due on the same day
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.enableFuzz}
+                  onValueChange={handleToggleFuzz}
+                  trackColor={{ true: theme.colors.primary }}
+                />
+              </View>
+            </TouchableRipple>
+            
+            <TouchableRipple onPress={() => {}}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text variant="titleMedium">Balance Daily Load</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    Schedule each review on the least busy nearby day
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.loadBalancing}
+                  onValueChange={handleToggleLoadBalancing}
+                  trackColor={{ true: theme.colors.primary }}
+                />
+              </View>
+            </TouchableRipple>
+            
             <Divider style={styles.divider} />
             
             <TouchableRipple onPress={() => {}}>
@@ -263,6 +873,184 @@ export default function SettingsScreen() {
                 />
               </View>
             </TouchableRipple>
+            
+            <TouchableRipple onPress={() => setReviewModeDialogVisible(true)}>
+              <List.Item
+                title="Review Mode"
+                description={getReviewModeDescription(settings.reviewMode)}
+                left={props => <List.Icon {...props} icon="text-box-check-outline" />}
+                right={props => <List.Icon {...props} icon="chevron-right" />}
+              />
+            </TouchableRipple>
+            
+            {settings.reviewMode === 'cloze' && (
+              <>
+                <View style={styles.settingRow}>
+                  <Text variant="titleMedium">Blanked Words</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {Math.round(settings.clozeShare * 100)}%
+                  </Text>
+                </View>
+                
+                <Slider
+                  value={settings.clozeShare}
+                  onValueChange={value => {}}
+                  onSlidingComplete={handleClozeShareChange}
+                  minimumValue={0.1}
+                  maximumValue={0.8}
+                  step={0.05}
+                  minimumTrackTintColor={theme.colors.primary}
+                  maximumTrackTintColor={theme.colors.surfaceVariant}
+                  thumbTintColor={theme.colors.primary}
+                  style={styles.slider}
+                />
+                
+                <TouchableRipple onPress={() => {}}>
+                  <View style={styles.switchRow}>
+                    <View style={styles.switchText}>
+                      <Text variant="titleMedium">Focus on Mistakes</Text>
+                      <Text variant="bodyMedium" style={styles.settingDescription}>
+                        Blank out words you've got wrong before more often
+                      </Text>
+                    </View>
+                    <Switch
+                      value={settings.clozeSelection === 'weighted'}
+                      onValueChange={handleToggleClozeWeighted}
+                      trackColor={{ true: theme.colors.primary }}
+                    />
+                  </View>
+                </TouchableRipple>
+                
+                <TouchableRipple onPress={() => {}}>
+                  <View style={styles.switchRow}>
+                    <View style={styles.switchText}>
+                      <Text variant="titleMedium">Type Answers</Text>
+                      <Text variant="bodyMedium" style={styles.settingDescription}>
+                        Type each missing word instead of picking it from a word bank
+                      </Text>
+                    </View>
+                    <Switch
+                      value={settings.clozeInput === 'typed'}
+                      onValueChange={handleToggleClozeTyped}
+                      trackColor={{ true: theme.colors.primary }}
+                    />
+                  </View>
+                </TouchableRipple>
+              </>
+            )}
+            
+            <TouchableRipple onPress={() => {}}>
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text variant="titleMedium">Start Whole Surahs from a Prompt</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    Begin surah and juz reviews from the basmala or the ayah before, instead of listening along
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.consolidationReviewMode === 'nextAyah'}
+                  onValueChange={handleToggleConsolidationNextAyah}
+                  trackColor={{ true: theme.colors.primary }}
+                />
+              </View>
+            </TouchableRipple>
+          </Card.Content>
+        </Card>
+        
+        {/* Memory Model */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.cardTitle}>
+              Memory Model
+            </Text>
+            
+            <Text variant="bodyMedium" style={styles.settingDescription}>
+              Fit the scheduler to your own review history so intervals match how you remember.
+            </Text>
+            
+            <List.Item
+              title="Parameters"
+              description={
+                settings.w.every((value, i) => value === DEFAULT_PARAMETERS.w[i])
+                  ? 'Default FSRS-5 weights'
+                  : 'Personalized weights'
+              }
+              left={props => <List.Icon {...props} icon="brain" />}
+            />
+            
+            {optimizing && (
+              <View style={styles.progressContainer}>
+                <Text variant="bodyMedium" style={styles.progressText}>
+                  Optimizing: {Math.round(optimizeProgress * 100)}%
+                </Text>
+              </View>
+            )}
+            
+            {optimizeError && (
+              <Text variant="bodyMedium" style={[styles.optimizeMessage, { color: theme.colors.error }]}>
+                {optimizeError}
+              </Text>
+            )}
+            
+            {optimizationResult && (
+              <View style={styles.optimizeResult}>
+                <Text variant="bodyMedium">
+                  Based on {optimizationResult.before.reviewCount} reviews
+                </Text>
+                <View style={styles.settingRow}>
+                  <Text variant="bodyMedium">Log loss</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {optimizationResult.before.logLoss.toFixed(4)} → {optimizationResult.after.logLoss.toFixed(4)}
+                  </Text>
+                </View>
+                <View style={styles.settingRow}>
+                  <Text variant="bodyMedium">RMSE</Text>
+                  <Text variant="bodyMedium" style={styles.settingDescription}>
+                    {optimizationResult.before.rmse.toFixed(4)} → {optimizationResult.after.rmse.toFixed(4)}
+                  </Text>
+                </View>
+              </View>
+            )}
+            
+            <View style={styles.cacheActions}>
+              {optimizationResult ? (
+                <View style={styles.buttonRow}>
+                  <Button mode="contained" onPress={handleApplyOptimization}>
+                    Apply
+                  </Button>
+                  <Button mode="text" onPress={() => setOptimizationResult(null)}>
+                    Discard
+                  </Button>
+                </View>
+              ) : (
+                <View style={styles.buttonRow}>
+                  <Button
+                    mode="outlined"
+                    onPress={handleOptimize}
+                    loading={optimizing}
+                    disabled={optimizing}
+                  >
+                    Optimize
+                  </Button>
+                  <Button mode="text" onPress={handleResetParameters} disabled={optimizing}>
+                    Use Defaults
+                  </Button>
+                </View>
+              )}
+            </View>
+            
+            <Divider style={styles.divider} />
+            
+            <TouchableRipple onPress={handlePreviewReschedule} disabled={optimizing || rescheduling}>
+              <List.Item
+                title="Reschedule All Ayahs"
+                description="Update existing due dates to match the current retention target and weights"
+                left={props => <List.Icon {...props} icon="calendar-refresh" />}
+                right={props => rescheduling
+                  ? <ActivityIndicator size="small" color={theme.colors.primary} />
+                  : <List.Icon {...props} icon="chevron-right" />}
+              />
+            </TouchableRipple>
           </Card.Content>
         </Card>
         
@@ -476,6 +1264,44 @@ export default function SettingsScreen() {
         </Dialog>
       </Portal>
       
+      {/* Reschedule Confirmation Dialog */}
+      <Portal>
+        <Dialog visible={!!rescheduleReport} onDismiss={() => setRescheduleReport(null)}>
+          <Dialog.Title>Reschedule All Ayahs?</Dialog.Title>
+          <Dialog.Content>
+            {rescheduleReport && (
+              <>
+                <Text variant="bodyMedium" style={styles.rescheduleDescription}>
+                  Replaying your review history with the current settings would move:
+                </Text>
+                <View style={styles.settingRow}>
+                  <Text variant="bodyMedium">Earlier</Text>
+                  <Text variant="bodyMedium">{rescheduleReport.earlier}</Text>
+                </View>
+                <View style={styles.settingRow}>
+                  <Text variant="bodyMedium">Later</Text>
+                  <Text variant="bodyMedium">{rescheduleReport.later}</Text>
+                </View>
+                <View style={styles.settingRow}>
+                  <Text variant="bodyMedium">Unchanged</Text>
+                  <Text variant="bodyMedium">{rescheduleReport.unchanged}</Text>
+                </View>
+              </>
+            )}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setRescheduleReport(null)}>Cancel</Button>
+            <Button
+              onPress={handleConfirmReschedule}
+              loading={rescheduling}
+              disabled={rescheduling || rescheduleReport?.total === 0}
+            >
+              Reschedule
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+      
       {/* Script Selection Dialog */}
       <Portal>
         <Dialog
@@ -506,10 +1332,141 @@ export default function SettingsScreen() {
           </Dialog.Actions>
         </Dialog>
       </Portal>
+      
+      {/* Review Order Dialog */}
+      <Portal>
+        <Dialog
+          visible={sortOrderDialogVisible}
+          onDismiss={() => setSortOrderDialogVisible(false)}
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          <Dialog.Title>Review Order</Dialog.Title>
+          <Dialog.Content>
+            <RadioButton.Group
+              onValueChange={value => handleSortOrderChange(value as ReviewSortOrder)}
+              value={settings.reviewSortOrder}
+            >
+              <RadioButton.Item
+                label="Lowest recall chance"
+                value="retrievability"
+                status={settings.reviewSortOrder === 'retrievability' ? 'checked' : 'unchecked'}
+              />
+              <RadioButton.Item
+                label="Most overdue"
+                value="overdue"
+                status={settings.reviewSortOrder === 'overdue' ? 'checked' : 'unchecked'}
+              />
+              <RadioButton.Item
+                label="Mushaf order"
+                value="mushaf"
+                status={settings.reviewSortOrder === 'mushaf' ? 'checked' : 'unchecked'}
+              />
+              <RadioButton.Item
+                label="Random"
+                value="random"
+                status={settings.reviewSortOrder === 'random' ? 'checked' : 'unchecked'}
+              />
+            </RadioButton.Group>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setSortOrderDialogVisible(false)}>Cancel</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+      
+      {/* Review Mode Dialog */}
+      <Portal>
+        <Dialog
+          visible={reviewModeDialogVisible}
+          onDismiss={() => setReviewModeDialogVisible(false)}
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          <Dialog.Title>Review Mode</Dialog.Title>
+          <Dialog.Content>
+            <RadioButton.Group
+              onValueChange={value => handleReviewModeChange(value as ReviewMode)}
+              value={settings.reviewMode}
+            >
+              <RadioButton.Item
+                label="Recite from memory"
+                value="recite"
+                status={settings.reviewMode === 'recite' ? 'checked' : 'unchecked'}
+              />
+              <RadioButton.Item
+                label="Fill in the blanks"
+                value="cloze"
+                status={settings.reviewMode === 'cloze' ? 'checked' : 'unchecked'}
+              />
+              <RadioButton.Item
+                label="Recite the next ayah"
+                value="nextAyah"
+                status={settings.reviewMode === 'nextAyah' ? 'checked' : 'unchecked'}
+              />
+              <RadioButton.Item
+                label="Type the ayah"
+                value="typed"
+                status={settings.reviewMode === 'typed' ? 'checked' : 'unchecked'}
+              />
+              <RadioButton.Item
+                label="Put groups in order"
+                value="order"
+                status={settings.reviewMode === 'order' ? 'checked' : 'unchecked'}
+              />
+            </RadioButton.Group>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setReviewModeDialogVisible(false)}>Cancel</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+      
+      {/* Leech Action Dialog */}
+      <Portal>
+        <Dialog
+          visible={leechActionDialogVisible}
+          onDismiss={() => setLeechActionDialogVisible(false)}
+          style={{ backgroundColor: theme.colors.surface }}
+        >
+          <Dialog.Title>Leech Action</Dialog.Title>
+          <Dialog.Content>
+            <RadioButton.Group
+              onValueChange={value => handleLeechActionChange(value as LeechAction)}
+              value={settings.leechAction}
+            >
+              <RadioButton.Item
+                label="Suspend"
+                value="suspend"
+                status={settings.leechAction === 'suspend' ? 'checked' : 'unchecked'}
+              />
+              <RadioButton.Item
+                label="Re-learn"
+                value="relearn"
+                status={settings.leechAction === 'relearn' ? 'checked' : 'unchecked'}
+              />
+            </RadioButton.Group>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setLeechActionDialogVisible(false)}>Cancel</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
     </SafeAreaView>
   );
 }
 
+// Helper function to parse a comma-separated list of step minutes
+// (an empty list is allowed and means cards skip straight to review)
+const parseSteps = (text: string): number[] | null => {
+  const parts = text.split(',').map(part => part.trim()).filter(part => part.length > 0);
+  const steps = parts.map(Number);
+  
+  if (steps.some(step => !Number.isFinite(step) || step <= 0)) {
+    return null;
+  }
+  
+  return steps;
+};
+
 // Helper function to get theme description
 const getThemeDescription = (themeType: ThemeType) => {
   switch (themeType) {
@@ -524,6 +1481,59 @@ const getThemeDescription = (themeType: ThemeType) => {
   }
 };
 
+// Helper function to format an hour of the day (e.g. 4 -> "4:00 AM")
+const formatHour = (hour: number) => {
+  const period = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:00 ${period}`;
+};
+
+// Helper function to get review order description
+const getSortOrderDescription = (sortOrder: ReviewSortOrder) => {
+  switch (sortOrder) {
+    case 'retrievability':
+      return 'Most likely to be forgotten first';
+    case 'overdue':
+      return 'Most overdue for their interval first';
+    case 'mushaf':
+      return 'Mushaf order';
+    case 'random':
+      return 'Random order';
+    default:
+      return 'Most likely to be forgotten first';
+  }
+};
+
+// Helper function to get review mode description
+const getReviewModeDescription = (reviewMode: ReviewMode) => {
+  switch (reviewMode) {
+    case 'recite':
+      return 'Recite each ayah from memory';
+    case 'cloze':
+      return 'Fill in words blanked out of each ayah';
+    case 'nextAyah':
+      return 'Continue from the ayah before';
+    case 'typed':
+      return 'Type each ayah and check it word by word';
+    case 'order':
+      return 'Put the shuffled ayahs of each group in order';
+    default:
+      return 'Recite each ayah from memory';
+  }
+};
+
+// Helper function to get leech action description
+const getLeechActionDescription = (leechAction: LeechAction) => {
+  switch (leechAction) {
+    case 'suspend':
+      return 'Suspend leeches until you unsuspend them';
+    case 'relearn':
+      return 'Send leeches back through the learning steps';
+    default:
+      return 'Suspend leeches until you unsuspend them';
+  }
+};
+
 // Helper function to get script description
 const getScriptDescription = (script: 'uthmani' | 'indopak') => {
   switch (script) {
@@ -600,6 +1610,23 @@ const styles = StyleSheet.create({
   progressText: {
     marginBottom: 8,
   },
+  stepsInput: {
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  optimizeMessage: {
+    marginTop: 8,
+  },
+  optimizeResult: {
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rescheduleDescription: {
+    marginBottom: 16,
+  },
   resetDescription: {
     marginBottom: 16,
     color: 'red',
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, ScrollView } from 'react-native';
+import { Text, Button, Card, useTheme, ActivityIndicator, List, Divider } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  getSuspendedAyahs,
+  setAyahsBuriedUntil,
+  setAyahsSuspended
+} from '../../services/database/ayahProgress';
+import { getSuspendedGroups, setGroupBuriedUntil, setGroupSuspended } from '../../utils/groupings';
+import { AyahGroup, AyahProgress } from '../../types';
+
+export default function SuspendedItemsScreen() {
+  const theme = useTheme();
+
+  const [groups, setGroups] = useState<AyahGroup[]>([]);
+  const [ayahs, setAyahs] = useState<AyahProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load everything that's currently out of rotation
+  const loadSuspendedItems = async () => {
+    try {
+      setError(null);
+
+      setGroups(await getSuspendedGroups());
+      setAyahs(await getSuspendedAyahs());
+    } catch (err) {
+      console.error('Error loading suspended items:', err);
+      setError('Failed to load suspended items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSuspendedItems();
+  }, []);
+
+  // Put a group back into rotation
+  const handleRestoreGroup = async (group: AyahGroup) => {
+    try {
+      await setGroupSuspended(group.id, false);
+      await setGroupBuriedUntil(group.id, null);
+      await loadSuspendedItems();
+    } catch (err) {
+      console.error('Error restoring group:', err);
+    }
+  };
+
+  // Put an ayah back into rotation
+  const handleRestoreAyah = async (ayah: AyahProgress) => {
+    try {
+      await setAyahsSuspended([ayah.id], false);
+      await setAyahsBuriedUntil([ayah.id], null);
+      await loadSuspendedItems();
+    } catch (err) {
+      console.error('Error restoring ayah:', err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView style={styles.content}>
+        {error && (
+          <Text variant="bodyMedium" style={{ color: theme.colors.error, marginBottom: 16 }}>
+            {error}
+          </Text>
+        )}
+
+        {groups.length === 0 && ayahs.length === 0 ? (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="bodyMedium" style={styles.emptyText}>
+                Nothing is suspended or buried.
+              </Text>
+            </Card.Content>
+          </Card>
+        ) : (
+          <>
+            {groups.length > 0 && (
+              <Card style={styles.card}>
+                <Card.Content>
+                  <Text variant="titleLarge" style={styles.cardTitle}>
+                    Groups
+                  </Text>
+
+                  {groups.map((group, index) => (
+                    <View key={group.id}>
+                      <List.Item
+                        title={`${group.surahNumber}:${group.startAyah}-${group.endAyah}`}
+                        description={getStatusDescription(group.suspended, group.buriedUntil)}
+                        right={() => (
+                          <Button mode="text" compact onPress={() => handleRestoreGroup(group)}>
+                            Restore
+                          </Button>
+                        )}
+                      />
+                      {index < groups.length - 1 && <Divider />}
+                    </View>
+                  ))}
+                </Card.Content>
+              </Card>
+            )}
+
+            {ayahs.length > 0 && (
+              <Card style={styles.card}>
+                <Card.Content>
+                  <Text variant="titleLarge" style={styles.cardTitle}>
+                    Ayahs
+                  </Text>
+
+                  {ayahs.map((ayah, index) => (
+                    <View key={ayah.id}>
+                      <List.Item
+                        title={getCardTitle(ayah)}
+                        description={
+                          getStatusDescription(ayah.suspended, ayah.buriedUntil) +
+                          (ayah.leech ? ' · Leech' : '')
+                        }
+                        right={() => (
+                          <Button mode="text" compact onPress={() => handleRestoreAyah(ayah)}>
+                            Restore
+                          </Button>
+                        )}
+                      />
+                      {index < ayahs.length - 1 && <Divider />}
+                    </View>
+                  ))}
+                </Card.Content>
+              </Card>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// Helper function to name a card by what it tests
+const getCardTitle = (card: AyahProgress) => {
+  switch (card.cardType) {
+    case 'link':
+      return `Link ${card.surahNumber}:${card.promptAyahNumber} → ${card.ayahNumber}`;
+    case 'surah':
+      return `Surah ${card.surahNumber}`;
+    case 'juz':
+      return `Juz ${card.juzNumber}`;
+    default:
+      return `${card.surahNumber}:${card.ayahNumber}`;
+  }
+};
+
+// Helper function to describe why an item is out of rotation
+const getStatusDescription = (suspended: boolean, buriedUntil: Date | null) => {
+  if (suspended) {
+    return 'Suspended';
+  }
+
+  return buriedUntil
+    ? `Buried until ${buriedUntil.toLocaleDateString()} ${buriedUntil.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+    : 'Buried';
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  cardTitle: {
+    marginBottom: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginVertical: 24,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,368 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, ScrollView, Dimensions } from 'react-native';
+import { Text, Button, Card, useTheme, ActivityIndicator, Chip } from 'react-native-paper';
+import Slider from '@react-native-community/slider';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { LineChart } from 'react-native-chart-kit';
+import { useSettings } from '../../contexts/SettingsContext';
+import { settingsToFSRSParameters } from '../../services/database/settings';
+import { getAllAyahProgress } from '../../services/database/ayahProgress';
+import { simulateWorkload, SimulationResult } from '../../services/simulator';
+import { AyahProgress } from '../../types';
+
+// Get screen width
+const screenWidth = Dimensions.get('window').width;
+
+// Wait for the proposed settings to settle before re-running the simulation
+const SIMULATION_DELAY_MS = 300;
+
+export default function WorkloadPreviewScreen() {
+  const theme = useTheme();
+  const { settings, updateUserSettings } = useSettings();
+
+  const [newAyahsPerDay, setNewAyahsPerDay] = useState(settings?.newAyahsPerDay || 5);
+  const [reviewLimit, setReviewLimit] = useState(settings?.reviewLimit || 50);
+  const [requestRetention, setRequestRetention] = useState(settings?.requestRetention || 0.9);
+  const [days, setDays] = useState<30 | 90 | 180>(30);
+
+  const [progress, setProgress] = useState<AyahProgress[] | null>(null);
+  const [currentResult, setCurrentResult] = useState<SimulationResult | null>(null);
+  const [proposedResult, setProposedResult] = useState<SimulationResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the starting state once; every simulation runs from it
+  useEffect(() => {
+    const loadProgress = async () => {
+      try {
+        setSimulating(true);
+        setProgress(await getAllAyahProgress());
+      } catch (err) {
+        console.error('Error loading ayah progress:', err);
+        setError('Failed to simulate workload');
+        setSimulating(false);
+      }
+    };
+
+    loadProgress();
+  }, []);
+
+  // Run both profiles against the same starting state, once the proposed profile stops changing
+  useEffect(() => {
+    if (!settings || !progress) return;
+
+    setSimulating(true);
+
+    const timer = setTimeout(() => {
+      try {
+        setError(null);
+
+        const params = settingsToFSRSParameters(settings);
+        const start = new Date();
+
+        setCurrentResult(simulateWorkload(progress, {
+          newAyahsPerDay: settings.newAyahsPerDay,
+          reviewLimit: settings.reviewLimit,
+          params
+        }, days, start));
+
+        setProposedResult(simulateWorkload(progress, {
+          newAyahsPerDay,
+          reviewLimit,
+          params: { ...params, requestRetention }
+        }, days, start));
+      } catch (err) {
+        console.error('Error simulating workload:', err);
+        setError('Failed to simulate workload');
+      } finally {
+        setSimulating(false);
+      }
+    }, SIMULATION_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [settings, progress, newAyahsPerDay, reviewLimit, requestRetention, days]);
+
+  // Apply the proposed profile to the user's settings
+  const handleApply = async () => {
+    try {
+      setApplying(true);
+      await updateUserSettings({ newAyahsPerDay, reviewLimit, requestRetention });
+      router.back();
+    } catch (err) {
+      console.error('Error applying workload settings:', err);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  // Prepare chart data comparing reviews per day
+  const getChartData = () => {
+    if (!currentResult || !proposedResult) return { labels: [], datasets: [{ data: [] }] };
+
+    const labelEvery = Math.ceil(days / 6);
+
+    return {
+      labels: currentResult.days.map((day, index) =>
+        index % labelEvery === 0 ? `${day.date.getMonth() + 1}/${day.date.getDate()}` : ''
+      ),
+      datasets: [
+        {
+          data: currentResult.days.map(day => day.reviews),
+          color: (opacity = 1) => `rgba(158, 158, 158, ${opacity})`,
+        },
+        {
+          data: proposedResult.days.map(day => day.reviews),
+          color: (opacity = 1) => `rgba(0, 96, 100, ${opacity})`,
+        }
+      ],
+      legend: ['Current', 'Proposed'],
+    };
+  };
+
+  if (!settings) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView style={styles.content}>
+        {/* Proposed Profile */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.cardTitle}>
+              Proposed Settings
+            </Text>
+
+            <View style={styles.settingRow}>
+              <Text variant="titleMedium">New Ayahs Per Day</Text>
+              <Text variant="bodyMedium" style={styles.settingDescription}>
+                {newAyahsPerDay}
+              </Text>
+            </View>
+            <Slider
+              value={newAyahsPerDay}
+              onSlidingComplete={value => setNewAyahsPerDay(Math.round(value))}
+              minimumValue={1}
+              maximumValue={20}
+              step={1}
+              minimumTrackTintColor={theme.colors.primary}
+              maximumTrackTintColor={theme.colors.surfaceVariant}
+              thumbTintColor={theme.colors.primary}
+              style={styles.slider}
+            />
+
+            <View style={styles.settingRow}>
+              <Text variant="titleMedium">Daily Review Limit</Text>
+              <Text variant="bodyMedium" style={styles.settingDescription}>
+                {reviewLimit}
+              </Text>
+            </View>
+            <Slider
+              value={reviewLimit}
+              onSlidingComplete={value => setReviewLimit(Math.round(value))}
+              minimumValue={10}
+              maximumValue={200}
+              step={10}
+              minimumTrackTintColor={theme.colors.primary}
+              maximumTrackTintColor={theme.colors.surfaceVariant}
+              thumbTintColor={theme.colors.primary}
+              style={styles.slider}
+            />
+
+            <View style={styles.settingRow}>
+              <Text variant="titleMedium">Target Retention</Text>
+              <Text variant="bodyMedium" style={styles.settingDescription}>
+                {Math.round(requestRetention * 100)}%
+              </Text>
+            </View>
+            <Slider
+              value={requestRetention}
+              onSlidingComplete={value => setRequestRetention(Math.round(value * 100) / 100)}
+              minimumValue={0.7}
+              maximumValue={0.97}
+              step={0.01}
+              minimumTrackTintColor={theme.colors.primary}
+              maximumTrackTintColor={theme.colors.surfaceVariant}
+              thumbTintColor={theme.colors.primary}
+              style={styles.slider}
+            />
+          </Card.Content>
+        </Card>
+
+        {/* Time range selector */}
+        <View style={styles.chipContainer}>
+          {([30, 90, 180] as const).map(range => (
+            <Chip
+              key={range}
+              selected={days === range}
+              onPress={() => setDays(range)}
+              style={styles.chip}
+            >
+              {range} Days
+            </Chip>
+          ))}
+        </View>
+
+        {/* Comparison */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleLarge" style={styles.cardTitle}>
+              Reviews Per Day
+            </Text>
+
+            {simulating && !proposedResult ? (
+              <ActivityIndicator size="small" color={theme.colors.primary} />
+            ) : error ? (
+              <Text style={{ color: theme.colors.error }}>{error}</Text>
+            ) : currentResult && proposedResult ? (
+              <>
+                <LineChart
+                  data={getChartData()}
+                  width={screenWidth - 64}
+                  height={220}
+                  chartConfig={{
+                    backgroundColor: theme.colors.surface,
+                    backgroundGradientFrom: theme.colors.surface,
+                    backgroundGradientTo: theme.colors.surface,
+                    decimalPlaces: 0,
+                    color: (opacity = 1) => `rgba(0, 96, 100, ${opacity})`,
+                    labelColor: () => theme.colors.onSurface,
+                    propsForDots: {
+                      r: '0',
+                    },
+                  }}
+                  style={styles.chart}
+                />
+
+                <View style={styles.summaryHeader}>
+                  <Text variant="bodyMedium" style={styles.summaryLabel}>{' '}</Text>
+                  <Text variant="bodyMedium" style={styles.summaryValue}>Current</Text>
+                  <Text variant="bodyMedium" style={styles.summaryValue}>Proposed</Text>
+                </View>
+
+                <View style={styles.summaryRow}>
+                  <Text variant="bodyMedium" style={styles.summaryLabel}>Reviews / day</Text>
+                  <Text variant="bodyMedium" style={styles.summaryValue}>
+                    {Math.round(currentResult.totalReviews / days)}
+                  </Text>
+                  <Text variant="bodyMedium" style={styles.summaryValue}>
+                    {Math.round(proposedResult.totalReviews / days)}
+                  </Text>
+                </View>
+
+                <View style={styles.summaryRow}>
+                  <Text variant="bodyMedium" style={styles.summaryLabel}>Minutes / day</Text>
+                  <Text variant="bodyMedium" style={styles.summaryValue}>
+                    {Math.round(currentResult.averageMinutesPerDay)}
+                  </Text>
+                  <Text variant="bodyMedium" style={styles.summaryValue}>
+                    {Math.round(proposedResult.averageMinutesPerDay)}
+                  </Text>
+                </View>
+
+                <View style={styles.summaryRow}>
+                  <Text variant="bodyMedium" style={styles.summaryLabel}>Ayahs memorized</Text>
+                  <Text variant="bodyMedium" style={styles.summaryValue}>
+                    {currentResult.projectedMemorized}
+                  </Text>
+                  <Text variant="bodyMedium" style={styles.summaryValue}>
+                    {proposedResult.projectedMemorized}
+                  </Text>
+                </View>
+              </>
+            ) : null}
+          </Card.Content>
+        </Card>
+
+        <View style={styles.actions}>
+          <Button mode="text" onPress={() => router.back()}>
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleApply}
+            loading={applying}
+            disabled={applying || simulating}
+          >
+            Apply Settings
+          </Button>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+    elevation: 2,
+  },
+  cardTitle: {
+    marginBottom: 16,
+  },
+  slider: {
+    marginBottom: 16,
+    height: 40,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  settingDescription: {
+    opacity: 0.7,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 16,
+    flexWrap: 'wrap',
+  },
+  chip: {
+    margin: 4,
+  },
+  chart: {
+    marginVertical: 8,
+    borderRadius: 16,
+  },
+  summaryHeader: {
+    flexDirection: 'row',
+    marginTop: 8,
+    paddingVertical: 4,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    flex: 2,
+  },
+  summaryValue: {
+    flex: 1,
+    textAlign: 'right',
+    fontWeight: 'bold',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginBottom: 32,
+  },
+});
@@ -2,17 +2,24 @@ import React, { useState, useEffect } from 'react';
 import { StyleSheet, View, ScrollView, Dimensions } from 'react-native';
 import { Text, Card, Chip, useTheme, ActivityIndicator, Button, Divider } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
 import { LineChart, BarChart } from 'react-native-chart-kit';
-import { getRecentSessionStatistics } from '../../services/scheduler';
-import { SessionStatistics } from '../../types';
+import { getDailyStatistics, getRecentSessionStatistics, getStudyStreak } from '../../services/scheduler';
+import { getLeechAyahs, setAyahsSuspended } from '../../services/database/ayahProgress';
+import { useSession } from '../../contexts/SessionContext';
+import { AyahProgress, DailyStatistics, SessionStatistics } from '../../types';
 
 // Get screen width
 const screenWidth = Dimensions.get('window').width;
 
 export default function StatisticsScreen() {
   const theme = useTheme();
+  const { startSession } = useSession();
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<SessionStatistics[]>([]);
+  const [dailyStats, setDailyStats] = useState<DailyStatistics[]>([]);
+  const [streak, setStreak] = useState(0);
+  const [leeches, setLeeches] = useState<AyahProgress[]>([]);
   const [timeRange, setTimeRange] = useState<7 | 30 | 90>(30); // Days
   const [error, setError] = useState<string | null>(null);
 
@@ -25,6 +32,11 @@ export default function StatisticsScreen() {
         
         const sessionStats = await getRecentSessionStatistics(timeRange);
         setStats(sessionStats);
+        
+        // Charts and streaks count local study days rather than individual sessions
+        setDailyStats(await getDailyStatistics(timeRange));
+        setStreak(await getStudyStreak());
+        setLeeches(await getLeechAyahs());
       } catch (err) {
         console.error('Error loading statistics:', err);
         setError('Failed to load statistics');
@@ -36,6 +48,26 @@ export default function StatisticsScreen() {
     loadStatistics();
   }, [timeRange]);
 
+  // Unsuspend a leech so it's scheduled again
+  const handleUnsuspend = async (leech: AyahProgress) => {
+    try {
+      await setAyahsSuspended([leech.id], false);
+      setLeeches(await getLeechAyahs());
+    } catch (err) {
+      console.error('Error unsuspending leech:', err);
+    }
+  };
+  
+  // Start a session of leeches only
+  const handleReviewLeeches = async () => {
+    try {
+      await startSession('leeches');
+      router.push('/session/review');
+    } catch (err) {
+      console.error('Error starting leech session:', err);
+    }
+  };
+
   // Calculate summary statistics
   const calculateSummary = () => {
     if (!stats || stats.length === 0) {
@@ -45,6 +77,7 @@ export default function StatisticsScreen() {
         avgRetention: 0,
         avgTimePerAyah: 0,
         sessionsCompleted: 0,
+        daysStudied: 0,
       };
     }
     
@@ -59,18 +92,16 @@ export default function StatisticsScreen() {
       avgRetention: totalRetention / stats.length,
       avgTimePerAyah: totalReviewed > 0 ? totalTime / totalReviewed : 0,
       sessionsCompleted: stats.length,
+      daysStudied: dailyStats.length,
     };
   };
 
   // Prepare chart data for retention over time
   const getRetentionChartData = () => {
-    if (!stats || stats.length === 0) return { labels: [], datasets: [{ data: [] }] };
+    if (!dailyStats || dailyStats.length === 0) return { labels: [], datasets: [{ data: [] }] };
     
-    // Sort by date
-    const sortedStats = [...stats].sort((a, b) => a.date.getTime() - b.date.getTime());
-    
-    // Get last 7 entries if more than 7 exist
-    const chartStats = sortedStats.length > 7 ? sortedStats.slice(-7) : sortedStats;
+    // Get last 7 study days if more than 7 exist (already sorted by date)
+    const chartStats = dailyStats.length > 7 ? dailyStats.slice(-7) : dailyStats;
     
     return {
       labels: chartStats.map(stat => {
@@ -88,13 +119,10 @@ export default function StatisticsScreen() {
 
   // Prepare chart data for review counts
   const getReviewCountChartData = () => {
-    if (!stats || stats.length === 0) return { labels: [], datasets: [{ data: [] }] };
-    
-    // Sort by date
-    const sortedStats = [...stats].sort((a, b) => a.date.getTime() - b.date.getTime());
+    if (!dailyStats || dailyStats.length === 0) return { labels: [], datasets: [{ data: [] }] };
     
-    // Get last 7 entries if more than 7 exist
-    const chartStats = sortedStats.length > 7 ? sortedStats.slice(-7) : sortedStats;
+    // Get last 7 study days if more than 7 exist (already sorted by date)
+    const chartStats = dailyStats.length > 7 ? dailyStats.slice(-7) : dailyStats;
     
     return {
       labels: chartStats.map(stat => {
@@ -215,6 +243,16 @@ export default function StatisticsScreen() {
                     <Text style={styles.summaryValue}>{formatDuration(summary.avgTimePerAyah)}</Text>
                     <Text style={styles.summaryLabel}>Avg. Time/Ayah</Text>
                   </View>
+                  
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryValue}>{streak}</Text>
+                    <Text style={styles.summaryLabel}>Day Streak</Text>
+                  </View>
+                  
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryValue}>{summary.daysStudied}</Text>
+                    <Text style={styles.summaryLabel}>Days Studied</Text>
+                  </View>
                 </View>
               </Card.Content>
             </Card>
@@ -287,6 +325,9 @@ export default function StatisticsScreen() {
                         <Text style={styles.sessionTime}>
                           {new Date(session.date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                         </Text>
+                        {session.studyAhead && (
+                          <Text style={styles.sessionTime}>Study ahead</Text>
+                        )}
                       </View>
                       
                       <View style={styles.sessionStats}>
@@ -313,6 +354,48 @@ export default function StatisticsScreen() {
             </Card>
           </>
         )}
+        
+        {/* Leeches */}
+        {leeches.length > 0 && (
+          <Card style={[styles.card, { marginBottom: 20 }]}>
+            <Card.Content>
+              <Text style={styles.cardTitle}>Leeches</Text>
+              <Text style={styles.leechSubtext}>
+                Ayahs you keep forgetting. Target them in their own session.
+              </Text>
+              
+              {leeches.map((leech, index) => (
+                <View key={leech.id}>
+                  <View style={styles.sessionItem}>
+                    <View>
+                      <Text style={styles.sessionDate}>
+                        {leech.surahNumber}:{leech.ayahNumber}
+                      </Text>
+                      <Text style={styles.sessionTime}>
+                        {leech.lapses} lapses{leech.suspended ? ' · Suspended' : ''}
+                      </Text>
+                    </View>
+                    
+                    {leech.suspended && (
+                      <Button mode="text" compact onPress={() => handleUnsuspend(leech)}>
+                        Unsuspend
+                      </Button>
+                    )}
+                  </View>
+                  {index < leeches.length - 1 && <Divider style={styles.divider} />}
+                </View>
+              ))}
+              
+              <Button 
+                mode="contained" 
+                onPress={handleReviewLeeches}
+                style={styles.retryButton}
+              >
+                Review Leeches
+              </Button>
+            </Card.Content>
+          </Card>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -427,4 +510,9 @@ const styles = StyleSheet.create({
   divider: {
     height: 1,
   },
+  leechSubtext: {
+    opacity: 0.7,
+    marginTop: -8,
+    marginBottom: 8,
+  },
 });
\ No newline at end of file
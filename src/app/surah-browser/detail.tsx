@@ -1,15 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { StyleSheet, View, ScrollView, TouchableOpacity, Alert } from 'react-native';
-import { Text, Card, Button, SegmentedButtons, RadioButton, useTheme, ActivityIndicator, Divider } from 'react-native-paper';
+import { Text, Card, Button, SegmentedButtons, RadioButton, useTheme, ActivityIndicator, Divider, IconButton } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router, useLocalSearchParams } from 'expo-router';
 import { fetchSurahs, fetchAyahsForSurah } from '../../services/quran/api';
-import { createGroupsForSurah } from '../../utils/groupings';
+import { createGroupsForSurah, setGroupBuriedUntil, setGroupSuspended } from '../../utils/groupings';
+import { addDays, DEFAULT_DAY_START_HOUR, getStudyDayStart } from '../../utils/studyDay';
 import { useSettings } from '../../contexts/SettingsContext';
 import { Surah, Ayah, AyahGroup } from '../../types';
 import AyahDisplay from '../../components/AyahDisplay';
 import { v4 as uuidv4 } from 'uuid';
 import { executeUpdate, executeQuery } from '../../services/database';
+import { syncLinkCards } from '../../services/database/linkCards';
+import { getNewMaterialQueue, QueuedGroup } from '../../services/scheduler';
 
 export default function SurahDetailScreen() {
   const theme = useTheme();
@@ -27,6 +30,7 @@ export default function SurahDetailScreen() {
     settings?.groupingSize || 5
   );
   const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+  const [queue, setQueue] = useState<QueuedGroup[]>([]);
   const [loading, setLoading] = useState(true);
   const [addingToQueue, setAddingToQueue] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -60,6 +64,9 @@ export default function SurahDetailScreen() {
         console.log(`Creating groups for surah ${surahNumber} with method ${groupingMethod} and size ${groupingSize}`);
         const ayahGroups = await createGroupsForSurah(currentSurah, groupingMethod, groupingSize);
         setGroups(ayahGroups);
+        
+        // Groups already queued, in the order they'll be introduced
+        setQueue(await getNewMaterialQueue(surahNumber));
       } catch (err) {
         console.error('Error loading surah details:', err);
         setError('Failed to load surah details. Please try again.');
@@ -98,6 +105,32 @@ export default function SurahDetailScreen() {
     });
   };
   
+  // Suspend or unsuspend a group that's already in the learning queue
+  const toggleGroupSuspended = async (group: AyahGroup) => {
+    try {
+      await setGroupSuspended(group.id, !group.suspended);
+      setGroups(prev => prev.map(g => g.id === group.id ? { ...g, suspended: !group.suspended } : g));
+    } catch (err) {
+      console.error('Error suspending group:', err);
+      Alert.alert('Error', `Failed to ${group.suspended ? 'unsuspend' : 'suspend'} these ayahs. Please try again.`);
+    }
+  };
+  
+  // Bury a group until tomorrow, or unbury it
+  const toggleGroupBuried = async (group: AyahGroup) => {
+    try {
+      const buriedUntil = isBuried(group)
+        ? null
+        : addDays(getStudyDayStart(new Date(), settings?.dayStartHour ?? DEFAULT_DAY_START_HOUR), 1);
+      
+      await setGroupBuriedUntil(group.id, buriedUntil);
+      setGroups(prev => prev.map(g => g.id === group.id ? { ...g, buriedUntil } : g));
+    } catch (err) {
+      console.error('Error burying group:', err);
+      Alert.alert('Error', `Failed to ${isBuried(group) ? 'unbury' : 'bury'} these ayahs. Please try again.`);
+    }
+  };
+  
   // Select all groups
   const selectAllGroups = () => {
     setSelectedGroups(groups.map(group => group.id));
@@ -174,6 +207,10 @@ export default function SurahDetailScreen() {
         }
       }
       
+      // Drill the transitions between this surah's adjacent groups
+      await syncLinkCards(surahNumber);
+      setQueue(await getNewMaterialQueue(surahNumber));
+      
       // Success message
       Alert.alert(
         'Added to Queue', 
@@ -288,6 +325,31 @@ export default function SurahDetailScreen() {
           </Card.Content>
         </Card>
         
+        {/* Learning Order */}
+        {queue.length > 0 && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text style={styles.sectionTitle}>Learning Order</Text>
+              
+              {queue.map((group, index) => (
+                <View key={group.groupId} style={styles.queueItem}>
+                  <Text style={styles.groupTitle}>
+                    {index + 1}. Ayah {group.startAyah} - {group.endAyah}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.groupSubtitle,
+                      group.status === 'next' && { color: theme.colors.primary, opacity: 1 }
+                    ]}
+                  >
+                    {getQueueStatusDescription(group, index > 0 ? queue[index - 1] : null, settings?.unlockStability ?? 3)}
+                  </Text>
+                </View>
+              ))}
+            </Card.Content>
+          </Card>
+        )}
+        
         {/* Available Groups */}
         <Card style={styles.card}>
           <Card.Content>
@@ -343,8 +405,25 @@ export default function SurahDetailScreen() {
                       </Text>
                       <Text style={styles.groupSubtitle}>
                         {group.endAyah - group.startAyah + 1} ayahs
+                        {group.suspended ? ' · Suspended' : isBuried(group) ? ' · Buried until tomorrow' : ''}
                       </Text>
                     </View>
+                    
+                    {/* Groups already in the learning queue can be taken out of rotation */}
+                    {group.ayahIds.length > 0 && (
+                      <View style={styles.groupActions}>
+                        <IconButton
+                          icon={isBuried(group) ? 'calendar-remove' : 'calendar-arrow-right'}
+                          size={20}
+                          onPress={() => toggleGroupBuried(group)}
+                        />
+                        <IconButton
+                          icon={group.suspended ? 'play-circle-outline' : 'pause-circle-outline'}
+                          size={20}
+                          onPress={() => toggleGroupSuspended(group)}
+                        />
+                      </View>
+                    )}
                   </TouchableOpacity>
                 ))
               )}
@@ -369,6 +448,31 @@ export default function SurahDetailScreen() {
   );
 }
 
+// Helper function to describe where a queued group stands
+const getQueueStatusDescription = (
+  group: QueuedGroup,
+  previous: QueuedGroup | null,
+  unlockStability: number
+) => {
+  switch (group.status) {
+    case 'introduced':
+      return 'Introduced';
+    case 'next':
+      return 'Next to introduce';
+    case 'locked':
+      return previous
+        ? `Unlocks when ayah ${previous.startAyah} - ${previous.endAyah} reaches ${unlockStability} days stability`
+        : 'Locked';
+    default:
+      return 'Queued';
+  }
+};
+
+// Helper function to check whether a group is still buried
+const isBuried = (group: AyahGroup) => {
+  return !!group.buriedUntil && group.buriedUntil.getTime() > Date.now();
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -479,8 +583,12 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(0, 96, 100, 0.1)',
   },
   groupInfo: {
+    flex: 1,
     marginLeft: 8,
   },
+  groupActions: {
+    flexDirection: 'row',
+  },
   groupTitle: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -489,6 +597,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.7,
   },
+  queueItem: {
+    paddingVertical: 8,
+  },
   noGroupsText: {
     textAlign: 'center',
     marginVertical: 24,
@@ -1,9 +1,11 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, StyleSheet, ScrollView } from 'react-native';
-import { Text, Card, useTheme, Divider } from 'react-native-paper';
+import { Text, Card, useTheme, Divider, Button } from 'react-native-paper';
 import { Ayah } from '../types';
 import AudioPlayer from './AudioPlayer';
 import GroupAudioPlayer from './GroupAudioPlayer';
+import { getFirstLetter } from '../utils/hints';
+import { tokenizeAyah } from '../utils/arabic';
 
 interface AyahDisplayProps {
   ayah: Ayah | Ayah[];
@@ -11,6 +13,8 @@ interface AyahDisplayProps {
   showAyahNumber?: boolean;
   onAudioComplete?: () => void;
   autoPlayAudio?: boolean;
+  hintMode?: boolean;        // Start with every word hidden and reveal them on request
+  onHintsChange?: (hints: number) => void;
 }
 
 const AyahDisplay: React.FC<AyahDisplayProps> = ({
@@ -19,11 +23,27 @@ const AyahDisplay: React.FC<AyahDisplayProps> = ({
   showAyahNumber = true,
   onAudioComplete,
   autoPlayAudio = false,
+  hintMode = false,
+  onHintsChange,
 }) => {
   const theme = useTheme();
   
+  // Hint mode: words revealed so far (in reading order), whether first letters are shown,
+  // and how many hints that took
+  const [revealedWords, setRevealedWords] = useState(0);
+  const [firstLetters, setFirstLetters] = useState(false);
+  const [hints, setHints] = useState(0);
+  
   // Handle both single ayah and array of ayahs
   const ayahs = Array.isArray(ayah) ? ayah : [ayah];
+  const ayahKey = ayahs.map(a => a && `${a.surahNumber}:${a.ayahNumber}`).join(',');
+  
+  // Hide everything again when a new ayah is shown
+  useEffect(() => {
+    setRevealedWords(0);
+    setFirstLetters(false);
+    setHints(0);
+  }, [ayahKey, hintMode]);
   
   // Validate ayah data to prevent rendering errors
   const isValidAyahs = ayahs.every(a => 
@@ -46,6 +66,51 @@ const AyahDisplay: React.FC<AyahDisplayProps> = ({
     );
   }
 
+  const ayahWords = ayahs.map(a => tokenizeAyah(a.text));
+  const wordCount = ayahWords.reduce((sum, words) => sum + words.length, 0);
+  const allRevealed = revealedWords >= wordCount;
+  
+  // Count a hint and let the parent know
+  const addHints = (count: number) => {
+    setHints(hints + count);
+    onHintsChange?.(hints + count);
+  };
+  
+  // Reveal the next hidden word
+  const handleRevealWord = () => {
+    setRevealedWords(revealedWords + 1);
+    addHints(1);
+  };
+  
+  // Show the first letter of every hidden word
+  const handleRevealFirstLetters = () => {
+    setFirstLetters(true);
+    addHints(1);
+  };
+  
+  // Reveal the whole ayah; every word still hidden counts as a hint
+  const handleRevealAll = () => {
+    setRevealedWords(wordCount);
+    addHints(wordCount - revealedWords);
+  };
+  
+  // Render an ayah's words, hiding the ones not revealed yet
+  const renderHiddenText = (words: string[], offset: number) => (
+    words.map((word, index) => {
+      const revealed = offset + index < revealedWords;
+      
+      return (
+        <Text
+          key={index}
+          style={revealed ? undefined : { color: theme.colors.onSurfaceDisabled }}
+        >
+          {index > 0 ? ' ' : ''}
+          {revealed ? word : firstLetters ? getFirstLetter(word) : HIDDEN_WORD}
+        </Text>
+      );
+    })
+  );
+
   return (
     <Card style={styles.card}>
       <Card.Content>
@@ -69,11 +134,38 @@ const AyahDisplay: React.FC<AyahDisplayProps> = ({
           {ayahs.map((a, index) => (
             <React.Fragment key={`${a.surahNumber}-${a.ayahNumber}`}>
               {index > 0 && <Divider style={styles.divider} />}
-              <Text style={styles.arabicText}>{a.text}</Text>
+              <Text style={styles.arabicText}>
+                {hintMode
+                  ? renderHiddenText(
+                      ayahWords[index],
+                      ayahWords.slice(0, index).reduce((sum, words) => sum + words.length, 0)
+                    )
+                  : a.text}
+              </Text>
             </React.Fragment>
           ))}
         </ScrollView>
 
+        {hintMode && !allRevealed && (
+          <View style={styles.hintActions}>
+            <Button mode="text" compact icon="eye-plus-outline" onPress={handleRevealWord}>
+              Next Word
+            </Button>
+            <Button
+              mode="text"
+              compact
+              icon="format-letter-starts-with"
+              onPress={handleRevealFirstLetters}
+              disabled={firstLetters}
+            >
+              First Letters
+            </Button>
+            <Button mode="text" compact icon="eye-outline" onPress={handleRevealAll}>
+              Show Ayah
+            </Button>
+          </View>
+        )}
+
         {showAudio && ayahs.length > 0 && (
           <View style={styles.audioContainer}>
             {ayahs.length > 1 ? (
@@ -99,6 +191,9 @@ const AyahDisplay: React.FC<AyahDisplayProps> = ({
   );
 };
 
+// Stands in for a word that hasn't been revealed (a line of tatweels)
+const HIDDEN_WORD = '\u0640\u0640\u0640\u0640';
+
 const styles = StyleSheet.create({
   card: {
     marginHorizontal: 16,
@@ -132,6 +227,11 @@ const styles = StyleSheet.create({
   divider: {
     marginVertical: 8,
   },
+  hintActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+  },
   audioContainer: {
     marginTop: 8,
   }
@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Card, Chip, Button, TextInput, useTheme, Divider } from 'react-native-paper';
+import { Ayah, ClozeInput } from '../types';
+import { tokenizeAyah, matchesWord } from '../utils/arabic';
+import { ClozeResult, ClozeWord, selectBlanks, shuffle } from '../utils/cloze';
+import { getWordKey } from '../services/database/wordMistakes';
+
+interface ClozeQuizProps {
+  ayahs: Ayah[];                    // New blanks are picked whenever this array changes
+  share: number;                    // Share of words to blank out
+  input: ClozeInput;                // Fill blanks from a word bank or by typing
+  mistakes?: Map<string, number>;   // Past misses per word; blanks lean on these when given
+  onComplete: (result: ClozeResult) => void;
+}
+
+// Shown in a blank that hasn't been filled yet
+const EMPTY_BLANK = '______';
+
+const ClozeQuiz: React.FC<ClozeQuizProps> = ({
+  ayahs,
+  share,
+  input,
+  mistakes,
+  onComplete,
+}) => {
+  const theme = useTheme();
+
+  const [blanks, setBlanks] = useState<ClozeWord[]>([]);
+  const [bank, setBank] = useState<{ id: number; word: string }[]>([]);
+  const [answers, setAnswers] = useState<(string | null)[]>([]);
+  const [answerIds, setAnswerIds] = useState<(number | null)[]>([]);
+  const [activeBlank, setActiveBlank] = useState(0);
+  const [typedText, setTypedText] = useState('');
+  const [checked, setChecked] = useState(false);
+
+  const ayahWords = useMemo(() => ayahs.map(a => tokenizeAyah(a.text)), [ayahs]);
+
+  // Pick new blanks whenever the ayahs change
+  useEffect(() => {
+    const words = ayahWords.flatMap((words, ayahIndex) =>
+      words.map((word, wordIndex) => ({ ayahIndex, wordIndex, word }))
+    );
+
+    const selected = selectBlanks(
+      words,
+      share,
+      mistakes
+        ? word => mistakes.get(getWordKey(ayahs[word.ayahIndex].surahNumber, ayahs[word.ayahIndex].ayahNumber, word.wordIndex)) || 0
+        : undefined
+    );
+
+    setBlanks(selected);
+    setBank(shuffle(selected.map((blank, id) => ({ id, word: blank.word }))));
+    setAnswers(selected.map(() => null));
+    setAnswerIds(selected.map(() => null));
+    setActiveBlank(0);
+    setTypedText('');
+    setChecked(false);
+  }, [ayahs, ayahWords, share, mistakes]);
+
+  // Move to the first blank still empty after `filled` is filled
+  const nextEmptyBlank = (filled: (string | null)[]) => {
+    const next = filled.findIndex(answer => answer === null);
+    return next === -1 ? activeBlank : next;
+  };
+
+  // Fill the active blank and move on to the next empty one
+  const fillBlank = (answer: string, bankId: number | null) => {
+    const filled = answers.map((a, i) => i === activeBlank ? answer : a);
+    setAnswers(filled);
+    setAnswerIds(answerIds.map((id, i) => i === activeBlank ? bankId : id));
+    setActiveBlank(nextEmptyBlank(filled));
+  };
+
+  // Select a blank; a filled one is emptied (its word goes back to the bank)
+  const handleBlankPress = (index: number) => {
+    if (checked) return;
+
+    setAnswers(answers.map((a, i) => i === index ? null : a));
+    setAnswerIds(answerIds.map((id, i) => i === index ? null : id));
+    setActiveBlank(index);
+  };
+
+  // Fill the active blank with the typed word
+  const handleSubmitTyped = () => {
+    if (typedText.trim().length === 0) return;
+
+    fillBlank(typedText.trim(), null);
+    setTypedText('');
+  };
+
+  // Mark every blank and report the result
+  const handleCheck = () => {
+    const missed = blanks.filter((blank, i) => !isCorrect(answers[i], blank.word, input));
+
+    setChecked(true);
+    onComplete({
+      total: blanks.length,
+      correct: blanks.length - missed.length,
+      missed
+    });
+  };
+
+  // Render an ayah with its blanks
+  const renderAyah = (words: string[], ayahIndex: number) => (
+    words.map((word, wordIndex) => {
+      const blankIndex = blanks.findIndex(b => b.ayahIndex === ayahIndex && b.wordIndex === wordIndex);
+      const separator = wordIndex > 0 ? ' ' : '';
+
+      if (blankIndex === -1) {
+        return <Text key={wordIndex}>{separator}{word}</Text>;
+      }
+
+      const answer = answers[blankIndex];
+
+      if (checked) {
+        const correct = isCorrect(answer, word, input);
+
+        return (
+          <Text key={wordIndex}>
+            {separator}
+            <Text style={{ color: correct ? CORRECT_COLOR : theme.colors.error }}>
+              {correct ? word : `${answer} (${word})`}
+            </Text>
+          </Text>
+        );
+      }
+
+      return (
+        <Text key={wordIndex}>
+          {separator}
+          <Text
+            onPress={() => handleBlankPress(blankIndex)}
+            style={[
+              styles.blank,
+              { color: blankIndex === activeBlank ? theme.colors.primary : theme.colors.onSurfaceVariant }
+            ]}
+          >
+            {answer ?? EMPTY_BLANK}
+          </Text>
+        </Text>
+      );
+    })
+  );
+
+  const allFilled = answers.length > 0 && answers.every(answer => answer !== null);
+  const usedIds = new Set(answerIds.filter((id): id is number => id !== null));
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <ScrollView style={styles.textScrollView} contentContainerStyle={styles.textContainer}>
+          {ayahWords.map((words, ayahIndex) => (
+            <React.Fragment key={`${ayahs[ayahIndex].surahNumber}-${ayahs[ayahIndex].ayahNumber}`}>
+              {ayahIndex > 0 && <Divider style={styles.divider} />}
+              <Text style={styles.arabicText}>{renderAyah(words, ayahIndex)}</Text>
+            </React.Fragment>
+          ))}
+        </ScrollView>
+
+        {!checked && input === 'bank' && (
+          <View style={styles.bank}>
+            {bank.map(entry => (
+              <Chip
+                key={entry.id}
+                onPress={() => fillBlank(entry.word, entry.id)}
+                disabled={usedIds.has(entry.id)}
+                style={styles.bankChip}
+                textStyle={styles.bankText}
+              >
+                {entry.word}
+              </Chip>
+            ))}
+          </View>
+        )}
+
+        {!checked && input === 'typed' && (
+          <TextInput
+            mode="outlined"
+            dense
+            label={`Blank ${activeBlank + 1} of ${blanks.length}`}
+            value={typedText}
+            onChangeText={setTypedText}
+            onSubmitEditing={handleSubmitTyped}
+            autoCorrect={false}
+            autoCapitalize="none"
+            right={<TextInput.Icon icon="keyboard-return" onPress={handleSubmitTyped} />}
+            style={styles.typedInput}
+          />
+        )}
+
+        {!checked && (
+          <Button mode="contained-tonal" onPress={handleCheck} disabled={!allFilled}>
+            Check
+          </Button>
+        )}
+      </Card.Content>
+    </Card>
+  );
+};
+
+// Helper function to check an answer: words picked from the bank must match exactly,
+// typed words are compared ignoring diacritics and letter forms
+const isCorrect = (answer: string | null, word: string, input: ClozeInput) => {
+  if (answer === null) return false;
+
+  return input === 'bank'
+    ? answer === word
+    : matchesWord(word, answer);
+};
+
+const CORRECT_COLOR = '#4CAF50'; // Green
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginVertical: 8,
+    elevation: 2,
+  },
+  textScrollView: {
+    maxHeight: 300,
+  },
+  textContainer: {
+    paddingVertical: 8,
+  },
+  arabicText: {
+    fontSize: 28,
+    lineHeight: 48,
+    textAlign: 'right',
+    fontFamily: 'Amiri-Regular',
+    marginBottom: 16,
+  },
+  blank: {
+    textDecorationLine: 'underline',
+  },
+  divider: {
+    marginVertical: 8,
+  },
+  bank: {
+    flexDirection: 'row-reverse',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  bankChip: {
+    marginLeft: 8,
+    marginBottom: 8,
+  },
+  bankText: {
+    fontSize: 18,
+    fontFamily: 'Amiri-Regular',
+  },
+  typedInput: {
+    marginBottom: 8,
+    textAlign: 'right',
+  },
+});
+
+export default ClozeQuiz;
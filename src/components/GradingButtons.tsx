@@ -8,6 +8,7 @@ interface GradingButtonsProps {
   disabled?: boolean;
   showIntervals?: boolean;
   intervals?: { [key in Rating]: number };
+  suggestedRating?: Rating | null;  // Highlighted as the likely grade (e.g. from hints used)
 }
 
 const GradingButtons: React.FC<GradingButtonsProps> = ({
@@ -15,6 +16,7 @@ const GradingButtons: React.FC<GradingButtonsProps> = ({
   disabled = false,
   showIntervals = false,
   intervals = { 1: 0, 2: 1, 3: 3, 4: 7 },
+  suggestedRating = null,
 }) => {
   const theme = useTheme();
 
@@ -39,19 +41,21 @@ const GradingButtons: React.FC<GradingButtonsProps> = ({
                 : button.color,
             },
             Platform.OS === 'ios' ? styles.iosButton : null,
+            !disabled && button.rating === suggestedRating
+              ? [styles.suggestedButton, { borderColor: theme.colors.onBackground }]
+              : null,
           ]}
           onPress={() => onRate(button.rating)}
           disabled={disabled}
           activeOpacity={0.7}
         >
           <Text style={styles.buttonText}>{button.label}</Text>
+          {!disabled && button.rating === suggestedRating && (
+            <Text style={styles.suggestedText}>Suggested</Text>
+          )}
           {showIntervals && (
             <Text style={styles.intervalText}>
-              {intervals[button.rating] === 0
-                ? 'Today'
-                : intervals[button.rating] === 1
-                ? 'Tomorrow'
-                : `${intervals[button.rating]} days`}
+              {formatInterval(intervals[button.rating])}
             </Text>
           )}
         </TouchableOpacity>
@@ -60,6 +64,23 @@ const GradingButtons: React.FC<GradingButtonsProps> = ({
   );
 };
 
+// Format the time until the next review (in days, fractional for learning steps)
+const formatInterval = (days: number): string => {
+  const minutes = Math.round(days * 24 * 60);
+  
+  if (minutes < 1) {
+    return 'Now';
+  } else if (minutes < 60) {
+    return `${minutes} min`;
+  } else if (days < 1) {
+    return `${Math.round(minutes / 60)} h`;
+  } else if (Math.round(days) === 1) {
+    return 'Tomorrow';
+  }
+  
+  return `${Math.round(days)} days`;
+};
+
 const styles = StyleSheet.create({
   container: {
     flexDirection: 'row',
@@ -83,6 +104,14 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.3,
     shadowRadius: 2,
   },
+  suggestedButton: {
+    borderWidth: 2,
+  },
+  suggestedText: {
+    color: 'white',
+    fontSize: 10,
+    opacity: 0.9,
+  },
   buttonText: {
     color: 'white',
     fontWeight: 'bold',
@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, ScrollView, Animated, PanResponder } from 'react-native';
+import { Text, Card, Button, Chip, IconButton, useTheme } from 'react-native-paper';
+import { Ayah } from '../types';
+import { tokenizeAyah } from '../utils/arabic';
+import { shuffle } from '../utils/cloze';
+import { OrderResult, findMisplaced } from '../utils/order';
+
+interface OrderQuizProps {
+  ayahs: Ayah[];                    // The group's ayahs, in reading order; reshuffled when this array changes
+  onComplete: (result: OrderResult) => void;
+}
+
+// Words shown for each ayah when only its opening is shown
+const OPENING_WORDS = 3;
+
+const OrderQuiz: React.FC<OrderQuizProps> = ({
+  ayahs,
+  onComplete,
+}) => {
+  const theme = useTheme();
+
+  const [arranged, setArranged] = useState<number[]>([]);
+  const [showFullText, setShowFullText] = useState(false);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [misplaced, setMisplaced] = useState<number[] | null>(null);
+
+  const dragOffset = useRef(new Animated.Value(0)).current;
+  const rowHeights = useRef<number[]>([]);
+
+  const checked = misplaced !== null;
+
+  // Shuffle the ayahs whenever they change, making sure they don't come out in order
+  useEffect(() => {
+    const indices = ayahs.map((_, index) => index);
+    let shuffled = shuffle(indices);
+
+    while (indices.length > 1 && shuffled.every((index, position) => index === position)) {
+      shuffled = shuffle(indices);
+    }
+
+    setArranged(shuffled);
+    setMisplaced(null);
+    setDragging(null);
+  }, [ayahs]);
+
+  // Work out where a row dragged by `dy` lands: past the middle of a neighbouring row swaps with it
+  const rowCount = arranged.length;
+  const getDropPosition = useCallback((from: number, dy: number) => {
+    const heights = rowHeights.current;
+    let position = from;
+    let offset = dy;
+
+    while (offset > 0 && position < rowCount - 1 && offset > (heights[position + 1] || 0) / 2) {
+      offset -= heights[position + 1] || 0;
+      position++;
+    }
+
+    while (offset < 0 && position > 0 && -offset > (heights[position - 1] || 0) / 2) {
+      offset += heights[position - 1] || 0;
+      position--;
+    }
+
+    return position;
+  }, [rowCount]);
+
+  // Move the ayah at one position to another
+  const moveAyah = useCallback((from: number, to: number) => {
+    if (from === to) return;
+
+    setArranged(previous => {
+      const next = [...previous];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }, []);
+
+  // Drag handlers for each row, kept across renders so a drag isn't cut off midway
+  const panResponders = useMemo(() => Array.from({ length: rowCount }, (_, position) => PanResponder.create({
+    onStartShouldSetPanResponder: () => !checked,
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: () => {
+      dragOffset.setValue(0);
+      setDragging(position);
+    },
+    onPanResponderMove: (_, gesture) => dragOffset.setValue(gesture.dy),
+    onPanResponderRelease: (_, gesture) => {
+      moveAyah(position, getDropPosition(position, gesture.dy));
+      dragOffset.setValue(0);
+      setDragging(null);
+    },
+    onPanResponderTerminate: () => {
+      dragOffset.setValue(0);
+      setDragging(null);
+    },
+  })), [rowCount, checked, dragOffset, getDropPosition, moveAyah]);
+
+  // Mark the ayahs put out of order and report the result
+  const handleCheck = () => {
+    const result = findMisplaced(arranged);
+
+    setMisplaced(result);
+    onComplete({ total: ayahs.length, misplaced: result });
+  };
+
+  // Text shown for an ayah: all of it, or just its opening words
+  const getAyahText = (ayah: Ayah) => {
+    if (showFullText) return ayah.text;
+
+    const words = tokenizeAyah(ayah.text);
+    const opening = words.slice(0, OPENING_WORDS).join(' ');
+    return words.length > OPENING_WORDS ? `${opening} ...` : opening;
+  };
+
+  // Render an ayah at its current position
+  const renderRow = (index: number, position: number) => {
+    const ayah = ayahs[index];
+    const isDragging = dragging === position;
+    const borderColor = misplaced
+      ? misplaced.includes(index) ? theme.colors.error : CORRECT_COLOR
+      : theme.colors.outlineVariant;
+
+    return (
+      <Animated.View
+        key={`${ayah.surahNumber}-${ayah.ayahNumber}`}
+        onLayout={event => {
+          rowHeights.current[position] = event.nativeEvent.layout.height;
+        }}
+        style={[
+          styles.rowContainer,
+          isDragging && styles.draggingRow,
+          isDragging && { transform: [{ translateY: dragOffset }] }
+        ]}
+      >
+        <View
+          style={[
+            styles.row,
+            { borderColor, backgroundColor: isDragging ? theme.colors.surfaceVariant : theme.colors.surface }
+          ]}
+        >
+          {checked ? (
+            <Text variant="labelLarge" style={styles.ayahNumber}>
+              {ayah.ayahNumber}
+            </Text>
+          ) : (
+            <View {...panResponders[position]?.panHandlers}>
+              <IconButton icon="drag-vertical" size={24} />
+            </View>
+          )}
+          <Text style={[styles.arabicText, showFullText && styles.fullText]}>
+            {getAyahText(ayah)}
+          </Text>
+        </View>
+      </Animated.View>
+    );
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.header}>
+          <Text variant="titleSmall" style={styles.label}>
+            {misplaced
+              ? `${misplaced.length} of ${ayahs.length} ayahs out of order`
+              : 'Drag the ayahs into order'}
+          </Text>
+          <Chip
+            selected={showFullText}
+            onPress={() => setShowFullText(!showFullText)}
+            compact
+          >
+            Full ayahs
+          </Chip>
+        </View>
+
+        <ScrollView style={styles.listScrollView} scrollEnabled={dragging === null}>
+          {arranged.map(renderRow)}
+        </ScrollView>
+
+        {misplaced ? (
+          misplaced.length > 0 && (
+            <Text variant="bodySmall" style={styles.note}>
+              Ayahs out of order are rated Again; your rating applies to the rest.
+            </Text>
+          )
+        ) : (
+          <Button mode="contained-tonal" onPress={handleCheck}>
+            Check
+          </Button>
+        )}
+      </Card.Content>
+    </Card>
+  );
+};
+
+const CORRECT_COLOR = '#4CAF50'; // Green
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginVertical: 8,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    opacity: 0.7,
+  },
+  listScrollView: {
+    maxHeight: 400,
+    marginBottom: 8,
+  },
+  rowContainer: {
+    paddingBottom: 8,
+  },
+  draggingRow: {
+    zIndex: 1,
+    elevation: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingRight: 12,
+  },
+  ayahNumber: {
+    width: 48,
+    textAlign: 'center',
+  },
+  arabicText: {
+    flex: 1,
+    fontSize: 22,
+    lineHeight: 40,
+    textAlign: 'right',
+    fontFamily: 'Amiri-Regular',
+  },
+  fullText: {
+    paddingVertical: 8,
+  },
+  note: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+});
+
+export default OrderQuiz;
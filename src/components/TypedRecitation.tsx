@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Card, Button, TextInput, useTheme } from 'react-native-paper';
+import { Ayah } from '../types';
+import { tokenizeAyah } from '../utils/arabic';
+import { WordDiff, diffWords } from '../utils/diff';
+
+interface TypedRecitationProps {
+  ayahs: Ayah[];
+  onComplete: (diff: WordDiff[]) => void;
+}
+
+const TypedRecitation: React.FC<TypedRecitationProps> = ({
+  ayahs,
+  onComplete,
+}) => {
+  const theme = useTheme();
+
+  const [typedText, setTypedText] = useState('');
+  const [diff, setDiff] = useState<WordDiff[] | null>(null);
+
+  const ayahKey = ayahs.map(a => `${a.surahNumber}:${a.ayahNumber}`).join(',');
+  const first = ayahs[0];
+  const last = ayahs[ayahs.length - 1];
+
+  // Start over whenever the ayahs change
+  useEffect(() => {
+    setTypedText('');
+    setDiff(null);
+  }, [ayahKey]);
+
+  // Compare what was typed with the text and report the diff
+  const handleCheck = () => {
+    const expected = ayahs.flatMap(a => tokenizeAyah(a.text));
+    const typed = typedText.split(/\s+/).filter(word => word.length > 0);
+    const result = diffWords(expected, typed);
+
+    setDiff(result);
+    onComplete(result);
+  };
+
+  // Render one word of the diff
+  const renderWord = (entry: WordDiff, index: number) => {
+    const separator = index > 0 ? ' ' : '';
+
+    switch (entry.type) {
+      case 'correct':
+        return <Text key={index}>{separator}{entry.expected}</Text>;
+      case 'missing':
+        return (
+          <Text key={index}>
+            {separator}
+            <Text style={[styles.missingWord, { color: MISSING_COLOR }]}>{entry.expected}</Text>
+          </Text>
+        );
+      case 'extra':
+        return (
+          <Text key={index}>
+            {separator}
+            <Text style={[styles.extraWord, { color: theme.colors.error }]}>{entry.typed}</Text>
+          </Text>
+        );
+      default:
+        return (
+          <Text key={index}>
+            {separator}
+            <Text style={{ color: theme.colors.error }}>{`${entry.typed} (${entry.expected})`}</Text>
+          </Text>
+        );
+    }
+  };
+
+  const countOf = (type: WordDiff['type']) => diff ? diff.filter(entry => entry.type === type).length : 0;
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text variant="titleSmall" style={styles.label}>
+          {ayahs.length > 1
+            ? `Type Surah ${first.surahNumber}, Ayahs ${first.ayahNumber}-${last.ayahNumber}`
+            : `Type Surah ${first.surahNumber}, Ayah ${first.ayahNumber}`}
+        </Text>
+
+        {diff ? (
+          <>
+            <ScrollView style={styles.textScrollView} contentContainerStyle={styles.textContainer}>
+              <Text style={styles.arabicText}>{diff.map(renderWord)}</Text>
+            </ScrollView>
+
+            <View style={styles.summary}>
+              <Text variant="bodySmall" style={{ color: MISSING_COLOR }}>
+                {countOf('missing')} missing
+              </Text>
+              <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+                {countOf('extra')} extra
+              </Text>
+              <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+                {countOf('wrong')} wrong
+              </Text>
+            </View>
+          </>
+        ) : (
+          <>
+            <TextInput
+              mode="outlined"
+              multiline
+              value={typedText}
+              onChangeText={setTypedText}
+              autoCorrect={false}
+              autoCapitalize="none"
+              style={styles.typedInput}
+            />
+
+            <Button mode="contained-tonal" onPress={handleCheck} disabled={typedText.trim().length === 0}>
+              Check
+            </Button>
+          </>
+        )}
+      </Card.Content>
+    </Card>
+  );
+};
+
+const MISSING_COLOR = '#FF9800'; // Orange
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginVertical: 8,
+    elevation: 2,
+  },
+  label: {
+    textAlign: 'center',
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  textScrollView: {
+    maxHeight: 300,
+  },
+  textContainer: {
+    paddingVertical: 8,
+  },
+  arabicText: {
+    fontSize: 28,
+    lineHeight: 48,
+    textAlign: 'right',
+    fontFamily: 'Amiri-Regular',
+    marginBottom: 16,
+  },
+  missingWord: {
+    textDecorationLine: 'underline',
+  },
+  extraWord: {
+    textDecorationLine: 'line-through',
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  typedInput: {
+    minHeight: 120,
+    marginBottom: 8,
+    fontSize: 22,
+    textAlign: 'right',
+    writingDirection: 'rtl',
+  },
+});
+
+export default TypedRecitation;
@@ -5,6 +5,9 @@ import { SettingsProvider } from './SettingsContext';
 import { AppThemeProvider, useAppTheme } from './ThemeContext';
 import { SessionProvider } from './SessionContext';
 import { initDatabase, loadInitialData } from '../services/database';
+import { syncLinkCards } from '../services/database/linkCards';
+import { syncConsolidationCards } from '../services/database/consolidation';
+import { resumeExpiredFreeze } from '../services/database/freeze';
 import * as Font from 'expo-font';
 import * as SplashScreen from 'expo-splash-screen';
 import { Audio } from 'expo-av';
@@ -45,6 +48,15 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
         // Load initial data
         await loadInitialData();
         console.log('Initial data loaded');
+        
+        // Pick the schedule back up if a freeze ended while the app was closed
+        await resumeExpiredFreeze();
+        
+        // Create link cards for groups queued before link cards existed
+        await syncLinkCards();
+        
+        // Create surah and juz cards for anything that's become fully established
+        await syncConsolidationCards();
 
         // Initialize audio system
         try {
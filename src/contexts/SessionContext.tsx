@@ -1,12 +1,68 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { AyahProgress, Rating, SessionStatistics } from '../types';
-import { getSessionAyahs } from '../services/scheduler';
-import { updateAyahProgress } from '../services/database/ayahProgress';
+import {
+  AyahProgress,
+  CustomSessionOptions,
+  Rating,
+  ReviewMode,
+  SessionStatistics,
+  SessionType
+} from '../types';
+import {
+  getCustomSessionAyahs,
+  getLeechSessionAyahs,
+  getSessionAyahs,
+  getStudyAheadAyahs,
+  getTodayDueReviews
+} from '../services/scheduler';
+import {
+  getAyahProgressByGroup,
+  getAyahProgressById,
+  saveAyahProgress,
+  setAyahsBuriedUntil,
+  setAyahsSuspended,
+  updateAyahProgress
+} from '../services/database/ayahProgress';
+import { getWeakestGroups, syncConsolidationCards } from '../services/database/consolidation';
+import { getActiveFreeze } from '../services/database/freeze';
+import {
+  getWordMistakeSnapshots,
+  MissedWords,
+  recordWordMistakes,
+  WordMistakeSnapshot
+} from '../services/database/wordMistakes';
+import { setGroupBuriedUntil, setGroupSuspended } from '../utils/groupings';
+import { addDays, DEFAULT_DAY_START_HOUR, getStudyDayStart } from '../utils/studyDay';
 import { createSessionStatistics, updateSessionStatistics } from '../services/scheduler';
 import { useSettings } from './SettingsContext';
 import { router } from 'expo-router';
 import { preloadSessionAudio } from '../services/quran/api';
 
+// Everything a rating changed, so it can be undone
+interface UndoEntry {
+  ayahIndex: number;
+  uniqueGroupIndex: number;
+  progress: AyahProgress[];  // Prior state of every ayah the rating touched
+  wordMistakes: WordMistakeSnapshot[]; // Prior counts of the words it recorded as missed
+  totalReviewed: number;
+  newLearned: number;
+  ratings: SessionStatistics['ratings'];
+}
+
+// A session that has ended, kept so its last rating can still be undone from the summary
+// or break screen
+interface EndedSession {
+  ayahs: AyahProgress[];
+  stats: SessionStatistics;
+}
+
+// Shown when a session of each type has nothing to review
+const EMPTY_SESSION_MESSAGES: Record<SessionType, string> = {
+  due: 'No ayahs due for review',
+  studyAhead: 'No ayahs coming due to study ahead',
+  leeches: 'No leeches to review',
+  custom: 'No ayahs match these filters'
+};
+
 interface SessionContextType {
   // Current session state
   isActive: boolean;
@@ -14,6 +70,9 @@ interface SessionContextType {
   ayahIndex: number;
   ayahs: AyahProgress[];
   sessionStats: SessionStatistics | null;
+  sessionType: SessionType;
+  cram: boolean;             // Ratings are practice only and leave the schedule alone
+  sessionReviewMode: ReviewMode | null; // Review mode for every card this session, or null for the settings
   
   // Stat tracking
   totalReviewed: number;
@@ -22,13 +81,22 @@ interface SessionContextType {
   elapsedTime: number;
   
   // Session actions
-  startSession: () => Promise<void>;
-  endSession: (latestTotalReviewed?: number, latestRatings?: SessionStatistics['ratings']) => Promise<void>;
+  startSession: (type?: SessionType, options?: CustomSessionOptions) => Promise<void>;
+  endSession: (
+    latestTotalReviewed?: number,
+    latestRatings?: SessionStatistics['ratings'],
+    completed?: boolean
+  ) => Promise<void>;
   pauseSession: () => void;
   resumeSession: () => void;
-  rateAyah: (rating: Rating) => Promise<void>;
+  rateAyah: (rating: Rating, hints?: number, misplacedIds?: string[], missedWords?: MissedWords) => Promise<void>;
+  undoLastRating: () => Promise<void>;
+  canUndo: boolean;
+  suspendCurrentAyah: () => Promise<void>;
+  buryCurrentAyah: () => Promise<void>;
   goToNextAyah: () => void;
   resetSession: () => void;
+  setSessionReviewMode: (mode: ReviewMode | null) => void;
   
   // Session status
   loading: boolean;
@@ -47,6 +115,9 @@ const SessionContext = createContext<SessionContextType>({
   ayahIndex: -1,
   ayahs: [],
   sessionStats: null,
+  sessionType: 'due',
+  cram: false,
+  sessionReviewMode: null,
   
   // Stats
   totalReviewed: 0,
@@ -60,8 +131,13 @@ const SessionContext = createContext<SessionContextType>({
   pauseSession: () => {},
   resumeSession: () => {},
   rateAyah: async () => {},
+  undoLastRating: async () => {},
+  canUndo: false,
+  suspendCurrentAyah: async () => {},
+  buryCurrentAyah: async () => {},
   goToNextAyah: () => {},
   resetSession: () => {},
+  setSessionReviewMode: () => {},
   
   // Status
   loading: false,
@@ -88,6 +164,9 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
   const [ayahIndex, setAyahIndex] = useState<number>(-1);
   const [currentAyah, setCurrentAyah] = useState<AyahProgress | null>(null);
   const [sessionStats, setSessionStats] = useState<SessionStatistics | null>(null);
+  const [sessionType, setSessionType] = useState<SessionType>('due');
+  const [cram, setCram] = useState<boolean>(false);
+  const [sessionReviewMode, setSessionReviewMode] = useState<ReviewMode | null>(null);
   
   // For group tracking
   const [uniqueGroups, setUniqueGroups] = useState<string[]>([]);
@@ -100,6 +179,10 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
   const [elapsedTime, setElapsedTime] = useState<number>(0);
   const [ayahStartTime, setAyahStartTime] = useState<Date | null>(null);
   
+  // Ratings that can be undone, most recent last
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [endedSession, setEndedSession] = useState<EndedSession | null>(null);
+  
   // Status
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
@@ -157,32 +240,57 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
     }
   }, [ayahs]);
   
-  // Start a new review session
-  const startSession = async () => {
+  // Start a new review session (or a study-ahead session of reviews coming due soon,
+  // a session of leeches only, or a custom session built from `options`)
+  const startSession = async (type: SessionType = 'due', options?: CustomSessionOptions) => {
     try {
       setLoading(true);
       setError(null);
       
-      // Get ayahs due for review
-      const dueAyahs = await getSessionAyahs();
+      // Nothing is due while the schedule is frozen
+      if (type === 'due' && await getActiveFreeze()) {
+        setError('Your schedule is frozen. Resume it to start a session.');
+        setLoading(false);
+        return;
+      }
+      
+      // Promote any surahs and juz that have become fully established since the last session
+      if (type === 'due') {
+        await syncConsolidationCards();
+      }
+      
+      // Get the next mini-session's worth of ayahs; the rest of today's queue waits for the next one
+      const maxUnits = settings?.maxReviewsPerSession;
+      const dueAyahs = type === 'studyAhead'
+        ? await getStudyAheadAyahs(maxUnits)
+        : type === 'leeches'
+          ? await getLeechSessionAyahs(maxUnits)
+          : type === 'custom' && options
+            ? await getCustomSessionAyahs(options, maxUnits)
+            : await getSessionAyahs(maxUnits);
       
       if (dueAyahs.length === 0) {
-        setError('No ayahs due for review');
+        setError(EMPTY_SESSION_MESSAGES[type]);
         setLoading(false);
         return;
       }
       
       // Create a new session statistics record
-      const stats = await createSessionStatistics();
+      const stats = await createSessionStatistics(type === 'studyAhead');
       
       // Initialize session state
       setAyahs(dueAyahs);
       setAyahIndex(0);
       setSessionStats(stats);
+      setSessionType(type);
+      setCram(type === 'custom' && !!options?.cram);
+      setSessionReviewMode(type === 'custom' ? options?.reviewMode ?? null : null);
       setTotalReviewed(0);
       setNewLearned(0);
       setStartTime(new Date());
       setElapsedTime(0);
+      setUndoStack([]);
+      setEndedSession(null);
       setIsActive(true);
       
       // Start the timer
@@ -215,8 +323,13 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
     }
   };
   
-  // End the current session
-  const endSession = async (latestTotalReviewed?: number, latestRatings?: SessionStatistics['ratings']) => {
+  // End the current session. A session that ran to the end of its chunk goes to the
+  // break screen if more of today's queue is left, otherwise to the summary.
+  const endSession = async (
+    latestTotalReviewed?: number,
+    latestRatings?: SessionStatistics['ratings'],
+    completed: boolean = false
+  ) => {
     try {
       // Stop the timer
       if (timer) {
@@ -230,9 +343,6 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
         const finalTotalReviewed = latestTotalReviewed !== undefined ? latestTotalReviewed : totalReviewed;
         const finalRatings = latestRatings || sessionStats.ratings;
         
-        console.debug(`Ending session: totalReviewed=${finalTotalReviewed}, uniqueGroupIndex=${uniqueGroupIndex + 1}/${uniqueGroups.length}`);
-        console.debug(`Ratings: again=${finalRatings.again}, hard=${finalRatings.hard}, good=${finalRatings.good}, easy=${finalRatings.easy}`);
-        
         await updateSessionStatistics(sessionStats.id, {
           totalReviewed: finalTotalReviewed,
           newLearned,
@@ -241,11 +351,26 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
           retention: calculateRetention(finalRatings)
         });
         
-        // Navigate to the summary page with the session ID
-        router.push({
-          pathname: '/session/summary',
-          params: { sessionId: sessionStats.id }
+        setEndedSession({
+          ayahs,
+          stats: { ...sessionStats, totalReviewed: finalTotalReviewed, ratings: finalRatings }
         });
+        
+        const remaining = completed && sessionType === 'due' ? (await getTodayDueReviews()).due : 0;
+        
+        if (remaining > 0) {
+          // Take a break before the next mini-session
+          router.push({
+            pathname: '/session/break',
+            params: { sessionId: sessionStats.id }
+          });
+        } else {
+          // Navigate to the summary page with the session ID
+          router.push({
+            pathname: '/session/summary',
+            params: { sessionId: sessionStats.id }
+          });
+        }
       }
       
       // Reset session state
@@ -279,30 +404,73 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
     }
   };
   
-  // Rate the current ayah and move to the next one
-  const rateAyah = async (rating: Rating) => {
+  // Rate the current ayah and move to the next one, noting any hints it took. After a group
+  // ordering quiz, the ayahs put out of order (`misplacedIds`) are rated Again on their own;
+  // after a cloze review, the words missed are counted for weighted blanks.
+  const rateAyah = async (
+    rating: Rating,
+    hints?: number,
+    misplacedIds?: string[],
+    missedWords?: MissedWords
+  ) => {
     if (!currentAyah) return;
     
     try {
       // Calculate elapsed time for this ayah
       const elapsed = ayahStartTime ? new Date().getTime() - ayahStartTime.getTime() : 0;
       
-      // Update the ayah progress in the database
-      await updateAyahProgress(currentAyah.id, rating, elapsed);
+      // If this ayah is part of a group, all ayahs in the group get the same rating (apart from
+      // any put out of order)
+      const groupAyahs = currentAyah.testWithGroup
+        ? ayahs.filter(a => 
+            a.groupId === currentAyah.groupId && 
+            a.testWithGroup && 
+            a.id !== currentAyah.id
+          )
+        : [];
       
-      // If this ayah is part of a group, update all ayahs in the group with the same rating
-      if (currentAyah.testWithGroup) {
-        const groupAyahs = ayahs.filter(a => 
-          a.groupId === currentAyah.groupId && 
-          a.testWithGroup && 
-          a.id !== currentAyah.id
-        );
-        
-        for (const groupAyah of groupAyahs) {
-          await updateAyahProgress(groupAyah.id, rating, elapsed);
+      // Snapshot every ayah this rating will touch, along with the session counters
+      const snapshots = await Promise.all(
+        [currentAyah, ...groupAyahs].map(a => getAyahProgressById(a.id))
+      );
+      
+      // Failing a surah or juz also sends its weakest groups back for review
+      const pushedBack = !cram && rating === 1 &&
+        (currentAyah.cardType === 'surah' || currentAyah.cardType === 'juz')
+        ? (await Promise.all((await getWeakestGroups(currentAyah)).map(getAyahProgressByGroup))).flat()
+        : [];
+      
+      const undoEntry: UndoEntry = {
+        ayahIndex,
+        uniqueGroupIndex,
+        progress: [...snapshots.filter((p): p is AyahProgress => p !== null), ...pushedBack],
+        wordMistakes: missedWords ? await getWordMistakeSnapshots(missedWords) : [],
+        totalReviewed,
+        newLearned,
+        ratings: sessionStats ? { ...sessionStats.ratings } : { again: 0, hard: 0, good: 0, easy: 0 }
+      };
+      
+      // Update the ayah progress in the database, unless this is a cram session
+      if (!cram) {
+        for (const ayah of [currentAyah, ...groupAyahs]) {
+          const misplaced = misplacedIds ? misplacedIds.includes(ayah.id) : undefined;
+          await updateAyahProgress(
+            ayah.id,
+            misplaced ? 1 : rating,
+            elapsed,
+            hints,
+            misplaced,
+            sessionType === 'studyAhead'
+          );
         }
       }
       
+      if (missedWords) {
+        await recordWordMistakes(missedWords.words, missedWords.scriptType);
+      }
+      
+      setUndoStack(prev => [...prev, undoEntry]);
+      
       // Update session statistics
       let updatedRatings = { again: 0, hard: 0, good: 0, easy: 0 };
       
@@ -334,11 +502,10 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
       // This ensures we count each review interaction, not each ayah
       const newTotalReviewed = totalReviewed + 1;
       setTotalReviewed(newTotalReviewed);
-      console.debug(`Rated ayah: totalReviewed=${newTotalReviewed}, uniqueGroupIndex=${uniqueGroupIndex + 1}/${uniqueGroups.length}`);
       
-      let newLearned = currentAyah.state === 'new' ? 1 : 0;
-      if (newLearned > 0) {
-        setNewLearned(prev => prev + newLearned);
+      const learned = !cram && currentAyah.state === 'new' ? 1 : 0;
+      if (learned > 0) {
+        setNewLearned(prev => prev + learned);
       }
       
       // Check if this is the last ayah/group
@@ -348,7 +515,7 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
       if (isLastAyah || (currentAyah.testWithGroup && isLastGroup)) {
         // If this is the last ayah/group, end the session with the updated counts
         // Pass the new count and ratings directly to endSession to avoid state update delay
-        await endSession(newTotalReviewed, updatedRatings);
+        await endSession(newTotalReviewed, updatedRatings, true);
       } else {
         // Otherwise, move to the next ayah or group
         goToNextAyah();
@@ -358,14 +525,105 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
     }
   };
   
+  // Undo the most recent rating: restore the ayahs and counters and go back to that card,
+  // reopening the session if that rating ended it
+  const undoLastRating = async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    
+    try {
+      await saveAyahProgress(entry.progress, entry.wordMistakes);
+      
+      setUndoStack(prev => prev.slice(0, -1));
+      setTotalReviewed(entry.totalReviewed);
+      setNewLearned(entry.newLearned);
+      
+      if (endedSession) {
+        // The session's statistics were saved when it ended, so take the rating back out
+        await updateSessionStatistics(endedSession.stats.id, {
+          totalReviewed: entry.totalReviewed,
+          newLearned: entry.newLearned,
+          reviewTime: elapsedTime,
+          ratings: entry.ratings,
+          retention: calculateRetention(entry.ratings)
+        });
+        
+        setAyahs(endedSession.ayahs);
+        setSessionStats({
+          ...endedSession.stats,
+          ratings: entry.ratings
+        });
+        setEndedSession(null);
+        setIsActive(true);
+        resumeSession();
+      } else if (sessionStats) {
+        setSessionStats({
+          ...sessionStats,
+          ratings: entry.ratings
+        });
+      }
+      
+      setUniqueGroupIndex(entry.uniqueGroupIndex);
+      setAyahIndex(entry.ayahIndex);
+      
+      if (endedSession) {
+        router.replace('/session/review');
+      }
+    } catch (err) {
+      console.error('Error undoing rating:', err);
+    }
+  };
+  
+  // Take the current ayah (or its group, when tested together) out of rotation and
+  // drop it from this session without rating it
+  const removeCurrentFromSession = async (action: 'suspend' | 'bury') => {
+    if (!currentAyah) return;
+    
+    try {
+      const unitId = currentAyah.testWithGroup ? currentAyah.groupId : currentAyah.id;
+      
+      // Buried until the start of the next study day
+      const tomorrow = addDays(
+        getStudyDayStart(new Date(), settings?.dayStartHour ?? DEFAULT_DAY_START_HOUR),
+        1
+      );
+      
+      if (currentAyah.testWithGroup) {
+        if (action === 'suspend') {
+          await setGroupSuspended(currentAyah.groupId, true);
+        } else {
+          await setGroupBuriedUntil(currentAyah.groupId, tomorrow);
+        }
+      } else if (action === 'suspend') {
+        await setAyahsSuspended([currentAyah.id], true);
+      } else {
+        await setAyahsBuriedUntil([currentAyah.id], tomorrow);
+      }
+      
+      // The next unit slides into the current position
+      const remainingAyahs = ayahs.filter(a => (a.testWithGroup ? a.groupId : a.id) !== unitId);
+      
+      if (ayahIndex >= remainingAyahs.length) {
+        await endSession(undefined, undefined, true);
+      } else {
+        setAyahs(remainingAyahs);
+      }
+    } catch (err) {
+      console.error(`Error trying to ${action} ayah:`, err);
+    }
+  };
+  
+  // Suspend the current ayah or group until it's unsuspended
+  const suspendCurrentAyah = () => removeCurrentFromSession('suspend');
+  
+  // Bury the current ayah or group until tomorrow
+  const buryCurrentAyah = () => removeCurrentFromSession('bury');
+  
   // Move to the next ayah or group
   const goToNextAyah = () => {
-    console.debug(`goToNextAyah: ayahIndex=${ayahIndex}, uniqueGroupIndex=${uniqueGroupIndex}, totalGroups=${uniqueGroups.length}`);
-    
     // If we're at the end of the ayahs, don't do anything
     // The rateAyah function will handle ending the session
     if (ayahIndex >= ayahs.length - 1) {
-      console.debug(`At end of ayahs, not moving to next ayah`);
       return;
     }
     
@@ -383,27 +641,22 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
         );
         
         if (nextGroupIndex !== -1) {
-          console.debug(`Moving to next group: ${uniqueGroupIndex + 1} -> ${uniqueGroupIndex + 2}, ayahIndex: ${ayahIndex} -> ${nextGroupIndex}`);
           setAyahIndex(nextGroupIndex);
         } else {
           // Fallback to just incrementing the index
-          console.debug(`Could not find next group ayah, incrementing index: ${ayahIndex} -> ${ayahIndex + 1}`);
           setAyahIndex(ayahIndex + 1);
         }
       } else {
         // We're at the end of the groups, don't do anything
         // The rateAyah function will handle ending the session
-        console.debug(`At end of groups, not moving to next group`);
         return;
       }
     } else {
       // For non-grouped ayahs, just move to the next one
-      console.debug(`Moving to next ayah: ${ayahIndex} -> ${ayahIndex + 1}`);
       setAyahIndex(ayahIndex + 1);
       
       // Also update the group index if needed
       if (uniqueGroupIndex < uniqueGroups.length - 1) {
-        console.debug(`Updating group index: ${uniqueGroupIndex} -> ${uniqueGroupIndex + 1}`);
         setUniqueGroupIndex(uniqueGroupIndex + 1);
       }
     }
@@ -429,6 +682,8 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
     setElapsedTime(0);
     setUniqueGroups([]);
     setUniqueGroupIndex(-1);
+    setUndoStack([]);
+    setEndedSession(null);
   };
   
   // Calculate retention rate
@@ -448,6 +703,9 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
     ayahIndex,
     ayahs,
     sessionStats,
+    sessionType,
+    cram,
+    sessionReviewMode,
     totalReviewed,
     newLearned,
     startTime,
@@ -457,8 +715,13 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
     pauseSession,
     resumeSession,
     rateAyah,
+    undoLastRating,
+    canUndo: undoStack.length > 0,
+    suspendCurrentAyah,
+    buryCurrentAyah,
     goToNextAyah,
     resetSession,
+    setSessionReviewMode,
     loading,
     error,
     // Add group-related values
@@ -0,0 +1,190 @@
+import React, { ReactNode } from 'react';
+import { act, renderHook } from '@testing-library/react-native';
+import { router } from 'expo-router';
+import { SessionProvider, useSession } from '../SessionContext';
+import {
+  createSessionStatistics,
+  getSessionAyahs,
+  getTodayDueReviews,
+  updateSessionStatistics
+} from '../../services/scheduler';
+import { getAyahProgressById, saveAyahProgress, updateAyahProgress } from '../../services/database/ayahProgress';
+import {
+  getWordMistakeSnapshots,
+  MissedWords,
+  recordWordMistakes,
+  WordMistakeSnapshot
+} from '../../services/database/wordMistakes';
+import { AyahProgress, SessionStatistics } from '../../types';
+
+jest.mock('expo-router', () => ({
+  router: { push: jest.fn(), replace: jest.fn() }
+}));
+jest.mock('../SettingsContext', () => ({
+  useSettings: () => ({ settings: { audioEnabled: false, maxReviewsPerSession: 20, dayStartHour: 0 } })
+}));
+jest.mock('../../services/scheduler', () => ({
+  createSessionStatistics: jest.fn(),
+  getCustomSessionAyahs: jest.fn(),
+  getLeechSessionAyahs: jest.fn(),
+  getSessionAyahs: jest.fn(),
+  getStudyAheadAyahs: jest.fn(),
+  getTodayDueReviews: jest.fn(),
+  updateSessionStatistics: jest.fn()
+}));
+jest.mock('../../services/database/ayahProgress', () => ({
+  getAyahProgressByGroup: jest.fn(),
+  getAyahProgressById: jest.fn(),
+  saveAyahProgress: jest.fn(),
+  setAyahsBuriedUntil: jest.fn(),
+  setAyahsSuspended: jest.fn(),
+  updateAyahProgress: jest.fn()
+}));
+jest.mock('../../services/database/consolidation', () => ({
+  getWeakestGroups: jest.fn(),
+  syncConsolidationCards: jest.fn()
+}));
+jest.mock('../../services/database/freeze', () => ({
+  getActiveFreeze: jest.fn().mockResolvedValue(null)
+}));
+jest.mock('../../services/database/wordMistakes', () => ({
+  getWordMistakeSnapshots: jest.fn(),
+  recordWordMistakes: jest.fn()
+}));
+jest.mock('../../utils/groupings', () => ({
+  setGroupBuriedUntil: jest.fn(),
+  setGroupSuspended: jest.fn()
+}));
+jest.mock('../../services/quran/api', () => ({
+  preloadSessionAudio: jest.fn()
+}));
+
+const ayah = (ayahNumber: number): AyahProgress => ({
+  id: `1:${ayahNumber}`,
+  cardType: 'ayah',
+  surahNumber: 1,
+  ayahNumber,
+  groupId: `group-1:${ayahNumber}`,
+  recallScore: 0,
+  lastReviewed: null,
+  nextReview: null,
+  easeFactor: 2.5,
+  stability: 0,
+  difficulty: 0,
+  lapses: 0,
+  state: 'new',
+  interval: 0,
+  learningStep: 0,
+  createdAt: new Date(),
+  history: [],
+  testWithGroup: false,
+  groupPosition: 1,
+  leech: false,
+  suspended: false,
+  buriedUntil: null,
+  promptAyahNumber: null,
+  juzNumber: null
+});
+
+const stats: SessionStatistics = {
+  id: 'session-1',
+  date: new Date(),
+  totalReviewed: 0,
+  newLearned: 0,
+  reviewTime: 0,
+  ratings: { again: 0, hard: 0, good: 0, easy: 0 },
+  retention: 0,
+  studyAhead: false
+};
+
+const missedWords: MissedWords = {
+  words: [{ surahNumber: 1, ayahNumber: 1, wordIndex: 2 }],
+  scriptType: 'uthmani'
+};
+
+const wordSnapshot: WordMistakeSnapshot = {
+  surahNumber: 1,
+  ayahNumber: 1,
+  wordIndex: 2,
+  scriptType: 'uthmani',
+  previous: null
+};
+
+const wrapper = ({ children }: { children: ReactNode }) => <SessionProvider>{children}</SessionProvider>;
+
+// Start a due session over the given ayahs
+const startSession = async (ayahs: AyahProgress[]) => {
+  (getSessionAyahs as jest.Mock).mockResolvedValue(ayahs);
+  const hook = renderHook(() => useSession(), { wrapper });
+
+  await act(async () => {
+    await hook.result.current.startSession('due');
+  });
+
+  return hook;
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useFakeTimers();
+  (createSessionStatistics as jest.Mock).mockResolvedValue(stats);
+  (getTodayDueReviews as jest.Mock).mockResolvedValue({ due: 0 });
+  (getAyahProgressById as jest.Mock).mockImplementation(async (id: string) => ({ ...ayah(1), id }));
+  (getWordMistakeSnapshots as jest.Mock).mockResolvedValue([wordSnapshot]);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('undoLastRating', () => {
+  it('restores the ayah and the word misses its rating recorded', async () => {
+    const { result } = await startSession([ayah(1), ayah(2)]);
+
+    await act(async () => {
+      await result.current.rateAyah(3, undefined, undefined, missedWords);
+    });
+
+    expect(updateAyahProgress).toHaveBeenCalledWith('1:1', 3, expect.any(Number), undefined, undefined, false);
+    expect(recordWordMistakes).toHaveBeenCalledWith(missedWords.words, 'uthmani');
+    expect(result.current.currentAyah?.id).toBe('1:2');
+
+    await act(async () => {
+      await result.current.undoLastRating();
+    });
+
+    expect(saveAyahProgress).toHaveBeenCalledWith([expect.objectContaining({ id: '1:1' })], [wordSnapshot]);
+    expect(result.current.currentAyah?.id).toBe('1:1');
+    expect(result.current.totalReviewed).toBe(0);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('reopens a session that its last rating ended', async () => {
+    const { result } = await startSession([ayah(1)]);
+
+    await act(async () => {
+      await result.current.rateAyah(1);
+    });
+
+    expect(result.current.isActive).toBe(false);
+    expect(router.push).toHaveBeenCalledWith(expect.objectContaining({ pathname: '/session/summary' }));
+    expect(updateSessionStatistics).toHaveBeenLastCalledWith('session-1', expect.objectContaining({
+      totalReviewed: 1,
+      ratings: { again: 1, hard: 0, good: 0, easy: 0 }
+    }));
+
+    await act(async () => {
+      await result.current.undoLastRating();
+    });
+
+    expect(saveAyahProgress).toHaveBeenCalledWith([expect.objectContaining({ id: '1:1' })], []);
+    expect(updateSessionStatistics).toHaveBeenLastCalledWith('session-1', expect.objectContaining({
+      totalReviewed: 0,
+      ratings: { again: 0, hard: 0, good: 0, easy: 0 }
+    }));
+    expect(router.replace).toHaveBeenCalledWith('/session/review');
+    expect(result.current.isActive).toBe(true);
+    expect(result.current.currentAyah?.id).toBe('1:1');
+    expect(result.current.sessionStats?.ratings.again).toBe(0);
+  });
+});
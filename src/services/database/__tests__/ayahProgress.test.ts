@@ -0,0 +1,325 @@
+import { AyahProgress, FreezePeriod, FreezeResumeMode, ReviewEntry } from '../../../types';
+import { addDays, getStudyDayStart } from '../../../utils/studyDay';
+import { DEFAULT_PARAMETERS, getFuzzRange, nextInterval, replayHistory } from '../../fsrs';
+import { executeQuery, executeTransaction, executeUpdate } from '../index';
+import { getSettings, settingsToFSRSParameters } from '../settings';
+import { getFreezePeriods } from '../freeze';
+import { rescheduleAllAyahs, sortDueAyahs, updateAyahProgress } from '../ayahProgress';
+
+jest.mock('uuid', () => ({ v4: () => 'id' }));
+jest.mock('../index', () => ({
+  executeQuery: jest.fn(),
+  executeUpdate: jest.fn(),
+  executeTransaction: jest.fn()
+}));
+jest.mock('../settings', () => ({
+  getSettings: jest.fn(),
+  settingsToFSRSParameters: jest.fn()
+}));
+jest.mock('../freeze', () => ({
+  getFreezePeriods: jest.fn()
+}));
+
+const mockExecuteQuery = executeQuery as jest.Mock;
+const mockExecuteUpdate = executeUpdate as jest.Mock;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 0, 10, 12);
+
+const ayah = (id: string, overrides: Partial<AyahProgress> = {}): AyahProgress => ({
+  id,
+  cardType: 'ayah',
+  surahNumber: 1,
+  ayahNumber: 1,
+  groupId: `group-${id}`,
+  recallScore: 0,
+  lastReviewed: null,
+  nextReview: null,
+  easeFactor: 2.5,
+  stability: 0,
+  difficulty: 0,
+  lapses: 0,
+  state: 'new',
+  interval: 0,
+  learningStep: 0,
+  createdAt: NOW,
+  history: [],
+  testWithGroup: false,
+  groupPosition: 1,
+  leech: false,
+  suspended: false,
+  buriedUntil: null,
+  promptAyahNumber: null,
+  juzNumber: null,
+  ...overrides
+});
+
+// A review due `overdueDays` days ago, on an interval of `interval` days
+const review = (id: string, ayahNumber: number, stability: number, interval: number, overdueDays: number) =>
+  ayah(id, {
+    ayahNumber,
+    state: 'review',
+    stability,
+    difficulty: 5,
+    interval,
+    lastReviewed: new Date(NOW.getTime() - (interval + overdueDays) * DAY_MS),
+    nextReview: new Date(NOW.getTime() - overdueDays * DAY_MS)
+  });
+
+const ids = (ayahs: AyahProgress[]) => ayahs.map(progress => progress.id);
+
+describe('sortDueAyahs', () => {
+  // Weak and overdue by a third of its interval; strong and overdue by a whole interval
+  const weak = review('weak', 3, 2, 3, 1);
+  const strong = review('strong', 2, 50, 5, 5);
+  const fresh = review('fresh', 1, 20, 20, 0);
+
+  it('puts new, learning and relearning cards ahead of reviews', () => {
+    const sorted = sortDueAyahs(
+      [fresh, ayah('relearning', { state: 'relearning' }), ayah('new'), ayah('learning', { state: 'learning' })],
+      'retrievability',
+      NOW
+    );
+
+    expect(ids(sorted)).toEqual(['new', 'learning', 'relearning', 'fresh']);
+  });
+
+  it('puts the reviews least likely to be recalled first', () => {
+    expect(ids(sortDueAyahs([fresh, strong, weak], 'retrievability', NOW))).toEqual(['weak', 'fresh', 'strong']);
+  });
+
+  it('puts the reviews most overdue for their interval first', () => {
+    expect(ids(sortDueAyahs([weak, fresh, strong], 'overdue', NOW))).toEqual(['strong', 'weak', 'fresh']);
+  });
+
+  it('keeps mushaf order', () => {
+    expect(ids(sortDueAyahs([weak, strong, fresh], 'mushaf', NOW))).toEqual(['fresh', 'strong', 'weak']);
+  });
+
+  it('shuffles reviews the same way all day', () => {
+    const reviews = Array.from({ length: 10 }, (_, i) => review(`${i}`, i + 1, 10, 10, 0));
+    const morning = sortDueAyahs(reviews, 'random', new Date(2025, 0, 10, 9));
+
+    expect(ids(sortDueAyahs([...reviews].reverse(), 'random', new Date(2025, 0, 10, 21)))).toEqual(ids(morning));
+  });
+});
+
+// The same ayah as a stored row (dates as ISO strings, flags as 0/1)
+const toRow = (progress: AyahProgress) => ({
+  ...progress,
+  lastReviewed: progress.lastReviewed?.toISOString() ?? null,
+  nextReview: progress.nextReview?.toISOString() ?? null,
+  createdAt: progress.createdAt.toISOString(),
+  buriedUntil: null,
+  history: JSON.stringify(progress.history),
+  testWithGroup: progress.testWithGroup ? 1 : 0,
+  leech: progress.leech ? 1 : 0,
+  suspended: progress.suspended ? 1 : 0
+});
+
+// Stored ayahs, and the units already due on each day for load balancing
+const mockDatabase = (ayahs: AyahProgress[], dueRows: { nextReview: string; unitId: string }[] = []) => {
+  mockExecuteQuery.mockImplementation(async (sql: string) => {
+    if (sql === 'SELECT * FROM ayah_progress') return ayahs.map(toRow);
+    if (sql.includes('AS unitId')) return dueRows;
+    return [];
+  });
+};
+
+// The columns last written for an ayah
+const saved = (id: string) => {
+  const call = [...mockExecuteUpdate.mock.calls].reverse().find(([, params]) => params[params.length - 1] === id);
+  if (!call) return null;
+
+  const [, params] = call;
+  return {
+    nextReview: params[2] ? new Date(params[2]) : null,
+    state: params[7],
+    interval: params[8],
+    learningStep: params[9],
+    leech: params[11]
+  };
+};
+
+describe('rescheduleAllAyahs', () => {
+  const history: ReviewEntry[] = [
+    { date: addDays(NOW, -60), rating: 3 },
+    { date: addDays(NOW, -57), rating: 3 },
+    { date: addDays(NOW, -45), rating: 3 }
+  ];
+  const lastReviewed = addDays(NOW, -45);
+  const reviewed = ayah('1:1', {
+    state: 'review',
+    stability: 1,
+    difficulty: 5,
+    interval: 1,
+    lastReviewed,
+    nextReview: addDays(lastReviewed, 1),
+    history
+  });
+
+  // Where the card falls due with no fuzz, load balancing or freezes
+  const targetInterval = nextInterval(replayHistory(history, DEFAULT_PARAMETERS).stability, 0.9);
+  const plainDue = addDays(getStudyDayStart(lastReviewed, 0), targetInterval);
+
+  const freeze = (startDay: number, resumedDay: number, resumeMode: FreezeResumeMode): FreezePeriod => ({
+    id: 'freeze',
+    startDate: addDays(getStudyDayStart(lastReviewed, 0), startDay),
+    endDate: addDays(getStudyDayStart(lastReviewed, 0), resumedDay),
+    resumedAt: addDays(getStudyDayStart(lastReviewed, 0), resumedDay),
+    resumeMode,
+    createdAt: lastReviewed
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (executeTransaction as jest.Mock).mockImplementation(async (task: () => Promise<void>) => task());
+    (getSettings as jest.Mock).mockResolvedValue({ dayStartHour: 0, loadBalancing: false });
+    (settingsToFSRSParameters as jest.Mock).mockReturnValue({ ...DEFAULT_PARAMETERS, enableFuzz: false });
+    (getFreezePeriods as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('writes nothing on a dry run', async () => {
+    mockDatabase([reviewed]);
+
+    const report = await rescheduleAllAyahs(true);
+
+    expect(report).toEqual({ total: 1, earlier: 0, later: 1, unchanged: 0 });
+    expect(mockExecuteUpdate).not.toHaveBeenCalled();
+    expect(executeTransaction).not.toHaveBeenCalled();
+  });
+
+  it('reschedules cards in review from their last review', async () => {
+    mockDatabase([reviewed]);
+
+    await rescheduleAllAyahs();
+
+    expect(saved('1:1')).toEqual({
+      nextReview: plainDue,
+      state: 'review',
+      interval: targetInterval,
+      learningStep: 0,
+      leech: 0
+    });
+  });
+
+  it('keeps the state, step, leech tag and due time of cards in relearning', async () => {
+    const relearning = ayah('1:2', {
+      state: 'relearning',
+      learningStep: 1,
+      lapses: 8,
+      leech: true,
+      lastReviewed: addDays(NOW, -1),
+      nextReview: NOW,
+      history: [...history, { date: addDays(NOW, -1), rating: 1 }]
+    });
+    mockDatabase([relearning]);
+
+    await rescheduleAllAyahs();
+
+    expect(saved('1:2')).toEqual({ nextReview: NOW, state: 'relearning', interval: 0, learningStep: 1, leech: 1 });
+  });
+
+  it('moves reviews to the least loaded day in the fuzz range when load balancing', async () => {
+    (getSettings as jest.Mock).mockResolvedValue({ dayStartHour: 0, loadBalancing: true });
+    const { minInterval, maxInterval } = getFuzzRange(targetInterval);
+    const dueRows = [];
+    for (let day = minInterval; day < maxInterval; day++) {
+      for (let unit = 0; unit < 3; unit++) {
+        dueRows.push({ nextReview: addDays(getStudyDayStart(lastReviewed, 0), day).toISOString(), unitId: `${day}:${unit}` });
+      }
+    }
+    mockDatabase([reviewed], dueRows);
+
+    await rescheduleAllAyahs();
+
+    expect(maxInterval).toBeGreaterThan(targetInterval);
+    expect(saved('1:1')?.interval).toBe(maxInterval);
+    expect(saved('1:1')?.nextReview).toEqual(addDays(getStudyDayStart(lastReviewed, 0), maxInterval));
+  });
+
+  it('shifts reviews by the days paused in a freeze since the last review', async () => {
+    (getFreezePeriods as jest.Mock).mockResolvedValue([freeze(2, 7, 'shift')]);
+    mockDatabase([reviewed]);
+
+    await rescheduleAllAyahs();
+
+    expect(saved('1:1')?.nextReview).toEqual(addDays(plainDue, 5));
+  });
+
+  it('keeps the catch-up day a spread resume gave an overdue review', async () => {
+    const resumedDay = targetInterval + 10;
+    const catchUp = addDays(getStudyDayStart(lastReviewed, 0), resumedDay + 2);
+    (getFreezePeriods as jest.Mock).mockResolvedValue([freeze(2, resumedDay, 'spread')]);
+    mockDatabase([{ ...reviewed, nextReview: catchUp }]);
+
+    await rescheduleAllAyahs();
+
+    expect(saved('1:1')?.nextReview).toEqual(catchUp);
+  });
+
+  it('leaves reviews due after a spread resume where they fall', async () => {
+    (getFreezePeriods as jest.Mock).mockResolvedValue([freeze(2, 4, 'spread')]);
+    mockDatabase([reviewed]);
+
+    await rescheduleAllAyahs();
+
+    expect(saved('1:1')?.nextReview).toEqual(plainDue);
+  });
+});
+
+describe('leeches', () => {
+  // A card in review that has lapsed `lapses` times
+  const lapsed = (lapses: number) => ayah('1:1', {
+    state: 'review',
+    stability: 5,
+    difficulty: 8,
+    lapses,
+    interval: 5,
+    lastReviewed: addDays(NOW, -5),
+    nextReview: NOW,
+    history: [{ date: addDays(NOW, -5), rating: 3 }]
+  });
+
+  const rateAgain = async (progress: AyahProgress, leechAction: 'suspend' | 'relearn' = 'suspend') => {
+    (getSettings as jest.Mock).mockResolvedValue({ dayStartHour: 0, loadBalancing: false, leechThreshold: 4, leechAction });
+    mockExecuteQuery.mockImplementation(async (sql: string) =>
+      sql.startsWith('SELECT * FROM ayah_progress WHERE id = ?') ? [toRow(progress)] : []
+    );
+
+    return updateAyahProgress(progress.id, 1);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (settingsToFSRSParameters as jest.Mock).mockReturnValue({ ...DEFAULT_PARAMETERS, enableFuzz: false });
+  });
+
+  it('leaves cards below the lapse threshold alone', async () => {
+    const updated = await rateAgain(lapsed(2));
+
+    expect(updated).toMatchObject({ lapses: 3, leech: false, suspended: false, state: 'relearning' });
+  });
+
+  it('tags a leech and suspends it when it reaches the lapse threshold', async () => {
+    const updated = await rateAgain(lapsed(3));
+
+    expect(updated).toMatchObject({ lapses: 4, leech: true, suspended: true });
+    expect(saved('1:1')?.leech).toBe(1);
+  });
+
+  it('sends a leech back through the full learning steps when set to re-learn', async () => {
+    const before = Date.now();
+    const updated = await rateAgain(lapsed(3), 'relearn');
+
+    expect(updated).toMatchObject({ lapses: 4, leech: true, suspended: false, state: 'learning', learningStep: 0, interval: 0 });
+    expect(updated.nextReview!.getTime() - before)
+      .toBeGreaterThanOrEqual(DEFAULT_PARAMETERS.learningSteps[0] * 60 * 1000);
+    expect(saved('1:1')).toMatchObject({ state: 'learning', learningStep: 0, interval: 0 });
+  });
+
+  it('acts again every half threshold after', async () => {
+    expect(await rateAgain({ ...lapsed(4), leech: true })).toMatchObject({ lapses: 5, suspended: false });
+    expect(await rateAgain({ ...lapsed(5), leech: true })).toMatchObject({ lapses: 6, suspended: true });
+  });
+});
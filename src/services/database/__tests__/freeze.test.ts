@@ -0,0 +1,140 @@
+import { FreezePeriod } from '../../../types';
+import { addDays } from '../../../utils/studyDay';
+import { executeQuery, executeTransaction, executeUpdate } from '../index';
+import { getSettings } from '../settings';
+import { resumeExpiredFreeze, resumeFromFreeze } from '../freeze';
+
+jest.mock('uuid', () => ({ v4: () => 'id' }));
+jest.mock('../index', () => ({
+  executeQuery: jest.fn(),
+  executeUpdate: jest.fn(),
+  executeTransaction: jest.fn()
+}));
+jest.mock('../settings', () => ({
+  getSettings: jest.fn()
+}));
+jest.mock('../ayahProgress', () => ({
+  CARD_TABLES: ['ayah_progress']
+}));
+
+const mockExecuteQuery = executeQuery as jest.Mock;
+const mockExecuteUpdate = executeUpdate as jest.Mock;
+
+// Study day n (starting at midnight), at the given hour. The freeze runs from day 0 up to day 10.
+const day = (n: number, hour: number = 0) => addDays(new Date(2025, 0, 10, hour), n);
+
+const period: FreezePeriod = {
+  id: 'freeze',
+  startDate: day(0),
+  endDate: day(10),
+  resumedAt: null,
+  resumeMode: null,
+  createdAt: day(-1)
+};
+
+// Pending freezes and cards with a due date, as stored
+const mockDatabase = (cards: { id: string; nextReview: Date }[], pending: FreezePeriod[] = []) => {
+  mockExecuteQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM freeze_periods')) {
+      return pending.map(freeze => ({
+        ...freeze,
+        startDate: freeze.startDate.toISOString(),
+        endDate: freeze.endDate.toISOString(),
+        resumedAt: null,
+        createdAt: freeze.createdAt.toISOString()
+      }));
+    }
+    if (sql.includes('FROM ayah_progress')) {
+      return cards.map(card => ({ id: card.id, nextReview: card.nextReview.toISOString() }));
+    }
+    return [];
+  });
+};
+
+// New due dates written for each card, and the freeze's recorded resume
+const writes = () => {
+  const calls = mockExecuteUpdate.mock.calls;
+  const dueDates = new Map<string, Date>(
+    calls
+      .filter(([sql]) => sql.startsWith('UPDATE ayah_progress'))
+      .map(([, [nextReview, id]]) => [id, new Date(nextReview)])
+  );
+  const resume = calls.find(([sql]) => sql.startsWith('UPDATE freeze_periods'))?.[1];
+
+  return { dueDates, resumedAt: resume && new Date(resume[0]), resumeMode: resume?.[1] };
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (executeTransaction as jest.Mock).mockImplementation(async (task: () => Promise<void>) => task());
+  (getSettings as jest.Mock).mockResolvedValue({ dayStartHour: 0, freezeResumeMode: 'shift', catchUpDays: 3 });
+});
+
+describe('resumeFromFreeze', () => {
+  it('shifts due dates by the days paused when resumed early', async () => {
+    mockDatabase([{ id: 'a', nextReview: day(2) }, { id: 'b', nextReview: day(20) }]);
+
+    const moved = await resumeFromFreeze(period, 'shift', 3, day(4, 9));
+
+    expect(moved).toBe(2);
+    expect(writes().dueDates).toEqual(new Map([['a', day(6)], ['b', day(24)]]));
+    expect(writes()).toMatchObject({ resumedAt: day(4, 9), resumeMode: 'shift' });
+  });
+
+  it('only shifts by the planned length when resumed late', async () => {
+    mockDatabase([{ id: 'a', nextReview: day(2) }]);
+
+    await resumeFromFreeze(period, 'shift', 3, day(15, 9));
+
+    expect(writes().dueDates.get('a')).toEqual(day(12));
+    expect(writes().resumedAt).toEqual(day(10));
+  });
+
+  it('spreads the backlog over the catch-up days, most overdue first', async () => {
+    mockDatabase([
+      { id: 'c', nextReview: day(3) },
+      { id: 'a', nextReview: day(1) },
+      { id: 'd', nextReview: day(4) },
+      { id: 'b', nextReview: day(2) }
+    ]);
+
+    const moved = await resumeFromFreeze(period, 'spread', 2, day(4, 9));
+
+    expect(moved).toBe(4);
+    expect(writes().dueDates).toEqual(new Map([['a', day(4)], ['b', day(4)], ['c', day(5)], ['d', day(5)]]));
+    expect(mockExecuteQuery.mock.calls[0][1]).toEqual([day(5).toISOString()]);
+  });
+
+  it('spreads from the day of a late resume but records the planned end', async () => {
+    mockDatabase([{ id: 'a', nextReview: day(1) }, { id: 'b', nextReview: day(2) }]);
+
+    await resumeFromFreeze(period, 'spread', 2, day(15, 9));
+
+    expect(writes().dueDates).toEqual(new Map([['a', day(15)], ['b', day(16)]]));
+    expect(writes()).toMatchObject({ resumedAt: day(10), resumeMode: 'spread' });
+  });
+});
+
+describe('resumeExpiredFreeze', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('leaves a freeze that has not reached its end', async () => {
+    jest.useFakeTimers({ now: day(5, 9) });
+    mockDatabase([{ id: 'a', nextReview: day(2) }], [period]);
+
+    expect(await resumeExpiredFreeze()).toBe(false);
+    expect(mockExecuteUpdate).not.toHaveBeenCalled();
+  });
+
+  it('resumes an expired freeze with the catch-up settings', async () => {
+    jest.useFakeTimers({ now: day(12, 9) });
+    (getSettings as jest.Mock).mockResolvedValue({ dayStartHour: 0, freezeResumeMode: 'spread', catchUpDays: 1 });
+    mockDatabase([{ id: 'a', nextReview: day(2) }, { id: 'b', nextReview: day(3) }], [period]);
+
+    expect(await resumeExpiredFreeze()).toBe(true);
+    expect(writes().dueDates).toEqual(new Map([['a', day(12)], ['b', day(12)]]));
+    expect(writes()).toMatchObject({ resumedAt: day(10), resumeMode: 'spread' });
+  });
+});
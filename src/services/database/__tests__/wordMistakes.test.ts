@@ -0,0 +1,51 @@
+import { executeQuery, executeUpdate } from '../index';
+import { getWordMistakeSnapshots, restoreWordMistakes } from '../wordMistakes';
+
+jest.mock('../index', () => ({
+  executeQuery: jest.fn(),
+  executeUpdate: jest.fn()
+}));
+
+const mockExecuteQuery = executeQuery as jest.Mock;
+const mockExecuteUpdate = executeUpdate as jest.Mock;
+
+const missed = {
+  words: [
+    { surahNumber: 1, ayahNumber: 2, wordIndex: 0 },
+    { surahNumber: 1, ayahNumber: 2, wordIndex: 3 }
+  ],
+  scriptType: 'uthmani'
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('word mistake snapshots', () => {
+  it('notes which words had misses before', async () => {
+    mockExecuteQuery
+      .mockResolvedValueOnce([{ misses: 2, lastMissed: '2025-01-09T10:00:00.000Z' }])
+      .mockResolvedValueOnce([]);
+
+    const snapshots = await getWordMistakeSnapshots(missed);
+
+    expect(snapshots.map(snapshot => snapshot.previous)).toEqual([
+      { misses: 2, lastMissed: '2025-01-09T10:00:00.000Z' },
+      null
+    ]);
+  });
+
+  it('puts earlier counts back and deletes words that had none', async () => {
+    mockExecuteQuery
+      .mockResolvedValueOnce([{ misses: 2, lastMissed: '2025-01-09T10:00:00.000Z' }])
+      .mockResolvedValueOnce([]);
+
+    await restoreWordMistakes(await getWordMistakeSnapshots(missed));
+
+    expect(mockExecuteUpdate).toHaveBeenCalledTimes(2);
+    expect(mockExecuteUpdate.mock.calls[0][0]).toContain('UPDATE word_mistakes SET misses = ?');
+    expect(mockExecuteUpdate.mock.calls[0][1]).toEqual([2, '2025-01-09T10:00:00.000Z', 1, 2, 'uthmani', 0]);
+    expect(mockExecuteUpdate.mock.calls[1][0]).toContain('DELETE FROM word_mistakes');
+    expect(mockExecuteUpdate.mock.calls[1][1]).toEqual([1, 2, 'uthmani', 3]);
+  });
+});
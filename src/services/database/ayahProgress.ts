@@ -1,7 +1,39 @@
 import { v4 as uuidv4 } from 'uuid';
-import { executeQuery, executeUpdate } from './index';
-import { AyahProgress, ReviewEntry, Rating } from '../../types';
-import { initializeCard, scheduleReview } from '../fsrs';
+import { executeQuery, executeTransaction, executeUpdate } from './index';
+import { AyahProgress, FSRSCard, ReviewEntry, Rating, ReviewSortOrder } from '../../types';
+import {
+  applyFuzz,
+  balanceInterval,
+  calculateRetention,
+  getFuzzRange,
+  initializeCard,
+  nextInterval,
+  replayHistory,
+  scheduleReview,
+  seededRandom
+} from '../fsrs';
+import { getSettings, settingsToFSRSParameters } from './settings';
+import { pushBackWeakestGroups } from './consolidation';
+import { getFreezePeriods } from './freeze';
+import { restoreWordMistakes, WordMistakeSnapshot } from './wordMistakes';
+import {
+  addDays,
+  DEFAULT_DAY_START_HOUR,
+  getStudyDayKey,
+  getStudyDayStart,
+  studyDaysBetween
+} from '../../utils/studyDay';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SQL condition on ayah_progress that leaves out suspended and buried ayahs, and ayahs
+// whose group is suspended or buried. Bind the current time (ISO string) to both placeholders.
+export const AVAILABLE_AYAH_CONDITION = `suspended = 0
+  AND (buriedUntil IS NULL OR buriedUntil <= ?)
+  AND groupId NOT IN (SELECT id FROM ayah_groups WHERE suspended = 1 OR buriedUntil > ?)`;
+
+// Tables holding each kind of card (ayahs, link cards, surah and juz cards)
+export const CARD_TABLES = ['ayah_progress', 'link_cards', 'consolidation_cards'];
 
 // Get all ayah progress
 export const getAllAyahProgress = async (): Promise<AyahProgress[]> => {
@@ -26,6 +58,31 @@ export const getAyahProgress = async (
   return mapRowToAyahProgress(rows[0]);
 };
 
+// Get ayah progress (or a link or consolidation card) by ID
+export const getAyahProgressById = async (id: string): Promise<AyahProgress | null> => {
+  for (const table of CARD_TABLES) {
+    const rows = await executeQuery(`SELECT * FROM ${table} WHERE id = ?`, [id]);
+    
+    if (rows.length > 0) {
+      return mapRowToAyahProgress(rows[0]);
+    }
+  }
+  
+  return null;
+};
+
+// Get all link cards
+export const getAllLinkCards = async (): Promise<AyahProgress[]> => {
+  const rows = await executeQuery('SELECT * FROM link_cards');
+  return rows.map(mapRowToAyahProgress);
+};
+
+// Get all surah and juz consolidation cards
+export const getAllConsolidationCards = async (): Promise<AyahProgress[]> => {
+  const rows = await executeQuery('SELECT * FROM consolidation_cards');
+  return rows.map(mapRowToAyahProgress);
+};
+
 // Get ayah progress by group ID
 export const getAyahProgressByGroup = async (groupId: string): Promise<AyahProgress[]> => {
   const rows = await executeQuery(
@@ -36,28 +93,130 @@ export const getAyahProgressByGroup = async (groupId: string): Promise<AyahProgr
   return rows.map(mapRowToAyahProgress);
 };
 
-// Get due ayahs for review
-export const getDueAyahs = async (limit?: number): Promise<AyahProgress[]> => {
-  const now = new Date().toISOString();
+// Get due ayahs (and link and consolidation cards) for review, with learning cards first and reviews in the chosen
+// order. Learning steps are due at their exact time; reviews are due for the whole study day.
+// New link cards wait until both of their groups have graduated to review.
+export const getDueAyahs = async (
+  limit?: number,
+  sortOrder: ReviewSortOrder = 'retrievability',
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): Promise<AyahProgress[]> => {
+  const now = new Date();
+  const dayEnd = addDays(getStudyDayStart(now, dayStartHour), 1);
   
-  const query = `
-    SELECT * FROM ayah_progress 
-    WHERE nextReview IS NULL OR nextReview <= ? 
-    ORDER BY 
-      CASE 
-        WHEN state = 'new' THEN 1 
-        WHEN state = 'learning' THEN 2 
-        WHEN state = 'relearning' THEN 3 
-        ELSE 4 
-      END,
-      nextReview
-    ${limit ? 'LIMIT ?' : ''}
-  `;
+  const rows = await executeQuery(
+    `SELECT * FROM ayah_progress 
+     WHERE ${AVAILABLE_AYAH_CONDITION}
+       AND (nextReview IS NULL OR nextReview <= ?
+         OR (state = 'review' AND nextReview < ?))`,
+    [now.toISOString(), now.toISOString(), now.toISOString(), dayEnd.toISOString()]
+  );
   
-  const params = limit ? [now, limit] : [now];
-  const rows = await executeQuery(query, params);
+  const linkRows = await executeQuery(
+    `SELECT * FROM link_cards 
+     WHERE ${AVAILABLE_AYAH_CONDITION}
+       AND (nextReview IS NULL OR nextReview <= ?
+         OR (state = 'review' AND nextReview < ?))
+       AND (state != 'new' OR NOT EXISTS (
+         SELECT 1 FROM ayah_progress p
+         WHERE p.groupId IN (link_cards.fromGroupId, link_cards.groupId) AND p.state != 'review'
+       ))`,
+    [now.toISOString(), now.toISOString(), now.toISOString(), dayEnd.toISOString()]
+  );
   
-  return rows.map(mapRowToAyahProgress);
+  const consolidationRows = await executeQuery(
+    `SELECT * FROM consolidation_cards 
+     WHERE ${AVAILABLE_AYAH_CONDITION}
+       AND (nextReview IS NULL OR nextReview <= ?
+         OR (state = 'review' AND nextReview < ?))`,
+    [now.toISOString(), now.toISOString(), now.toISOString(), dayEnd.toISOString()]
+  );
+  
+  const dueAyahs = sortDueAyahs(
+    [...rows, ...linkRows, ...consolidationRows].map(mapRowToAyahProgress),
+    sortOrder,
+    now,
+    dayStartHour
+  );
+  
+  return limit ? dueAyahs.slice(0, limit) : dueAyahs;
+};
+
+// Sort due ayahs by state bucket (new, learning, relearning, review),
+// then by the chosen order within each bucket
+export const sortDueAyahs = (
+  ayahs: AyahProgress[],
+  sortOrder: ReviewSortOrder,
+  now: Date = new Date(),
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): AyahProgress[] => {
+  const stateOrder = { new: 1, learning: 2, relearning: 3, review: 4 };
+  
+  // Random order is seeded per day (and per group) so the queue is stable within a day
+  const dayKey = getStudyDayKey(now, dayStartHour);
+  
+  const sortKey = (ayah: AyahProgress): number => {
+    // New material is always introduced in mushaf order
+    if (ayah.state === 'new') {
+      return 0;
+    }
+    
+    switch (sortOrder) {
+      case 'retrievability':
+        // Least likely to be recalled first
+        return calculateRetention(progressToCard(ayah), now);
+      case 'overdue':
+        // Most overdue relative to the scheduled interval first
+        return ayah.nextReview
+          ? -(now.getTime() - ayah.nextReview.getTime()) / DAY_MS / Math.max(ayah.interval, 1)
+          : 0;
+      case 'random':
+        return seededRandom(`${ayah.testWithGroup ? ayah.groupId : ayah.id}:${dayKey}`);
+      default:
+        return 0;
+    }
+  };
+  
+  const keys = new Map(ayahs.map(ayah => [ayah.id, sortKey(ayah)]));
+  
+  return [...ayahs].sort((a, b) =>
+    stateOrder[a.state] - stateOrder[b.state] ||
+    (keys.get(a.id) || 0) - (keys.get(b.id) || 0) ||
+    // Ties (and mushaf order) fall back to surah and ayah number
+    a.surahNumber - b.surahNumber ||
+    a.ayahNumber - b.ayahNumber
+  );
+};
+
+// Count review units (groups or single ayahs) already due on each of the next `days` study days,
+// ignoring the unit being rescheduled
+export const getDueCountsByDay = async (
+  from: Date,
+  days: number,
+  excludeUnitId: string = '',
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): Promise<number[]> => {
+  const start = getStudyDayStart(from, dayStartHour);
+  const end = addDays(start, days + 1);
+  
+  const rows = await executeQuery(
+    `SELECT nextReview, CASE WHEN testWithGroup = 1 THEN groupId ELSE id END AS unitId
+     FROM ayah_progress
+     WHERE nextReview >= ? AND nextReview < ? AND ${AVAILABLE_AYAH_CONDITION}
+       AND (CASE WHEN testWithGroup = 1 THEN groupId ELSE id END) != ?`,
+    [start.toISOString(), end.toISOString(), from.toISOString(), from.toISOString(), excludeUnitId]
+  );
+  
+  const unitsByDay = Array.from({ length: days + 1 }, () => new Set<string>());
+  
+  rows.forEach(row => {
+    const day = studyDaysBetween(start, new Date(row.nextReview), dayStartHour);
+    if (day >= 0 && day <= days) {
+      unitsByDay[day].add(row.unitId);
+    }
+  });
+  
+  return unitsByDay.map(units => units.size);
 };
 
 // Create a new ayah progress entry
@@ -88,18 +247,25 @@ export const createAyahProgress = async (
     lapses: card.lapses,
     state: card.state,
     interval: card.interval,
+    learningStep: card.step,
     createdAt: now,
     history: [],
     testWithGroup,
-    groupPosition
+    groupPosition,
+    leech: false,
+    suspended: false,
+    buriedUntil: null,
+    cardType: 'ayah',
+    promptAyahNumber: null,
+    juzNumber: null
   };
   
   await executeUpdate(
     `INSERT INTO ayah_progress (
       id, surahNumber, ayahNumber, groupId, recallScore, lastReviewed, nextReview,
-      easeFactor, stability, difficulty, lapses, state, interval, createdAt, history,
+      easeFactor, stability, difficulty, lapses, state, interval, learningStep, createdAt, history,
       testWithGroup, groupPosition
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       ayahProgress.id,
       ayahProgress.surahNumber,
@@ -114,6 +280,7 @@ export const createAyahProgress = async (
       ayahProgress.lapses,
       ayahProgress.state,
       ayahProgress.interval,
+      ayahProgress.learningStep,
       ayahProgress.createdAt.toISOString(),
       JSON.stringify(ayahProgress.history),
       ayahProgress.testWithGroup ? 1 : 0,
@@ -128,32 +295,41 @@ export const createAyahProgress = async (
 export const updateAyahProgress = async (
   id: string,
   rating: Rating,
-  elapsedTime?: number
+  elapsedTime?: number,
+  hints?: number,
+  misplaced?: boolean,
+  studyAhead?: boolean
 ): Promise<AyahProgress> => {
   // Get current ayah progress
-  const rows = await executeQuery('SELECT * FROM ayah_progress WHERE id = ?', [id]);
+  const currentProgress = await getAyahProgressById(id);
   
-  if (rows.length === 0) {
+  if (!currentProgress) {
     throw new Error(`Ayah progress not found: ${id}`);
   }
   
-  const currentProgress = mapRowToAyahProgress(rows[0]);
   const now = new Date();
   
   // Create a card from current progress
-  const card = {
-    state: currentProgress.state,
-    easeFactor: currentProgress.easeFactor,
-    stability: currentProgress.stability,
-    difficulty: currentProgress.difficulty,
-    lapses: currentProgress.lapses,
-    lastReview: currentProgress.lastReviewed,
-    dueDate: currentProgress.nextReview,
-    interval: currentProgress.interval
-  };
+  const card = progressToCard(currentProgress);
+  
+  // Grouped ayahs share a fuzz seed and load so the group stays together
+  const unitId = currentProgress.testWithGroup ? currentProgress.groupId : currentProgress.id;
+  const fuzzSeed = `${unitId}:${currentProgress.history.length}`;
   
-  // Schedule next review using FSRS
-  const scheduled = scheduleReview(card, rating, now);
+  // Schedule next review using FSRS with the user's parameters
+  const settings = await getSettings();
+  const params = settingsToFSRSParameters(settings);
+  const scheduled = scheduleReview(card, rating, now, params, fuzzSeed);
+  
+  // Move the review to the least-loaded day inside the fuzz window
+  if (settings.loadBalancing && scheduled.state === 'review') {
+    const targetInterval = nextInterval(scheduled.stability, params.requestRetention);
+    const { maxInterval } = getFuzzRange(targetInterval);
+    const dueCounts = await getDueCountsByDay(now, maxInterval, unitId, settings.dayStartHour);
+    
+    scheduled.interval = balanceInterval(targetInterval, scheduled.interval, dueCounts);
+    scheduled.dueDate = addDays(getStudyDayStart(now, settings.dayStartHour), scheduled.interval);
+  }
   
   // Create a review entry
   const reviewEntry: ReviewEntry = {
@@ -161,7 +337,10 @@ export const updateAyahProgress = async (
     rating,
     elapsedTime,
     previousInterval: currentProgress.interval,
-    scheduledInterval: scheduled.interval
+    scheduledInterval: scheduled.interval,
+    hints,
+    misplaced,
+    studyAhead
   };
   
   // Update the ayah progress
@@ -171,6 +350,24 @@ export const updateAyahProgress = async (
   const goodRatings = history.filter(entry => entry.rating >= 3).length;
   const recallScore = history.length > 0 ? (goodRatings / history.length) * 100 : 0;
   
+  // Tag leeches, and apply the leech action when the lapse count hits the threshold
+  // (and again every half threshold after, in case it keeps lapsing once dealt with)
+  let { leech, suspended } = currentProgress;
+  
+  if (scheduled.lapses > currentProgress.lapses && isLeechLapse(scheduled.lapses, settings.leechThreshold)) {
+    leech = true;
+    
+    if (settings.leechAction === 'suspend') {
+      suspended = true;
+    } else {
+      // Re-learn from scratch through the full learning steps rather than the lapse steps
+      scheduled.state = 'learning';
+      scheduled.step = 0;
+      scheduled.interval = 0;
+      scheduled.dueDate = new Date(now.getTime() + (params.learningSteps[0] || 0) * 60 * 1000);
+    }
+  }
+  
   const updatedProgress: AyahProgress = {
     ...currentProgress,
     recallScore,
@@ -182,11 +379,14 @@ export const updateAyahProgress = async (
     lapses: scheduled.lapses,
     state: scheduled.state,
     interval: scheduled.interval,
-    history
+    learningStep: scheduled.step,
+    history,
+    leech,
+    suspended
   };
   
   await executeUpdate(
-    `UPDATE ayah_progress SET
+    `UPDATE ${progressTable(updatedProgress)} SET
       recallScore = ?,
       lastReviewed = ?,
       nextReview = ?,
@@ -196,7 +396,10 @@ export const updateAyahProgress = async (
       lapses = ?,
       state = ?,
       interval = ?,
-      history = ?
+      learningStep = ?,
+      history = ?,
+      leech = ?,
+      suspended = ?
     WHERE id = ?`,
     [
       updatedProgress.recallScore,
@@ -208,14 +411,229 @@ export const updateAyahProgress = async (
       updatedProgress.lapses,
       updatedProgress.state,
       updatedProgress.interval,
+      updatedProgress.learningStep,
       JSON.stringify(updatedProgress.history),
+      updatedProgress.leech ? 1 : 0,
+      updatedProgress.suspended ? 1 : 0,
       updatedProgress.id
     ]
   );
   
+  // Failing a whole surah or juz sends its weakest groups back for review
+  if ((updatedProgress.cardType === 'surah' || updatedProgress.cardType === 'juz') && rating === 1) {
+    await pushBackWeakestGroups(updatedProgress);
+  }
+  
   return updatedProgress;
 };
 
+// Outcome of rescheduling every reviewed ayah under the current parameters
+// (counts are per review unit, so a group tested together counts once)
+export interface RescheduleReport {
+  total: number;
+  earlier: number;
+  later: number;
+  unchanged: number;
+}
+
+// Recompute memory state for every reviewed ayah by replaying its history under the current
+// FSRS parameters, and reschedule cards in review from their last review the way
+// updateAyahProgress would have: same fuzz seed, load balancing and freezes since. States,
+// learning steps and leech outcomes stay as the reviews left them. With dryRun, only report
+// how due dates would move.
+export const rescheduleAllAyahs = async (dryRun: boolean = false): Promise<RescheduleReport> => {
+  const settings = await getSettings();
+  const params = settingsToFSRSParameters(settings);
+  const freezes = (await getFreezePeriods())
+    .filter(period => period.resumedAt !== null)
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  const progress = [
+    ...await getAllAyahProgress(),
+    ...await getAllLinkCards(),
+    ...await getAllConsolidationCards()
+  ];
+  
+  const updates: AyahProgress[] = [];
+  const moves = new Map<string, number>();
+  
+  for (const ayah of progress) {
+    if (ayah.history.length === 0 || !ayah.lastReviewed) continue;
+    
+    const unitId = ayah.testWithGroup ? ayah.groupId : ayah.id;
+    const card = replayHistory(ayah.history, params);
+    let { interval, nextReview } = ayah;
+    
+    // Cards in (re)learning are due after their step delay, which the weights don't change
+    if (ayah.state === 'review') {
+      const lastReview = ayah.lastReviewed;
+      const targetInterval = nextInterval(card.stability, params.requestRetention);
+      
+      // Same seed as when the last review was scheduled, so groups stay together
+      interval = params.enableFuzz
+        ? applyFuzz(targetInterval, `${unitId}:${ayah.history.length - 1}`)
+        : targetInterval;
+      
+      if (settings.loadBalancing) {
+        const { maxInterval } = getFuzzRange(targetInterval);
+        const dueCounts = await getDueCountsByDay(lastReview, maxInterval, unitId, settings.dayStartHour);
+        interval = balanceInterval(targetInterval, interval, dueCounts);
+      }
+      
+      nextReview = addDays(getStudyDayStart(lastReview, settings.dayStartHour), interval);
+      
+      // Freezes since the last review either shifted the due date by the time paused, or
+      // (catching up by spreading) moved an overdue review onto a catch-up day, which stands
+      freezes
+        .filter(period => period.startDate > lastReview)
+        .forEach(period => {
+          const resumedAt = period.resumedAt!;
+          
+          if (period.resumeMode === 'spread') {
+            const resumeDayEnd = addDays(getStudyDayStart(resumedAt, settings.dayStartHour), 1);
+            if (nextReview && nextReview < resumeDayEnd) {
+              nextReview = ayah.nextReview;
+            }
+          } else if (nextReview) {
+            const pausedDays = studyDaysBetween(period.startDate, resumedAt, settings.dayStartHour);
+            nextReview = addDays(nextReview, Math.max(pausedDays, 0));
+          }
+        });
+    }
+    
+    const move = ayah.nextReview && nextReview
+      ? studyDaysBetween(ayah.nextReview, nextReview, settings.dayStartHour)
+      : 0;
+    if (!moves.has(unitId)) {
+      moves.set(unitId, move);
+    }
+    
+    updates.push({
+      ...ayah,
+      nextReview,
+      stability: card.stability,
+      difficulty: card.difficulty,
+      interval
+    });
+  }
+  
+  if (!dryRun) {
+    await saveAyahProgress(updates);
+  }
+  
+  const report: RescheduleReport = { total: moves.size, earlier: 0, later: 0, unchanged: 0 };
+  moves.forEach(move => {
+    if (move < 0) report.earlier++;
+    else if (move > 0) report.later++;
+    else report.unchanged++;
+  });
+  
+  return report;
+};
+
+// Write ayah progress, and any word miss counts, back to the database in one transaction
+// (undoing a rating saves the earlier snapshots, which also drops the review entry it appended
+// and the word misses it recorded)
+export const saveAyahProgress = async (
+  snapshots: AyahProgress[],
+  wordMistakes: WordMistakeSnapshot[] = []
+): Promise<void> => {
+  await executeTransaction(async () => {
+    for (const progress of snapshots) {
+      await executeUpdate(
+        `UPDATE ${progressTable(progress)} SET
+          recallScore = ?,
+          lastReviewed = ?,
+          nextReview = ?,
+          easeFactor = ?,
+          stability = ?,
+          difficulty = ?,
+          lapses = ?,
+          state = ?,
+          interval = ?,
+          learningStep = ?,
+          history = ?,
+          leech = ?,
+          suspended = ?
+        WHERE id = ?`,
+        [
+          progress.recallScore,
+          progress.lastReviewed ? progress.lastReviewed.toISOString() : null,
+          progress.nextReview ? progress.nextReview.toISOString() : null,
+          progress.easeFactor,
+          progress.stability,
+          progress.difficulty,
+          progress.lapses,
+          progress.state,
+          progress.interval,
+          progress.learningStep,
+          JSON.stringify(progress.history),
+          progress.leech ? 1 : 0,
+          progress.suspended ? 1 : 0,
+          progress.id
+        ]
+      );
+    }
+    
+    await restoreWordMistakes(wordMistakes);
+  });
+};
+
+// Get all ayahs tagged as leeches, most lapses first
+export const getLeechAyahs = async (): Promise<AyahProgress[]> => {
+  const rows = await executeQuery(
+    `SELECT * FROM ayah_progress 
+     WHERE leech = 1
+     ORDER BY lapses DESC, surahNumber ASC, ayahNumber ASC`
+  );
+  
+  return rows.map(mapRowToAyahProgress);
+};
+
+// Suspend or unsuspend ayahs (suspended ayahs are left out of scheduled sessions)
+export const setAyahsSuspended = async (ids: string[], suspended: boolean): Promise<void> => {
+  await executeTransaction(async () => {
+    for (const id of ids) {
+      for (const table of CARD_TABLES) {
+        await executeUpdate(
+          `UPDATE ${table} SET suspended = ? WHERE id = ?`,
+          [suspended ? 1 : 0, id]
+        );
+      }
+    }
+  });
+};
+
+// Bury ayahs until the given time (null unburies them)
+export const setAyahsBuriedUntil = async (ids: string[], buriedUntil: Date | null): Promise<void> => {
+  await executeTransaction(async () => {
+    for (const id of ids) {
+      for (const table of CARD_TABLES) {
+        await executeUpdate(
+          `UPDATE ${table} SET buriedUntil = ? WHERE id = ?`,
+          [buriedUntil ? buriedUntil.toISOString() : null, id]
+        );
+      }
+    }
+  });
+};
+
+// Get ayahs and other cards that are suspended or still buried themselves (not through their group)
+export const getSuspendedAyahs = async (): Promise<AyahProgress[]> => {
+  const suspended: AyahProgress[] = [];
+  
+  for (const table of CARD_TABLES) {
+    const rows = await executeQuery(
+      `SELECT * FROM ${table} 
+       WHERE suspended = 1 OR buriedUntil > ?
+       ORDER BY surahNumber ASC, ayahNumber ASC`,
+      [new Date().toISOString()]
+    );
+    suspended.push(...rows.map(mapRowToAyahProgress));
+  }
+  
+  return suspended;
+};
+
 // Delete ayah progress
 export const deleteAyahProgress = async (id: string): Promise<void> => {
   await executeUpdate('DELETE FROM ayah_progress WHERE id = ?', [id]);
@@ -224,10 +642,47 @@ export const deleteAyahProgress = async (id: string): Promise<void> => {
 // Reset all progress
 export const resetAllProgress = async (): Promise<void> => {
   await executeUpdate('DELETE FROM ayah_progress');
+  await executeUpdate('DELETE FROM link_cards');
+  await executeUpdate('DELETE FROM consolidation_cards');
   await executeUpdate('DELETE FROM ayah_groups');
   await executeUpdate('DELETE FROM session_statistics');
 };
 
+// Table a card's progress is stored in
+const progressTable = (progress: AyahProgress): string => {
+  switch (progress.cardType) {
+    case 'link':
+      return 'link_cards';
+    case 'surah':
+    case 'juz':
+      return 'consolidation_cards';
+    default:
+      return 'ayah_progress';
+  }
+};
+
+// Build an FSRS card from an ayah's stored progress
+export const progressToCard = (progress: AyahProgress): FSRSCard => {
+  return {
+    state: progress.state,
+    easeFactor: progress.easeFactor,
+    stability: progress.stability,
+    difficulty: progress.difficulty,
+    lapses: progress.lapses,
+    lastReview: progress.lastReviewed,
+    dueDate: progress.nextReview,
+    interval: progress.interval,
+    step: progress.learningStep
+  };
+};
+
+// Whether a lapse bringing the count to `lapses` should trigger the leech action
+const isLeechLapse = (lapses: number, threshold: number): boolean => {
+  if (threshold <= 0 || lapses < threshold) return false;
+  
+  return (lapses - threshold) % Math.max(Math.ceil(threshold / 2), 1) === 0;
+};
+
 // Helper function to map database row to AyahProgress object
 const mapRowToAyahProgress = (row: any): AyahProgress => {
   return {
@@ -244,9 +699,16 @@ const mapRowToAyahProgress = (row: any): AyahProgress => {
     lapses: row.lapses,
     state: row.state,
     interval: row.interval,
+    learningStep: row.learningStep || 0,
     createdAt: new Date(row.createdAt),
     history: JSON.parse(row.history),
     testWithGroup: row.testWithGroup === 1,
-    groupPosition: row.groupPosition || 0
+    groupPosition: row.groupPosition || 0,
+    leech: row.leech === 1,
+    suspended: row.suspended === 1,
+    buriedUntil: row.buriedUntil ? new Date(row.buriedUntil) : null,
+    cardType: row.cardType ?? (row.fromGroupId ? 'link' : 'ayah'),
+    promptAyahNumber: row.promptAyahNumber ?? null,
+    juzNumber: row.juzNumber ?? null
   };
 };
\ No newline at end of file
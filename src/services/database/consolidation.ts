@@ -0,0 +1,141 @@
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+import { executeQuery, executeUpdate } from './index';
+import { getSettings } from './settings';
+import { initializeCard } from '../fsrs';
+import { getJuzLastSurah, getJuzNumber, JUZ_STARTS } from '../../utils/juz';
+import { AyahProgress, CardType, FSRSCard } from '../../types';
+
+// Consolidation cards ask for a whole surah (or juz) to be recited in one go, once every ayah
+// in it is well established. Like link cards they keep their own FSRS state in their own table,
+// and are read back as AyahProgress (with cardType 'surah' or 'juz').
+
+// Share of a surah's or juz's groups sent back for review when its consolidation card is failed
+const WEAK_GROUP_SHARE = 0.25;
+
+// Create any missing consolidation cards for surahs and juz whose ayahs all pass the threshold
+export const syncConsolidationCards = async (): Promise<number> => {
+  const settings = await getSettings();
+  const surahs = await executeQuery('SELECT number, ayahCount FROM quran_surahs');
+  const rows = await executeQuery(
+    `SELECT DISTINCT surahNumber, ayahNumber FROM ayah_progress
+     WHERE state = 'review' AND stability >= ?`,
+    [settings.consolidationStability]
+  );
+
+  // Established ayahs in each surah and juz, to compare with the number of ayahs in each
+  const surahCounts = new Map<number, number>();
+  const juzCounts = new Map<number, number>();
+
+  rows.forEach(row => {
+    const juz = getJuzNumber(row.surahNumber, row.ayahNumber);
+    surahCounts.set(row.surahNumber, (surahCounts.get(row.surahNumber) || 0) + 1);
+    juzCounts.set(juz, (juzCounts.get(juz) || 0) + 1);
+  });
+
+  const juzTotals = new Map<number, number>();
+
+  surahs.forEach(surah => {
+    for (let ayah = 1; ayah <= surah.ayahCount; ayah++) {
+      const juz = getJuzNumber(surah.number, ayah);
+      juzTotals.set(juz, (juzTotals.get(juz) || 0) + 1);
+    }
+  });
+
+  const card = initializeCard();
+  let created = 0;
+
+  for (const surah of surahs) {
+    if (surah.ayahCount > 0 && surahCounts.get(surah.number) === surah.ayahCount) {
+      created += await insertConsolidationCard('surah', surah.number, 1, null, card);
+    }
+  }
+
+  for (let juz = 1; juz <= JUZ_STARTS.length; juz++) {
+    const total = juzTotals.get(juz) || 0;
+
+    if (total > 0 && juzCounts.get(juz) === total) {
+      const [surahNumber, ayahNumber] = JUZ_STARTS[juz - 1];
+      created += await insertConsolidationCard('juz', surahNumber, ayahNumber, juz, card);
+    }
+  }
+
+  return created;
+};
+
+// Find the weakest groups of a surah or juz, the ones failing its consolidation card sends back
+export const getWeakestGroups = async (progress: AyahProgress): Promise<string[]> => {
+  const lastSurah = progress.cardType === 'juz' && progress.juzNumber
+    ? getJuzLastSurah(progress.juzNumber)
+    : progress.surahNumber;
+
+  const rows = await executeQuery(
+    `SELECT groupId, surahNumber, ayahNumber, stability FROM ayah_progress
+     WHERE state = 'review' AND surahNumber BETWEEN ? AND ?`,
+    [progress.surahNumber, lastSurah]
+  );
+
+  // A group is only as strong as its weakest ayah
+  const groupStability = new Map<string, number>();
+
+  rows.forEach(row => {
+    if (progress.cardType === 'juz' && getJuzNumber(row.surahNumber, row.ayahNumber) !== progress.juzNumber) {
+      return;
+    }
+
+    groupStability.set(row.groupId, Math.min(groupStability.get(row.groupId) ?? Infinity, row.stability));
+  });
+
+  return [...groupStability.entries()]
+    .sort((a, b) => a[1] - b[1])
+    .slice(0, Math.ceil(groupStability.size * WEAK_GROUP_SHARE))
+    .map(([groupId]) => groupId);
+};
+
+// Send the weakest groups of a failed surah or juz back into today's reviews
+export const pushBackWeakestGroups = async (progress: AyahProgress): Promise<number> => {
+  const weakest = await getWeakestGroups(progress);
+
+  if (weakest.length === 0) {
+    return 0;
+  }
+
+  await executeUpdate(
+    `UPDATE ayah_progress SET nextReview = ?
+     WHERE state = 'review' AND groupId IN (${weakest.map(() => '?').join(', ')})`,
+    [new Date().toISOString(), ...weakest]
+  );
+
+  return weakest.length;
+};
+
+// Helper function to add a consolidation card unless it already exists
+const insertConsolidationCard = async (
+  cardType: CardType,
+  surahNumber: number,
+  ayahNumber: number,
+  juzNumber: number | null,
+  card: FSRSCard
+): Promise<number> => {
+  return executeUpdate(
+    `INSERT OR IGNORE INTO consolidation_cards (
+      id, cardType, surahNumber, ayahNumber, juzNumber,
+      easeFactor, stability, difficulty, lapses, state, interval, learningStep, createdAt
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      uuidv4(),
+      cardType,
+      surahNumber,
+      ayahNumber,
+      juzNumber,
+      card.easeFactor,
+      card.stability,
+      card.difficulty,
+      card.lapses,
+      card.state,
+      card.interval,
+      card.step,
+      new Date().toISOString()
+    ]
+  );
+};
@@ -0,0 +1,198 @@
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+import { executeQuery, executeTransaction, executeUpdate } from './index';
+import { CARD_TABLES } from './ayahProgress';
+import { getSettings } from './settings';
+import { FreezePeriod, FreezeResumeMode } from '../../types';
+import { addDays, getStudyDayKey, getStudyDayStart, studyDaysBetween } from '../../utils/studyDay';
+
+// A freeze pauses the whole schedule between two dates. Nothing is due while it's active;
+// on resume the backlog is either shifted by the length of the freeze or spread over a few
+// catch-up days. Past freezes are kept so the optimizer and statistics can leave them out.
+
+// Get all freeze periods, most recent first
+export const getFreezePeriods = async (): Promise<FreezePeriod[]> => {
+  const rows = await executeQuery('SELECT * FROM freeze_periods ORDER BY startDate DESC');
+  return rows.map(mapRowToFreezePeriod);
+};
+
+// Get the freeze that hasn't been resumed yet (in progress or still to start), if any
+export const getPendingFreeze = async (): Promise<FreezePeriod | null> => {
+  const rows = await executeQuery(
+    'SELECT * FROM freeze_periods WHERE resumedAt IS NULL ORDER BY startDate ASC LIMIT 1'
+  );
+
+  return rows.length > 0 ? mapRowToFreezePeriod(rows[0]) : null;
+};
+
+// Get the freeze in progress at `now`, if any
+export const getActiveFreeze = async (now: Date = new Date()): Promise<FreezePeriod | null> => {
+  const pending = await getPendingFreeze();
+  return pending && pending.startDate <= now ? pending : null;
+};
+
+// Schedule a freeze from the study day containing `startDate` up to the one containing `endDate`
+export const createFreezePeriod = async (startDate: Date, endDate: Date): Promise<FreezePeriod> => {
+  const settings = await getSettings();
+
+  if (await getPendingFreeze()) {
+    throw new Error('A freeze is already scheduled');
+  }
+
+  const period: FreezePeriod = {
+    id: uuidv4(),
+    startDate: getStudyDayStart(startDate, settings.dayStartHour),
+    endDate: getStudyDayStart(endDate, settings.dayStartHour),
+    resumedAt: null,
+    resumeMode: null,
+    createdAt: new Date()
+  };
+
+  if (period.endDate <= period.startDate) {
+    throw new Error('A freeze must last at least one day');
+  }
+
+  await executeUpdate(
+    `INSERT INTO freeze_periods (id, startDate, endDate, resumedAt, resumeMode, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      period.id,
+      period.startDate.toISOString(),
+      period.endDate.toISOString(),
+      null,
+      null,
+      period.createdAt.toISOString()
+    ]
+  );
+
+  return period;
+};
+
+// Cancel a freeze that hasn't started yet
+export const cancelFreezePeriod = async (id: string): Promise<void> => {
+  await executeUpdate(
+    'DELETE FROM freeze_periods WHERE id = ? AND resumedAt IS NULL AND startDate > ?',
+    [id, new Date().toISOString()]
+  );
+};
+
+// End a freeze and catch up on the backlog. Returns how many cards were rescheduled.
+export const resumeFromFreeze = async (
+  period: FreezePeriod,
+  mode: FreezeResumeMode,
+  catchUpDays: number,
+  now: Date = new Date()
+): Promise<number> => {
+  const settings = await getSettings();
+  const today = getStudyDayStart(now, settings.dayStartHour);
+  // A freeze resumed after its planned end (on the first app open past it) only paused the
+  // schedule until that end; the days after were ordinary days with nothing studied
+  const pausedUntil = now < period.endDate ? now : period.endDate;
+  const pausedDays = Math.max(studyDaysBetween(period.startDate, pausedUntil, settings.dayStartHour), 0);
+  let moved = 0;
+
+  await executeTransaction(async () => {
+    if (mode === 'shift') {
+      // Push every pending due date back by however long the schedule was paused
+      for (const table of CARD_TABLES) {
+        const rows = await executeQuery(
+          `SELECT id, nextReview FROM ${table} WHERE nextReview IS NOT NULL AND state != 'new'`
+        );
+
+        for (const row of rows) {
+          await executeUpdate(
+            `UPDATE ${table} SET nextReview = ? WHERE id = ?`,
+            [addDays(new Date(row.nextReview), pausedDays).toISOString(), row.id]
+          );
+          moved++;
+        }
+      }
+    } else {
+      // Spread overdue reviews evenly over the catch-up days, most overdue first;
+      // learning cards are due again straight away
+      const dayEnd = addDays(today, 1).toISOString();
+      const backlog: { table: string; id: string; nextReview: string }[] = [];
+
+      for (const table of CARD_TABLES) {
+        const rows = await executeQuery(
+          `SELECT id, nextReview FROM ${table} WHERE state = 'review' AND nextReview < ?`,
+          [dayEnd]
+        );
+        backlog.push(...rows.map(row => ({ table, id: row.id, nextReview: row.nextReview })));
+      }
+
+      backlog.sort((a, b) => a.nextReview.localeCompare(b.nextReview));
+      const days = Math.max(catchUpDays, 1);
+
+      for (let i = 0; i < backlog.length; i++) {
+        const { table, id } = backlog[i];
+        const day = Math.floor((i * days) / backlog.length);
+
+        await executeUpdate(
+          `UPDATE ${table} SET nextReview = ? WHERE id = ?`,
+          [addDays(today, day).toISOString(), id]
+        );
+      }
+      moved = backlog.length;
+    }
+
+    await executeUpdate(
+      'UPDATE freeze_periods SET resumedAt = ?, resumeMode = ? WHERE id = ?',
+      [pausedUntil.toISOString(), mode, period.id]
+    );
+  });
+
+  return moved;
+};
+
+// Resume a freeze whose planned end has passed, using the catch-up settings
+export const resumeExpiredFreeze = async (): Promise<boolean> => {
+  const now = new Date();
+  const active = await getActiveFreeze(now);
+
+  if (!active || active.endDate > now) {
+    return false;
+  }
+
+  const settings = await getSettings();
+  await resumeFromFreeze(active, settings.freezeResumeMode, settings.catchUpDays, now);
+
+  return true;
+};
+
+// Keys of every study day spent frozen (not the day a freeze was resumed on, which is studied)
+export const getFrozenStudyDays = (periods: FreezePeriod[], dayStartHour: number): Set<string> => {
+  const days = new Set<string>();
+
+  periods.forEach(period => {
+    const end = getStudyDayStart(period.resumedAt ?? new Date(), dayStartHour);
+
+    for (let day = period.startDate; day < end; day = addDays(day, 1)) {
+      days.add(getStudyDayKey(day, dayStartHour));
+    }
+  });
+
+  return days;
+};
+
+// A freeze_periods row as stored (dates as ISO strings)
+interface FreezePeriodRow {
+  id: string;
+  startDate: string;
+  endDate: string;
+  resumedAt: string | null;
+  resumeMode: FreezeResumeMode | null;
+  createdAt: string;
+}
+
+// Helper function to map database row to FreezePeriod object
+const mapRowToFreezePeriod = (row: FreezePeriodRow): FreezePeriod => {
+  return {
+    id: row.id,
+    startDate: new Date(row.startDate),
+    endDate: new Date(row.endDate),
+    resumedAt: row.resumedAt ? new Date(row.resumedAt) : null,
+    resumeMode: row.resumeMode,
+    createdAt: new Date(row.createdAt)
+  };
+};
@@ -4,6 +4,7 @@ import { Asset } from 'expo-asset';
 import { Platform } from 'react-native';
 import { fetchInitialSurahs } from '../quran/initialData';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { runMigrations } from './migrations';
 
 // Database name
 const DATABASE_NAME = 'murajaah.db';
@@ -58,6 +59,7 @@ export const initDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
       runAsync: () => Promise.resolve({ lastInsertRowId: -1, changes: 0 }),
       getFirstAsync: () => Promise.resolve(null),
       getAllAsync: () => Promise.resolve([]),
+      withTransactionAsync: (task: () => Promise<void>) => task(),
       closeAsync: () => Promise.resolve(),
     } as any;
     return db;
@@ -71,6 +73,10 @@ export const initDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
       // Drop and recreate all tables to ensure clean state
       await db.execAsync(`
         DROP TABLE IF EXISTS ayah_progress;
+        DROP TABLE IF EXISTS link_cards;
+        DROP TABLE IF EXISTS consolidation_cards;
+        DROP TABLE IF EXISTS freeze_periods;
+        DROP TABLE IF EXISTS word_mistakes;
         DROP TABLE IF EXISTS settings;
         DROP TABLE IF EXISTS session_statistics;
         DROP TABLE IF EXISTS quran_surahs;
@@ -82,6 +88,8 @@ export const initDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
     await createTables();
     console.log('Created/verified tables');
     
+    await runMigrations(db);
+    
     return db;
   }
 
@@ -109,6 +117,25 @@ const createTables = async (): Promise<void> => {
       lapseSteps TEXT NOT NULL DEFAULT '[10, 60]',
       maxReviewsPerSession INTEGER NOT NULL DEFAULT 20,
       reviewAheadDays INTEGER NOT NULL DEFAULT 0,
+      enableFuzz INTEGER NOT NULL DEFAULT 1,
+      loadBalancing INTEGER NOT NULL DEFAULT 0,
+      reviewSortOrder TEXT NOT NULL DEFAULT 'retrievability',
+      dayStartHour INTEGER NOT NULL DEFAULT 4,
+      leechThreshold INTEGER NOT NULL DEFAULT 8,
+      leechAction TEXT NOT NULL DEFAULT 'suspend',
+      revisionMode TEXT NOT NULL DEFAULT 'fsrs',
+      sabqiDays INTEGER NOT NULL DEFAULT 30,
+      manzilCycleDays INTEGER NOT NULL DEFAULT 30,
+      consolidationStability INTEGER NOT NULL DEFAULT 60,
+      freezeResumeMode TEXT NOT NULL DEFAULT 'shift',
+      catchUpDays INTEGER NOT NULL DEFAULT 7,
+      sequentialUnlock INTEGER NOT NULL DEFAULT 0,
+      unlockStability INTEGER NOT NULL DEFAULT 3,
+      reviewMode TEXT NOT NULL DEFAULT 'recite',
+      consolidationReviewMode TEXT NOT NULL DEFAULT 'recite',
+      clozeShare REAL NOT NULL DEFAULT 0.3,
+      clozeSelection TEXT NOT NULL DEFAULT 'random',
+      clozeInput TEXT NOT NULL DEFAULT 'bank',
       createdAt TEXT NOT NULL,
       updatedAt TEXT NOT NULL
     );
@@ -127,13 +154,86 @@ const createTables = async (): Promise<void> => {
       lapses INTEGER NOT NULL DEFAULT 0,
       state TEXT NOT NULL DEFAULT 'new',
       interval INTEGER NOT NULL DEFAULT 0,
+      learningStep INTEGER NOT NULL DEFAULT 0,
       createdAt TEXT NOT NULL,
       history TEXT NOT NULL DEFAULT '[]',
       testWithGroup INTEGER NOT NULL DEFAULT 0,
       groupPosition INTEGER NOT NULL DEFAULT 0,
+      leech INTEGER NOT NULL DEFAULT 0,
+      suspended INTEGER NOT NULL DEFAULT 0,
+      buriedUntil TEXT,
       UNIQUE(surahNumber, ayahNumber)
     );
 
+    CREATE TABLE IF NOT EXISTS link_cards (
+      id TEXT PRIMARY KEY,
+      surahNumber INTEGER NOT NULL,
+      ayahNumber INTEGER NOT NULL,
+      promptAyahNumber INTEGER NOT NULL,
+      fromGroupId TEXT NOT NULL,
+      groupId TEXT NOT NULL,
+      recallScore REAL NOT NULL DEFAULT 0,
+      lastReviewed TEXT,
+      nextReview TEXT,
+      easeFactor REAL NOT NULL DEFAULT 2.5,
+      stability REAL NOT NULL DEFAULT 0,
+      difficulty REAL NOT NULL DEFAULT 0,
+      lapses INTEGER NOT NULL DEFAULT 0,
+      state TEXT NOT NULL DEFAULT 'new',
+      interval INTEGER NOT NULL DEFAULT 0,
+      learningStep INTEGER NOT NULL DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      history TEXT NOT NULL DEFAULT '[]',
+      leech INTEGER NOT NULL DEFAULT 0,
+      suspended INTEGER NOT NULL DEFAULT 0,
+      buriedUntil TEXT,
+      UNIQUE(fromGroupId, groupId)
+    );
+
+    CREATE TABLE IF NOT EXISTS consolidation_cards (
+      id TEXT PRIMARY KEY,
+      cardType TEXT NOT NULL,
+      surahNumber INTEGER NOT NULL,
+      ayahNumber INTEGER NOT NULL,
+      juzNumber INTEGER,
+      groupId TEXT NOT NULL DEFAULT '',
+      recallScore REAL NOT NULL DEFAULT 0,
+      lastReviewed TEXT,
+      nextReview TEXT,
+      easeFactor REAL NOT NULL DEFAULT 2.5,
+      stability REAL NOT NULL DEFAULT 0,
+      difficulty REAL NOT NULL DEFAULT 0,
+      lapses INTEGER NOT NULL DEFAULT 0,
+      state TEXT NOT NULL DEFAULT 'new',
+      interval INTEGER NOT NULL DEFAULT 0,
+      learningStep INTEGER NOT NULL DEFAULT 0,
+      createdAt TEXT NOT NULL,
+      history TEXT NOT NULL DEFAULT '[]',
+      leech INTEGER NOT NULL DEFAULT 0,
+      suspended INTEGER NOT NULL DEFAULT 0,
+      buriedUntil TEXT,
+      UNIQUE(cardType, surahNumber, ayahNumber)
+    );
+
+    CREATE TABLE IF NOT EXISTS freeze_periods (
+      id TEXT PRIMARY KEY,
+      startDate TEXT NOT NULL,
+      endDate TEXT NOT NULL,
+      resumedAt TEXT,
+      resumeMode TEXT,
+      createdAt TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS word_mistakes (
+      surahNumber INTEGER NOT NULL,
+      ayahNumber INTEGER NOT NULL,
+      scriptType TEXT NOT NULL,
+      wordIndex INTEGER NOT NULL,
+      misses INTEGER NOT NULL DEFAULT 0,
+      lastMissed TEXT NOT NULL,
+      PRIMARY KEY (surahNumber, ayahNumber, scriptType, wordIndex)
+    );
+
     CREATE TABLE IF NOT EXISTS ayah_groups (
       id TEXT PRIMARY KEY,
       surahNumber INTEGER NOT NULL,
@@ -143,7 +243,9 @@ const createTables = async (): Promise<void> => {
       progress REAL NOT NULL DEFAULT 0,
       state TEXT NOT NULL DEFAULT 'new',
       ayahIds TEXT NOT NULL DEFAULT '[]',
-      testAsGroup INTEGER NOT NULL DEFAULT 0
+      testAsGroup INTEGER NOT NULL DEFAULT 0,
+      suspended INTEGER NOT NULL DEFAULT 0,
+      buriedUntil TEXT
     );
 
     CREATE TABLE IF NOT EXISTS session_statistics (
@@ -156,7 +258,8 @@ const createTables = async (): Promise<void> => {
       ratingHard INTEGER NOT NULL DEFAULT 0,
       ratingGood INTEGER NOT NULL DEFAULT 0,
       ratingEasy INTEGER NOT NULL DEFAULT 0,
-      retention REAL NOT NULL DEFAULT 0
+      retention REAL NOT NULL DEFAULT 0,
+      studyAhead INTEGER NOT NULL DEFAULT 0
     );
 
     CREATE TABLE IF NOT EXISTS quran_surahs (
@@ -212,6 +315,17 @@ export const executeUpdate = async (
   return result.changes;
 };
 
+// Run several queries atomically
+export const executeTransaction = async (
+  task: () => Promise<void>
+): Promise<void> => {
+  // Ensure database is initialized
+  if (!db) {
+    await initDatabase();
+  }
+  await db.withTransactionAsync(task);
+};
+
 // Load initial data if needed
 export const loadInitialData = async (): Promise<void> => {
   // Check if surahs are already loaded
@@ -0,0 +1,60 @@
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+import { executeQuery, executeUpdate } from './index';
+import { initializeCard } from '../fsrs';
+
+// Link cards drill the seam between two adjacent groups in the learning queue: the prompt is
+// the last ayah of one group and the answer is the opening ayah of the group that follows.
+// They live in their own table with their own FSRS state, and are read back as AyahProgress
+// (with cardType 'link') so sessions can schedule them like any other card.
+
+// Create any missing link cards between adjacent queued groups, for one surah or all of them
+export const syncLinkCards = async (surahNumber?: number): Promise<number> => {
+  // Groups that have ayahs in the learning queue, in mushaf order
+  const rows = await executeQuery(
+    `SELECT g.id, g.surahNumber, g.startAyah, g.endAyah FROM ayah_groups g
+     WHERE EXISTS (SELECT 1 FROM ayah_progress p WHERE p.groupId = g.id)
+       ${surahNumber !== undefined ? 'AND g.surahNumber = ?' : ''}
+     ORDER BY g.surahNumber ASC, g.startAyah ASC`,
+    surahNumber !== undefined ? [surahNumber] : []
+  );
+
+  const card = initializeCard();
+  const now = new Date().toISOString();
+  let created = 0;
+
+  for (let i = 1; i < rows.length; i++) {
+    const previous = rows[i - 1];
+    const next = rows[i];
+
+    // Only groups that meet with no gap between them
+    if (previous.surahNumber !== next.surahNumber || next.startAyah !== previous.endAyah + 1) {
+      continue;
+    }
+
+    created += await executeUpdate(
+      `INSERT OR IGNORE INTO link_cards (
+        id, surahNumber, ayahNumber, promptAyahNumber, fromGroupId, groupId,
+        easeFactor, stability, difficulty, lapses, state, interval, learningStep, createdAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        uuidv4(),
+        next.surahNumber,
+        next.startAyah,
+        previous.endAyah,
+        previous.id,
+        next.id,
+        card.easeFactor,
+        card.stability,
+        card.difficulty,
+        card.lapses,
+        card.state,
+        card.interval,
+        card.step,
+        now
+      ]
+    );
+  }
+
+  return created;
+};
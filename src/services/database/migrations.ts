@@ -0,0 +1,282 @@
+import * as SQLite from 'expo-sqlite';
+import { DEFAULT_PARAMETERS, replayHistory } from '../fsrs';
+import { FSRSParameters, ReviewEntry } from '../../types';
+
+// A single schema/data migration, applied once in version order
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+// Add a column to a table unless it already exists
+// (fresh installs get new columns straight from createTables)
+export const addColumnIfMissing = async (
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> => {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+
+  if (!columns.some(c => c.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+// Columns read from the settings and ayah_progress tables while migrating
+interface SettingsRow {
+  id: string;
+  requestRetention: number | null;
+  fsrsParameters: string | null;
+}
+
+interface ProgressRow {
+  id: string;
+  state: string;
+  difficulty: number;
+  history: string | null;
+}
+
+// Parse a JSON array stored in a column, treating anything unreadable as empty
+const parseJSONArray = <T>(value: string | null): T[] => {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+// Move the settings onto the FSRS-5 model (ayah progress follows once learning steps are tracked)
+const migrateToFSRS5 = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  // Legacy installs stored the 12 ad-hoc weights; replace them with the FSRS-5 defaults
+  const settingsRows = await db.getAllAsync<SettingsRow>('SELECT id, fsrsParameters FROM settings');
+
+  for (const row of settingsRows) {
+    if (parseJSONArray<number>(row.fsrsParameters).length !== DEFAULT_PARAMETERS.w.length) {
+      await db.runAsync(
+        'UPDATE settings SET fsrsParameters = ? WHERE id = ?',
+        [JSON.stringify(DEFAULT_PARAMETERS.w), row.id]
+      );
+    }
+  }
+};
+
+// Track the current learning/relearning step on each ayah, then rebuild each ayah's FSRS-5
+// memory state (and the step it's on) from its stored review history
+const addLearningSteps = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'ayah_progress', 'learningStep', 'INTEGER NOT NULL DEFAULT 0');
+
+  const settings = await db.getFirstAsync<SettingsRow>('SELECT id, requestRetention, fsrsParameters FROM settings');
+  const params: FSRSParameters = {
+    ...DEFAULT_PARAMETERS,
+    requestRetention: settings?.requestRetention || DEFAULT_PARAMETERS.requestRetention
+  };
+
+  const progressRows = await db.getAllAsync<ProgressRow>('SELECT id, state, difficulty, history FROM ayah_progress');
+
+  for (const row of progressRows) {
+    const history = parseJSONArray<ReviewEntry>(row.history);
+
+    if (history.length > 0) {
+      const card = replayHistory(history, params);
+
+      await db.runAsync(
+        `UPDATE ayah_progress SET
+          stability = ?,
+          difficulty = ?,
+          lapses = ?,
+          state = ?,
+          interval = ?,
+          learningStep = ?,
+          lastReviewed = ?,
+          nextReview = ?
+        WHERE id = ?`,
+        [
+          card.stability,
+          card.difficulty,
+          card.lapses,
+          card.state,
+          card.interval,
+          card.step,
+          card.lastReview ? card.lastReview.toISOString() : null,
+          card.dueDate ? card.dueDate.toISOString() : null,
+          row.id
+        ]
+      );
+    } else if (row.state !== 'new') {
+      // No history to replay: rescale the old 0-1 difficulty onto 1-10
+      const difficulty = Math.min(Math.max(row.difficulty, 0), 1) * 9 + 1;
+
+      await db.runAsync(
+        'UPDATE ayah_progress SET difficulty = ? WHERE id = ?',
+        [difficulty, row.id]
+      );
+    }
+  }
+};
+
+// Settings for interval fuzz and due-date load balancing
+const addFuzzSettings = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'settings', 'enableFuzz', 'INTEGER NOT NULL DEFAULT 1');
+  await addColumnIfMissing(db, 'settings', 'loadBalancing', 'INTEGER NOT NULL DEFAULT 0');
+};
+
+// Setting for how the due review queue is ordered
+const addReviewSortOrder = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'settings', 'reviewSortOrder', "TEXT NOT NULL DEFAULT 'retrievability'");
+};
+
+// Setting for the hour at which a new study day begins
+const addDayStartHour = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'settings', 'dayStartHour', 'INTEGER NOT NULL DEFAULT 4');
+};
+
+// Flag study-ahead sessions in the statistics
+const addStudyAheadFlag = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'session_statistics', 'studyAhead', 'INTEGER NOT NULL DEFAULT 0');
+};
+
+// Leech tagging on ayahs and the settings that control it
+const addLeechDetection = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'ayah_progress', 'leech', 'INTEGER NOT NULL DEFAULT 0');
+  await addColumnIfMissing(db, 'ayah_progress', 'suspended', 'INTEGER NOT NULL DEFAULT 0');
+  await addColumnIfMissing(db, 'settings', 'leechThreshold', 'INTEGER NOT NULL DEFAULT 8');
+  await addColumnIfMissing(db, 'settings', 'leechAction', "TEXT NOT NULL DEFAULT 'suspend'");
+};
+
+// Suspend and bury for ayahs and groups
+const addSuspendAndBury = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'ayah_progress', 'buriedUntil', 'TEXT');
+  await addColumnIfMissing(db, 'ayah_groups', 'suspended', 'INTEGER NOT NULL DEFAULT 0');
+  await addColumnIfMissing(db, 'ayah_groups', 'buriedUntil', 'TEXT');
+};
+
+// Settings for the sabaq / sabqi / manzil revision mode
+const addRevisionMode = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'settings', 'revisionMode', "TEXT NOT NULL DEFAULT 'fsrs'");
+  await addColumnIfMissing(db, 'settings', 'sabqiDays', 'INTEGER NOT NULL DEFAULT 30');
+  await addColumnIfMissing(db, 'settings', 'manzilCycleDays', 'INTEGER NOT NULL DEFAULT 30');
+};
+
+// Stability threshold for whole-surah and whole-juz consolidation cards
+const addConsolidationCards = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'settings', 'consolidationStability', 'INTEGER NOT NULL DEFAULT 60');
+};
+
+// Settings for how the schedule catches up after a freeze
+const addFreezeMode = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'settings', 'freezeResumeMode', "TEXT NOT NULL DEFAULT 'shift'");
+  await addColumnIfMissing(db, 'settings', 'catchUpDays', 'INTEGER NOT NULL DEFAULT 7');
+};
+
+// Settings for unlocking new groups one after another
+const addSequentialUnlock = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'settings', 'sequentialUnlock', 'INTEGER NOT NULL DEFAULT 0');
+  await addColumnIfMissing(db, 'settings', 'unlockStability', 'INTEGER NOT NULL DEFAULT 3');
+};
+
+// Settings for cloze (fill-in-the-blank) reviews
+const addClozeMode = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'settings', 'reviewMode', "TEXT NOT NULL DEFAULT 'recite'");
+  await addColumnIfMissing(db, 'settings', 'clozeShare', 'REAL NOT NULL DEFAULT 0.3');
+  await addColumnIfMissing(db, 'settings', 'clozeSelection', "TEXT NOT NULL DEFAULT 'random'");
+  await addColumnIfMissing(db, 'settings', 'clozeInput', "TEXT NOT NULL DEFAULT 'bank'");
+};
+
+// Review mode for surah and juz cards
+const addConsolidationReviewMode = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await addColumnIfMissing(db, 'settings', 'consolidationReviewMode', "TEXT NOT NULL DEFAULT 'recite'");
+};
+
+// All migrations, in the order they must be applied
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'FSRS-5 weights',
+    migrate: migrateToFSRS5
+  },
+  {
+    version: 2,
+    description: 'Learning and lapse steps, and FSRS-5 memory states',
+    migrate: addLearningSteps
+  },
+  {
+    version: 3,
+    description: 'Interval fuzz and load balancing',
+    migrate: addFuzzSettings
+  },
+  {
+    version: 4,
+    description: 'Due queue sort order',
+    migrate: addReviewSortOrder
+  },
+  {
+    version: 5,
+    description: 'Study day start hour',
+    migrate: addDayStartHour
+  },
+  {
+    version: 6,
+    description: 'Study-ahead sessions',
+    migrate: addStudyAheadFlag
+  },
+  {
+    version: 7,
+    description: 'Leech detection',
+    migrate: addLeechDetection
+  },
+  {
+    version: 8,
+    description: 'Suspend and bury',
+    migrate: addSuspendAndBury
+  },
+  {
+    version: 9,
+    description: 'Sabaq, sabqi and manzil revision mode',
+    migrate: addRevisionMode
+  },
+  {
+    version: 10,
+    description: 'Surah and juz consolidation cards',
+    migrate: addConsolidationCards
+  },
+  {
+    version: 11,
+    description: 'Freeze mode',
+    migrate: addFreezeMode
+  },
+  {
+    version: 12,
+    description: 'Sequential unlocking of new groups',
+    migrate: addSequentialUnlock
+  },
+  {
+    version: 13,
+    description: 'Cloze review mode',
+    migrate: addClozeMode
+  },
+  {
+    version: 14,
+    description: 'Next-ayah review mode for surah and juz cards',
+    migrate: addConsolidationReviewMode
+  }
+];
+
+// Apply any migrations newer than the database's user_version
+export const runMigrations = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const currentVersion = result?.user_version || 0;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) {
+      continue;
+    }
+
+    await db.withTransactionAsync(async () => {
+      await migration.migrate(db);
+    });
+    await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+  }
+};
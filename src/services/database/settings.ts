@@ -1,5 +1,15 @@
 import { executeQuery, executeUpdate } from './index';
-import { UserSettings } from '../../types';
+import {
+  ClozeInput,
+  ClozeSelection,
+  FreezeResumeMode,
+  FSRSParameters,
+  LeechAction,
+  ReviewMode,
+  RevisionMode,
+  ReviewSortOrder,
+  UserSettings
+} from '../../types';
 import { DEFAULT_PARAMETERS } from '../fsrs';
 
 // Default settings ID
@@ -20,6 +30,28 @@ export const getSettings = async (): Promise<UserSettings> => {
   return mapRowToSettings(rows[0]);
 };
 
+// Build FSRS parameters from a settings object
+export const settingsToFSRSParameters = (settings: UserSettings | null): FSRSParameters => {
+  if (!settings) {
+    return DEFAULT_PARAMETERS;
+  }
+  
+  return {
+    w: settings.w,
+    requestRetention: settings.requestRetention,
+    learningSteps: settings.learningSteps,
+    lapseSteps: settings.lapseSteps,
+    enableFuzz: settings.enableFuzz,
+    dayStartHour: settings.dayStartHour
+  };
+};
+
+// Get the FSRS parameters from the user's settings
+export const getFSRSParameters = async (): Promise<FSRSParameters> => {
+  const settings = await getSettings();
+  return settingsToFSRSParameters(settings);
+};
+
 // Create default settings
 export const createDefaultSettings = async (): Promise<UserSettings> => {
   const now = new Date();
@@ -38,10 +70,29 @@ export const createDefaultSettings = async (): Promise<UserSettings> => {
     offlineMode: false,
     knownSurahs: [],
     w: DEFAULT_PARAMETERS.w,
-    learningSteps: [1, 10, 60, 360], // Minutes
-    lapseSteps: [10, 60], // Minutes
+    learningSteps: DEFAULT_PARAMETERS.learningSteps,
+    lapseSteps: DEFAULT_PARAMETERS.lapseSteps,
     maxReviewsPerSession: 20,
     reviewAheadDays: 0,
+    enableFuzz: DEFAULT_PARAMETERS.enableFuzz,
+    loadBalancing: false,
+    reviewSortOrder: 'retrievability',
+    dayStartHour: DEFAULT_PARAMETERS.dayStartHour,
+    leechThreshold: 8,
+    leechAction: 'suspend',
+    revisionMode: 'fsrs',
+    sabqiDays: 30,
+    manzilCycleDays: 30,
+    consolidationStability: 60,
+    freezeResumeMode: 'shift',
+    catchUpDays: 7,
+    sequentialUnlock: false,
+    unlockStability: 3,
+    reviewMode: 'recite',
+    consolidationReviewMode: 'recite',
+    clozeShare: 0.3,
+    clozeSelection: 'random',
+    clozeInput: 'bank',
     createdAt: now,
     updatedAt: now
   };
@@ -51,8 +102,11 @@ export const createDefaultSettings = async (): Promise<UserSettings> => {
       id, easeFactor, requestRetention, reviewLimit, newAyahsPerDay,
       groupingMethod, groupingSize, theme, quranScript, audioEnabled, offlineMode,
       knownSurahs, fsrsParameters, learningSteps, lapseSteps,
-      maxReviewsPerSession, reviewAheadDays, createdAt, updatedAt
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      maxReviewsPerSession, reviewAheadDays, enableFuzz, loadBalancing, reviewSortOrder,
+      dayStartHour, leechThreshold, leechAction, revisionMode, sabqiDays, manzilCycleDays,
+      consolidationStability, freezeResumeMode, catchUpDays, sequentialUnlock, unlockStability,
+      reviewMode, consolidationReviewMode, clozeShare, clozeSelection, clozeInput, createdAt, updatedAt
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       defaultSettings.id,
       defaultSettings.easeFactor,
@@ -71,6 +125,25 @@ export const createDefaultSettings = async (): Promise<UserSettings> => {
       JSON.stringify(defaultSettings.lapseSteps),
       defaultSettings.maxReviewsPerSession,
       defaultSettings.reviewAheadDays,
+      defaultSettings.enableFuzz ? 1 : 0,
+      defaultSettings.loadBalancing ? 1 : 0,
+      defaultSettings.reviewSortOrder,
+      defaultSettings.dayStartHour,
+      defaultSettings.leechThreshold,
+      defaultSettings.leechAction,
+      defaultSettings.revisionMode,
+      defaultSettings.sabqiDays,
+      defaultSettings.manzilCycleDays,
+      defaultSettings.consolidationStability,
+      defaultSettings.freezeResumeMode,
+      defaultSettings.catchUpDays,
+      defaultSettings.sequentialUnlock ? 1 : 0,
+      defaultSettings.unlockStability,
+      defaultSettings.reviewMode,
+      defaultSettings.consolidationReviewMode,
+      defaultSettings.clozeShare,
+      defaultSettings.clozeSelection,
+      defaultSettings.clozeInput,
       defaultSettings.createdAt.toISOString(),
       defaultSettings.updatedAt.toISOString()
     ]
@@ -109,6 +182,25 @@ export const updateSettings = async (settings: Partial<UserSettings>): Promise<U
       lapseSteps = ?,
       maxReviewsPerSession = ?,
       reviewAheadDays = ?,
+      enableFuzz = ?,
+      loadBalancing = ?,
+      reviewSortOrder = ?,
+      dayStartHour = ?,
+      leechThreshold = ?,
+      leechAction = ?,
+      revisionMode = ?,
+      sabqiDays = ?,
+      manzilCycleDays = ?,
+      consolidationStability = ?,
+      freezeResumeMode = ?,
+      catchUpDays = ?,
+      sequentialUnlock = ?,
+      unlockStability = ?,
+      reviewMode = ?,
+      consolidationReviewMode = ?,
+      clozeShare = ?,
+      clozeSelection = ?,
+      clozeInput = ?,
       updatedAt = ?
     WHERE id = ?`,
     [
@@ -128,6 +220,25 @@ export const updateSettings = async (settings: Partial<UserSettings>): Promise<U
       JSON.stringify(updatedSettings.lapseSteps),
       updatedSettings.maxReviewsPerSession,
       updatedSettings.reviewAheadDays,
+      updatedSettings.enableFuzz ? 1 : 0,
+      updatedSettings.loadBalancing ? 1 : 0,
+      updatedSettings.reviewSortOrder,
+      updatedSettings.dayStartHour,
+      updatedSettings.leechThreshold,
+      updatedSettings.leechAction,
+      updatedSettings.revisionMode,
+      updatedSettings.sabqiDays,
+      updatedSettings.manzilCycleDays,
+      updatedSettings.consolidationStability,
+      updatedSettings.freezeResumeMode,
+      updatedSettings.catchUpDays,
+      updatedSettings.sequentialUnlock ? 1 : 0,
+      updatedSettings.unlockStability,
+      updatedSettings.reviewMode,
+      updatedSettings.consolidationReviewMode,
+      updatedSettings.clozeShare,
+      updatedSettings.clozeSelection,
+      updatedSettings.clozeInput,
       updatedSettings.updatedAt.toISOString(),
       DEFAULT_SETTINGS_ID
     ]
@@ -144,6 +255,9 @@ export const resetSettings = async (): Promise<UserSettings> => {
 
 // Helper function to map database row to UserSettings object
 const mapRowToSettings = (row: any): UserSettings => {
+  // Fall back to the default weights if the stored ones don't fit the FSRS-5 model
+  const w: number[] = JSON.parse(row.fsrsParameters);
+  
   return {
     id: row.id,
     easeFactor: row.easeFactor,
@@ -157,11 +271,30 @@ const mapRowToSettings = (row: any): UserSettings => {
     audioEnabled: row.audioEnabled === 1,
     offlineMode: row.offlineMode === 1,
     knownSurahs: JSON.parse(row.knownSurahs),
-    w: JSON.parse(row.fsrsParameters),
+    w: w.length === DEFAULT_PARAMETERS.w.length ? w : DEFAULT_PARAMETERS.w,
     learningSteps: JSON.parse(row.learningSteps),
     lapseSteps: JSON.parse(row.lapseSteps),
     maxReviewsPerSession: row.maxReviewsPerSession,
     reviewAheadDays: row.reviewAheadDays,
+    enableFuzz: row.enableFuzz === 1,
+    loadBalancing: row.loadBalancing === 1,
+    reviewSortOrder: (row.reviewSortOrder || 'retrievability') as ReviewSortOrder,
+    dayStartHour: row.dayStartHour ?? DEFAULT_PARAMETERS.dayStartHour,
+    leechThreshold: row.leechThreshold ?? 8,
+    leechAction: (row.leechAction || 'suspend') as LeechAction,
+    revisionMode: (row.revisionMode || 'fsrs') as RevisionMode,
+    sabqiDays: row.sabqiDays ?? 30,
+    manzilCycleDays: row.manzilCycleDays ?? 30,
+    consolidationStability: row.consolidationStability ?? 60,
+    freezeResumeMode: (row.freezeResumeMode || 'shift') as FreezeResumeMode,
+    catchUpDays: row.catchUpDays ?? 7,
+    sequentialUnlock: row.sequentialUnlock === 1,
+    unlockStability: row.unlockStability ?? 3,
+    reviewMode: (row.reviewMode ?? 'recite') as ReviewMode,
+    consolidationReviewMode: (row.consolidationReviewMode ?? 'recite') as ReviewMode,
+    clozeShare: row.clozeShare ?? 0.3,
+    clozeSelection: (row.clozeSelection ?? 'random') as ClozeSelection,
+    clozeInput: (row.clozeInput ?? 'bank') as ClozeInput,
     createdAt: new Date(row.createdAt),
     updatedAt: new Date(row.updatedAt)
   };
@@ -0,0 +1,108 @@
+import { executeQuery, executeUpdate } from './index';
+
+// Words missed in cloze reviews, counted per word position in each ayah. Positions are kept per
+// script since the scripts don't always split an ayah into the same words. Weighted cloze
+// reviews use these counts to blank out the words a student tends to get wrong.
+
+export interface WordPosition {
+  surahNumber: number;
+  ayahNumber: number;
+  wordIndex: number;
+}
+
+// Words missed in one cloze review, in the script it was shown in
+export interface MissedWords {
+  words: WordPosition[];
+  scriptType: string;
+}
+
+// A word's stored count before a review recorded a miss for it (null when it had none)
+export interface WordMistakeSnapshot extends WordPosition {
+  scriptType: string;
+  previous: { misses: number; lastMissed: string } | null;
+}
+
+// Key for a word position in the map returned by getWordMistakes
+export const getWordKey = (surahNumber: number, ayahNumber: number, wordIndex: number): string => {
+  return `${surahNumber}:${ayahNumber}:${wordIndex}`;
+};
+
+// Get how often each word of the given ayahs has been missed, keyed by getWordKey
+export const getWordMistakes = async (
+  ayahs: { surahNumber: number; ayahNumber: number }[],
+  scriptType: string
+): Promise<Map<string, number>> => {
+  const mistakes = new Map<string, number>();
+
+  if (ayahs.length === 0) {
+    return mistakes;
+  }
+
+  const rows = await executeQuery(
+    `SELECT surahNumber, ayahNumber, wordIndex, misses FROM word_mistakes
+     WHERE scriptType = ? AND (${ayahs.map(() => '(surahNumber = ? AND ayahNumber = ?)').join(' OR ')})`,
+    [scriptType, ...ayahs.flatMap(ayah => [ayah.surahNumber, ayah.ayahNumber])]
+  );
+
+  rows.forEach(row => {
+    mistakes.set(getWordKey(row.surahNumber, row.ayahNumber, row.wordIndex), row.misses);
+  });
+
+  return mistakes;
+};
+
+// Count a miss for each of the given words
+export const recordWordMistakes = async (words: WordPosition[], scriptType: string): Promise<void> => {
+  const now = new Date().toISOString();
+
+  for (const word of words) {
+    await executeUpdate(
+      `INSERT INTO word_mistakes (surahNumber, ayahNumber, scriptType, wordIndex, misses, lastMissed)
+       VALUES (?, ?, ?, ?, 1, ?)
+       ON CONFLICT (surahNumber, ayahNumber, scriptType, wordIndex)
+       DO UPDATE SET misses = misses + 1, lastMissed = excluded.lastMissed`,
+      [word.surahNumber, word.ayahNumber, scriptType, word.wordIndex, now]
+    );
+  }
+};
+
+// Get the stored counts of the missed words, so recording them can be undone
+export const getWordMistakeSnapshots = async ({ words, scriptType }: MissedWords): Promise<WordMistakeSnapshot[]> => {
+  const snapshots: WordMistakeSnapshot[] = [];
+
+  for (const word of words) {
+    const rows = await executeQuery(
+      `SELECT misses, lastMissed FROM word_mistakes
+       WHERE surahNumber = ? AND ayahNumber = ? AND scriptType = ? AND wordIndex = ?`,
+      [word.surahNumber, word.ayahNumber, scriptType, word.wordIndex]
+    );
+
+    snapshots.push({
+      ...word,
+      scriptType,
+      previous: rows.length > 0 ? { misses: rows[0].misses, lastMissed: rows[0].lastMissed } : null
+    });
+  }
+
+  return snapshots;
+};
+
+// Put word counts back the way they were snapshotted, dropping words that had no misses.
+// Runs inside the caller's transaction.
+export const restoreWordMistakes = async (snapshots: WordMistakeSnapshot[]): Promise<void> => {
+  for (const { surahNumber, ayahNumber, scriptType, wordIndex, previous } of snapshots) {
+    if (previous) {
+      await executeUpdate(
+        `UPDATE word_mistakes SET misses = ?, lastMissed = ?
+         WHERE surahNumber = ? AND ayahNumber = ? AND scriptType = ? AND wordIndex = ?`,
+        [previous.misses, previous.lastMissed, surahNumber, ayahNumber, scriptType, wordIndex]
+      );
+    } else {
+      await executeUpdate(
+        `DELETE FROM word_mistakes
+         WHERE surahNumber = ? AND ayahNumber = ? AND scriptType = ? AND wordIndex = ?`,
+        [surahNumber, ayahNumber, scriptType, wordIndex]
+      );
+    }
+  }
+};
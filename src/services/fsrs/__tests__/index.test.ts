@@ -0,0 +1,191 @@
+import { FSRSCard, Rating, ReviewEntry } from '../../../types';
+import { addDays, getStudyDayStart } from '../../../utils/studyDay';
+import {
+  applyFuzz,
+  balanceInterval,
+  DEFAULT_PARAMETERS,
+  forgettingCurve,
+  getFuzzRange,
+  initializeCard,
+  MAX_DIFFICULTY,
+  MIN_DIFFICULTY,
+  nextInterval,
+  replayHistory,
+  scheduleReview
+} from '../index';
+
+const MINUTE_MS = 60 * 1000;
+const NOW = new Date(2025, 0, 10, 12);
+
+// A card in review, last reviewed `daysAgo` days before NOW
+const reviewCard = (stability: number, daysAgo: number): FSRSCard => ({
+  ...initializeCard(),
+  state: 'review',
+  stability,
+  difficulty: 5,
+  lastReview: addDays(NOW, -daysAgo),
+  dueDate: NOW,
+  interval: daysAgo
+});
+
+describe('forgetting curve and intervals', () => {
+  it('gives 90% retrievability after as many days as the stability', () => {
+    expect(forgettingCurve(10, 10)).toBeCloseTo(0.9, 10);
+    expect(forgettingCurve(0, 10)).toBe(1);
+  });
+
+  it('schedules the interval that reaches the requested retention', () => {
+    expect(nextInterval(10, 0.9)).toBe(10);
+    expect(nextInterval(10, 0.95)).toBeLessThan(10);
+    expect(nextInterval(10, 0.8)).toBeGreaterThan(10);
+  });
+
+  it('never schedules less than a day', () => {
+    expect(nextInterval(0.1, 0.9)).toBe(1);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('starts a new card on the learning steps', () => {
+    const card = scheduleReview(initializeCard(), 3, NOW);
+
+    expect(card.state).toBe('learning');
+    expect(card.step).toBe(1);
+    expect(card.interval).toBe(0);
+    expect(card.stability).toBeCloseTo(DEFAULT_PARAMETERS.w[2]);
+    expect(card.dueDate).toEqual(new Date(NOW.getTime() + 10 * MINUTE_MS));
+  });
+
+  it('graduates after the final learning step', () => {
+    let card = initializeCard();
+    let time = NOW;
+
+    for (let i = 0; i < DEFAULT_PARAMETERS.learningSteps.length; i++) {
+      card = scheduleReview(card, 3, time);
+      time = card.dueDate!;
+    }
+
+    expect(card.state).toBe('review');
+    expect(card.interval).toBeGreaterThanOrEqual(1);
+  });
+
+  it('graduates straight away on Easy, due at the start of a study day', () => {
+    const card = scheduleReview(initializeCard(), 4, NOW);
+
+    expect(card.state).toBe('review');
+    expect(card.interval).toBe(nextInterval(DEFAULT_PARAMETERS.w[3], DEFAULT_PARAMETERS.requestRetention));
+    expect(card.dueDate).toEqual(addDays(getStudyDayStart(NOW), card.interval));
+  });
+
+  it('sends a lapsed review card to relearning', () => {
+    const card = scheduleReview(reviewCard(20, 20), 1, NOW);
+
+    expect(card.state).toBe('relearning');
+    expect(card.lapses).toBe(1);
+    expect(card.step).toBe(0);
+    expect(card.stability).toBeLessThan(20);
+    expect(card.dueDate).toEqual(new Date(NOW.getTime() + DEFAULT_PARAMETERS.lapseSteps[0] * MINUTE_MS));
+  });
+
+  it('grows stability more for better ratings', () => {
+    const stabilities = ([2, 3, 4] as Rating[]).map(rating => scheduleReview(reviewCard(10, 10), rating, NOW).stability);
+
+    expect(stabilities[0]).toBeGreaterThan(10);
+    expect(stabilities[1]).toBeGreaterThan(stabilities[0]);
+    expect(stabilities[2]).toBeGreaterThan(stabilities[1]);
+  });
+
+  it('keeps difficulty on its scale', () => {
+    let card = reviewCard(10, 10);
+    const yesterday = addDays(NOW, -1);
+
+    for (let i = 0; i < 20; i++) {
+      card = scheduleReview({ ...card, state: 'review', lastReview: yesterday }, 1, NOW);
+      expect(card.difficulty).toBeLessThanOrEqual(MAX_DIFFICULTY);
+    }
+    for (let i = 0; i < 40; i++) {
+      card = scheduleReview({ ...card, state: 'review', lastReview: yesterday }, 4, NOW);
+      expect(card.difficulty).toBeGreaterThanOrEqual(MIN_DIFFICULTY);
+    }
+  });
+
+  it('only fuzzes review intervals when given a seed', () => {
+    const plain = scheduleReview(reviewCard(30, 30), 3, NOW);
+    const fuzzed = scheduleReview(reviewCard(30, 30), 3, NOW, DEFAULT_PARAMETERS, 'unit:1');
+    const { minInterval, maxInterval } = getFuzzRange(plain.interval);
+
+    expect(fuzzed.stability).toBe(plain.stability);
+    expect(fuzzed.interval).toBe(applyFuzz(plain.interval, 'unit:1'));
+    expect(fuzzed.interval).toBeGreaterThanOrEqual(minInterval);
+    expect(fuzzed.interval).toBeLessThanOrEqual(maxInterval);
+  });
+});
+
+describe('fuzz and load balancing', () => {
+  it('leaves short intervals alone', () => {
+    expect(getFuzzRange(2)).toEqual({ minInterval: 2, maxInterval: 2 });
+  });
+
+  it('fuzzes deterministically within the range', () => {
+    const { minInterval, maxInterval } = getFuzzRange(50);
+
+    for (let i = 0; i < 50; i++) {
+      const interval = applyFuzz(50, `seed:${i}`);
+      expect(interval).toBeGreaterThanOrEqual(minInterval);
+      expect(interval).toBeLessThanOrEqual(maxInterval);
+      expect(applyFuzz(50, `seed:${i}`)).toBe(interval);
+    }
+  });
+
+  it('moves a review to the least loaded day in the fuzz window', () => {
+    const { minInterval, maxInterval } = getFuzzRange(20);
+    const dueCounts = Array.from({ length: maxInterval + 1 }, () => 10);
+    dueCounts[minInterval] = 2;
+
+    expect(balanceInterval(20, 20, dueCounts)).toBe(minInterval);
+  });
+
+  it('keeps the fuzzed interval when the load is even', () => {
+    const dueCounts = Array.from({ length: 30 }, () => 5);
+
+    expect(balanceInterval(20, 21, dueCounts)).toBe(21);
+  });
+});
+
+describe('replayHistory', () => {
+  const history: ReviewEntry[] = [
+    { date: new Date(2025, 0, 1, 9), rating: 3 },
+    { date: new Date(2025, 0, 1, 9, 10), rating: 3 },
+    { date: new Date(2025, 0, 2, 9), rating: 3 },
+    { date: new Date(2025, 0, 5, 9), rating: 1 },
+    { date: new Date(2025, 0, 5, 9, 10), rating: 3 },
+    { date: new Date(2025, 0, 12, 9), rating: 2 }
+  ];
+
+  it('matches scheduling each review in turn', () => {
+    const expected = history.reduce(
+      (card, entry) => scheduleReview(card, entry.rating, entry.date),
+      initializeCard()
+    );
+
+    expect(replayHistory(history)).toEqual(expected);
+  });
+
+  it('replays in date order whatever order the history is stored in', () => {
+    expect(replayHistory([...history].reverse())).toEqual(replayHistory(history));
+  });
+
+  it('fuzzes only the final review', () => {
+    const plain = replayHistory(history);
+    const fuzzed = replayHistory(history, DEFAULT_PARAMETERS, 'unit:5');
+
+    expect(fuzzed.stability).toBe(plain.stability);
+    expect(fuzzed.difficulty).toBe(plain.difficulty);
+    expect(fuzzed.lapses).toBe(plain.lapses);
+    expect(fuzzed.state).toBe(plain.state);
+  });
+
+  it('starts from a new card with no history', () => {
+    expect(replayHistory([])).toEqual(initializeCard());
+  });
+});
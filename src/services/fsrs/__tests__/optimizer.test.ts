@@ -0,0 +1,137 @@
+import { AyahProgress, FreezePeriod, Rating } from '../../../types';
+import { addDays } from '../../../utils/studyDay';
+import { DEFAULT_PARAMETERS, forgettingCurve, initializeCard, scheduleReview } from '../index';
+import {
+  buildReviewSequences,
+  evaluateParameters,
+  MIN_REVIEWS_FOR_OPTIMIZATION,
+  optimizeParameters,
+  ReviewSequence
+} from '../optimizer';
+
+const START = new Date(2025, 0, 10, 12);
+
+const ayah = (id: string, reviews: [number, Rating][]): AyahProgress => ({
+  id,
+  cardType: 'ayah',
+  surahNumber: 1,
+  ayahNumber: 1,
+  groupId: `group-${id}`,
+  recallScore: 0,
+  lastReviewed: null,
+  nextReview: null,
+  easeFactor: 2.5,
+  stability: 0,
+  difficulty: 0,
+  lapses: 0,
+  state: 'review',
+  interval: 0,
+  learningStep: 0,
+  createdAt: START,
+  history: reviews.map(([day, rating]) => ({ date: addDays(START, day), rating })),
+  testWithGroup: false,
+  groupPosition: 1,
+  leech: false,
+  suspended: false,
+  buriedUntil: null,
+  promptAyahNumber: null,
+  juzNumber: null
+});
+
+const freeze = (startDay: number, resumedDay: number | null): FreezePeriod => ({
+  id: `freeze-${startDay}`,
+  startDate: addDays(START, startDay),
+  endDate: addDays(START, resumedDay ?? startDay + 30),
+  resumedAt: resumedDay === null ? null : addDays(START, resumedDay),
+  resumeMode: resumedDay === null ? null : 'shift',
+  createdAt: START
+});
+
+// A review sequence on the given days, none after a freeze
+const sequence = (id: string, reviews: [number, Rating][]): ReviewSequence => ({
+  id,
+  reviews: reviews.map(([day, rating]) => ({ date: addDays(START, day), rating, afterFreeze: false }))
+});
+
+describe('buildReviewSequences', () => {
+  it('skips ayahs with fewer than two reviews and sorts the rest by date', () => {
+    const sequences = buildReviewSequences([
+      ayah('1:1', [[10, 3], [0, 3], [3, 1]]),
+      ayah('1:2', [[0, 3]])
+    ]);
+
+    expect(sequences).toHaveLength(1);
+    expect(sequences[0].reviews.map(review => review.rating)).toEqual([3, 1, 3]);
+  });
+
+  it('flags reviews whose gap overlaps a freeze', () => {
+    const [flagged] = buildReviewSequences(
+      [ayah('1:1', [[0, 3], [3, 3], [20, 3], [25, 3]])],
+      [freeze(5, 15)]
+    );
+
+    expect(flagged.reviews.map(review => review.afterFreeze)).toEqual([false, false, true, false]);
+  });
+
+  it('treats a freeze that has not been resumed as still running', () => {
+    const [flagged] = buildReviewSequences(
+      [ayah('1:1', [[0, 3], [3, 3], [20, 3]])],
+      [freeze(10, null)]
+    );
+
+    expect(flagged.reviews.map(review => review.afterFreeze)).toEqual([false, false, true]);
+  });
+});
+
+describe('evaluateParameters', () => {
+  it('gives the log-loss of the predicted retrievability at each later review', () => {
+    const first = scheduleReview(initializeCard(), 3, START, DEFAULT_PARAMETERS);
+    const retrievability = forgettingCurve(10, first.stability);
+
+    const recalled = evaluateParameters(DEFAULT_PARAMETERS.w, [sequence('a', [[0, 3], [10, 3]])]);
+    const forgotten = evaluateParameters(DEFAULT_PARAMETERS.w, [sequence('a', [[0, 3], [10, 1]])]);
+
+    expect(recalled.reviewCount).toBe(1);
+    expect(recalled.logLoss).toBeCloseTo(-Math.log(retrievability), 6);
+    expect(recalled.rmse).toBeCloseTo(1 - retrievability, 6);
+    expect(forgotten.logLoss).toBeCloseTo(-Math.log(1 - retrievability), 6);
+  });
+
+  it('leaves out same-day reviews and reviews after a freeze', () => {
+    const frozen = sequence('a', [[0, 3], [10, 3]]);
+    frozen.reviews[1].afterFreeze = true;
+
+    expect(evaluateParameters(DEFAULT_PARAMETERS.w, [sequence('a', [[0, 3], [0, 3]])]).reviewCount).toBe(0);
+    expect(evaluateParameters(DEFAULT_PARAMETERS.w, [frozen])).toEqual({ logLoss: 0, rmse: 0, reviewCount: 0 });
+  });
+});
+
+describe('optimizeParameters', () => {
+  it('needs enough review history', async () => {
+    const sequences = [sequence('a', [[0, 3], [3, 3]])];
+
+    await expect(optimizeParameters(sequences)).rejects.toThrow(
+      `Not enough review history to optimize (1 of ${MIN_REVIEWS_FOR_OPTIMIZATION} reviews)`
+    );
+  });
+
+  it('lowers the loss on a history the default weights predict poorly', async () => {
+    // Ayahs that are remembered for a few days but forgotten after longer gaps
+    const sequences = Array.from({ length: 20 }, (_, i) => sequence(`1:${i + 1}`, [
+      [0, 3],
+      [2, 3],
+      [6, 3],
+      [20, 1],
+      [22, 3],
+      [40, 1]
+    ]));
+    const onProgress = jest.fn();
+
+    const result = await optimizeParameters(sequences, DEFAULT_PARAMETERS, { iterations: 5, onProgress });
+
+    expect(result.before.reviewCount).toBeGreaterThanOrEqual(MIN_REVIEWS_FOR_OPTIMIZATION);
+    expect(result.after.logLoss).toBeLessThan(result.before.logLoss);
+    expect(result.w).toHaveLength(DEFAULT_PARAMETERS.w.length);
+    expect(onProgress).toHaveBeenLastCalledWith(1);
+  });
+});
@@ -1,31 +1,64 @@
-import { FSRSCard, FSRSParameters, Rating, SchedulingInfo } from '../../types';
+import { FSRSCard, FSRSParameters, Rating, ReviewEntry, SchedulingInfo } from '../../types';
+import { addDays, DEFAULT_DAY_START_HOUR, getStudyDayStart, studyDaysBetween } from '../../utils/studyDay';
 
 /**
- * Free Spaced Repetition System (FSRS) implementation
+ * Free Spaced Repetition System (FSRS-5) implementation
  * Based on the algorithm by Jarrett Ye
- * https://github.com/open-spaced-repetition/fsrs-js
+ * https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
  */
 
+// Forgetting curve constants. FSRS-5 uses a fixed power-law decay, and the
+// factor is chosen so that retrievability is exactly 90% when t = S.
+export const DECAY = -0.5;
+export const FACTOR = Math.pow(0.9, 1 / DECAY) - 1; // 19/81
+
+// Model bounds
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 10;
+export const MIN_STABILITY = 0.01;
+export const MAX_INTERVAL = 36500; // 100 years
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
 // Default FSRS parameters
 export const DEFAULT_PARAMETERS: FSRSParameters = {
-  // Default weights based on FSRS research
+  // Default FSRS-5 weights, trained on the open-spaced-repetition dataset
   w: [
-    0.4, // w₀: initial stability for new cards (optimized from 0.4 to 2.4)
-    0.6, // w₁: initial difficulty modifier
-    2.4, // w₂: exponent for converting elapsed time to forgetting
-    0.94, // w₃: "Again" penalty factor (stability)
-    0.86, // w₄: "Hard" penalty factor (stability)
-    1.01, // w₅: "Good" reward factor (stability)
-    1.3, // w₆: "Easy" reward factor (stability)
-    0.7, // w₇: "Again" penalty factor (difficulty)
-    1.0, // w₈: "Hard" penalty factor (difficulty)
-    1.0, // w₉: "Good" reward factor (difficulty)
-    0.9, // w₁₀: "Easy" reward factor (difficulty)
-    0.2 // w₁₁: elapsed time in days to forgetting probability scaling factor
+    0.40255, // w₀: initial stability after "Again"
+    1.18385, // w₁: initial stability after "Hard"
+    3.173, // w₂: initial stability after "Good"
+    15.69105, // w₃: initial stability after "Easy"
+    7.1949, // w₄: initial difficulty for "Again"
+    0.5345, // w₅: initial difficulty rating scale
+    1.4604, // w₆: difficulty change per rating step
+    0.0046, // w₇: difficulty mean reversion weight
+    1.54575, // w₈: recall stability growth (exponent)
+    0.1192, // w₉: recall stability saturation
+    1.01925, // w₁₀: recall stability gain from low retrievability
+    1.9395, // w₁₁: post-lapse stability scale
+    0.11, // w₁₂: post-lapse difficulty exponent
+    0.29605, // w₁₃: post-lapse stability exponent
+    2.2698, // w₁₄: post-lapse retrievability gain
+    0.2315, // w₁₅: "Hard" penalty
+    2.9898, // w₁₆: "Easy" bonus
+    0.51655, // w₁₇: short-term stability rate
+    0.6621 // w₁₈: short-term rating offset
   ],
-  requestRetention: 0.9 // Default target retention rate (90%)
+  requestRetention: 0.9, // Default target retention rate (90%)
+  learningSteps: [1, 10, 60, 360], // Minutes
+  lapseSteps: [10, 60], // Minutes
+  enableFuzz: true,
+  dayStartHour: DEFAULT_DAY_START_HOUR
 };
 
+// Interval fuzz: each range adds factor × (days of the interval inside that range)
+const FUZZ_RANGES = [
+  { start: 2.5, end: 7, factor: 0.15 },
+  { start: 7, end: 20, factor: 0.1 },
+  { start: 20, end: Infinity, factor: 0.05 }
+];
+
 // Initialize a new card
 export const initializeCard = (): FSRSCard => {
   return {
@@ -36,150 +69,300 @@ export const initializeCard = (): FSRSCard => {
     lapses: 0,
     lastReview: null,
     dueDate: null,
-    interval: 0
+    interval: 0,
+    step: 0
   };
 };
 
-// Calculate forgetting curve memory retention
-export const memoryRetention = (stability: number, elapsedDays: number, w: number[]): number => {
+// Clamp a difficulty value to the 1-10 scale
+const clampDifficulty = (difficulty: number): number => {
+  return Math.min(Math.max(difficulty, MIN_DIFFICULTY), MAX_DIFFICULTY);
+};
+
+// Clamp a stability value to the supported minimum
+const clampStability = (stability: number): number => {
+  return Math.max(stability, MIN_STABILITY);
+};
+
+// Whole study days elapsed between two dates, counted from the day start hour
+export const elapsedDaysBetween = (
+  from: Date,
+  to: Date,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): number => {
+  return Math.max(0, studyDaysBetween(from, to, dayStartHour));
+};
+
+// Power-law forgetting curve: probability of recall after elapsedDays
+export const forgettingCurve = (elapsedDays: number, stability: number): number => {
+  if (stability <= 0) return 0;
   if (elapsedDays <= 0) return 1; // No forgetting if no time has passed
-  return Math.exp(Math.log(0.9) * elapsedDays / stability);
+  return Math.pow(1 + FACTOR * elapsedDays / stability, DECAY);
 };
 
-// Calculate the next interval based on stability
+// Calculate the next interval (in days) that keeps retrievability at requestRetention
 export const nextInterval = (stability: number, requestRetention: number): number => {
   if (stability <= 0) return 0;
-  const interval = Math.round(stability * Math.log(requestRetention) / Math.log(0.9));
-  return Math.max(1, interval); // Minimum interval is 1 day
+  const interval = Math.round(
+    stability / FACTOR * (Math.pow(requestRetention, 1 / DECAY) - 1)
+  );
+  return Math.min(Math.max(1, interval), MAX_INTERVAL); // Minimum interval is 1 day
+};
+
+// Deterministic pseudo-random number in [0, 1) derived from a seed string
+export const seededRandom = (seed: string): number => {
+  // FNV-1a hash of the seed
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+
+  // One round of mulberry32 to spread the bits
+  let t = (hash + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Range of days a review interval may be fuzzed into
+export const getFuzzRange = (interval: number): { minInterval: number; maxInterval: number } => {
+  if (interval < 2.5) {
+    return { minInterval: interval, maxInterval: interval };
+  }
+
+  let delta = 1;
+  for (const range of FUZZ_RANGES) {
+    delta += range.factor * Math.max(Math.min(interval, range.end) - range.start, 0);
+  }
+
+  const maxInterval = Math.min(Math.round(interval + delta), MAX_INTERVAL);
+  const minInterval = Math.min(Math.max(2, Math.round(interval - delta)), maxInterval);
+
+  return { minInterval, maxInterval };
+};
+
+// Fuzz an interval deterministically so cards reviewed together drift apart
+export const applyFuzz = (interval: number, seed: string): number => {
+  const { minInterval, maxInterval } = getFuzzRange(interval);
+  return Math.floor(seededRandom(seed) * (maxInterval - minInterval + 1) + minInterval);
+};
+
+// Pick the least-loaded day inside an interval's fuzz window, preferring days
+// close to the fuzzed interval (dueCounts[i] = reviews already due i days out)
+export const balanceInterval = (
+  interval: number,
+  fuzzedInterval: number,
+  dueCounts: number[]
+): number => {
+  const { minInterval, maxInterval } = getFuzzRange(interval);
+  let bestInterval = fuzzedInterval;
+  let bestLoad = dueCounts[fuzzedInterval] || 0;
+
+  for (let candidate = minInterval; candidate <= maxInterval; candidate++) {
+    const load = dueCounts[candidate] || 0;
+    const closer = Math.abs(candidate - fuzzedInterval) < Math.abs(bestInterval - fuzzedInterval);
+
+    if (load < bestLoad || (load === bestLoad && closer)) {
+      bestInterval = candidate;
+      bestLoad = load;
+    }
+  }
+
+  return bestInterval;
+};
+
+// Initial stability after the first rating: S₀(G) = w[G-1]
+export const initStability = (w: number[], rating: Rating): number => {
+  return clampStability(w[rating - 1]);
+};
+
+// Initial difficulty after the first rating: D₀(G) = w₄ - e^(w₅·(G-1)) + 1
+export const initDifficulty = (w: number[], rating: Rating): number => {
+  return clampDifficulty(w[4] - Math.exp(w[5] * (rating - 1)) + 1);
+};
+
+// Difficulty after a review, with linear damping and mean reversion towards D₀(Easy)
+export const nextDifficulty = (w: number[], difficulty: number, rating: Rating): number => {
+  const deltaDifficulty = -w[6] * (rating - 3);
+  const dampedDifficulty = difficulty + deltaDifficulty * (MAX_DIFFICULTY - difficulty) / 9;
+  const reverted = w[7] * initDifficulty(w, 4) + (1 - w[7]) * dampedDifficulty;
+  return clampDifficulty(reverted);
+};
+
+// Stability after a successful recall
+export const nextRecallStability = (
+  w: number[],
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  rating: Rating
+): number => {
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+
+  return clampStability(
+    stability * (
+      1 +
+      Math.exp(w[8]) *
+      (11 - difficulty) *
+      Math.pow(stability, -w[9]) *
+      (Math.exp(w[10] * (1 - retrievability)) - 1) *
+      hardPenalty *
+      easyBonus
+    )
+  );
+};
+
+// Stability after a lapse ("Again" on a review card)
+export const nextForgetStability = (
+  w: number[],
+  difficulty: number,
+  stability: number,
+  retrievability: number
+): number => {
+  const longTerm =
+    w[11] *
+    Math.pow(difficulty, -w[12]) *
+    (Math.pow(stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - retrievability));
+
+  // A lapse can never leave the card more stable than a same-day "Again" would
+  const shortTerm = stability / Math.exp(w[17] * w[18]);
+
+  return clampStability(Math.min(longTerm, shortTerm));
+};
+
+// Stability after a same-day review
+export const nextShortTermStability = (w: number[], stability: number, rating: Rating): number => {
+  return clampStability(stability * Math.exp(w[17] * (rating - 3 + w[18])));
+};
+
+// Delay in minutes before the next (re)learning step, or null if the card graduates
+const nextStepDelay = (steps: number[], step: number, rating: Rating): number | null => {
+  if (steps.length === 0) return null;
+
+  switch (rating) {
+    case 1: // Again: back to the first step
+      return steps[0];
+    case 2: // Hard: repeat the current step (halfway to the next one on the first step)
+      if (step === 0) {
+        return steps.length > 1 ? (steps[0] + steps[1]) / 2 : Math.min(steps[0] * 1.5, steps[0] + 24 * 60);
+      }
+      return steps[Math.min(step, steps.length - 1)];
+    case 3: // Good: advance, graduating after the final step
+      return step + 1 < steps.length ? steps[step + 1] : null;
+    case 4: // Easy: graduate immediately
+      return null;
+  }
 };
 
 // Schedule the next review based on rating
+// (review intervals are only fuzzed when a per-card fuzzSeed is given)
 export const scheduleReview = (
   card: FSRSCard,
   rating: Rating,
   now: Date = new Date(),
-  params: FSRSParameters = DEFAULT_PARAMETERS
+  params: FSRSParameters = DEFAULT_PARAMETERS,
+  fuzzSeed?: string
 ): SchedulingInfo => {
-  const { w, requestRetention } = params;
-  
+  const { w, requestRetention, learningSteps, lapseSteps, enableFuzz, dayStartHour } = params;
+
   // Make a copy of the card to modify
   const result: SchedulingInfo = { ...card };
-  
-  // Calculate elapsed time since last review
-  const elapsedDays = card.lastReview 
-    ? (now.getTime() - card.lastReview.getTime()) / (24 * 60 * 60 * 1000)
-    : 0;
-  
-  // Initialize stability and difficulty for new cards
-  if (card.state === 'new') {
-    result.difficulty = w[1];
-    result.stability = w[0];
+
+  // Update memory state (stability and difficulty)
+  if (card.state === 'new' || card.stability <= 0) {
+    result.stability = initStability(w, rating);
+    result.difficulty = initDifficulty(w, rating);
+  } else {
+    const elapsedDays = card.lastReview ? elapsedDaysBetween(card.lastReview, now, dayStartHour) : 0;
+
+    result.difficulty = nextDifficulty(w, card.difficulty, rating);
+
+    if (elapsedDays === 0) {
+      // Same-day reviews only nudge stability
+      result.stability = nextShortTermStability(w, card.stability, rating);
+    } else {
+      const retrievability = forgettingCurve(elapsedDays, card.stability);
+      result.stability = rating === 1
+        ? nextForgetStability(w, card.difficulty, card.stability, retrievability)
+        : nextRecallStability(w, card.difficulty, card.stability, retrievability, rating);
+    }
   }
 
-  // Update the card based on the rating
-  switch (rating) {
-    case 1: // Again
-      if (card.state === 'new' || card.state === 'learning') {
-        result.state = 'learning';
-      } else {
-        result.state = 'relearning';
-        result.lapses += 1;
-      }
-      
-      // Adjust stability and difficulty
-      if (result.stability > 0) {
-        result.stability = result.stability * w[3];
-      }
-      result.difficulty = Math.min(Math.max(0, result.difficulty + w[7]), 1);
-      
-      // Learning/relearning cards are due immediately
-      result.interval = 0;
-      result.dueDate = now;
-      break;
-      
-    case 2: // Hard
-      if (card.state === 'new') {
-        result.state = 'learning';
-        result.interval = 1;
-        result.dueDate = new Date(now.getTime() + 24 * 60 * 60 * 1000); // Next day
-      } else if (card.state === 'learning' || card.state === 'relearning') {
-        result.interval = 1;
-        result.dueDate = new Date(now.getTime() + 24 * 60 * 60 * 1000); // Next day
-      } else {
-        // Apply stability and difficulty adjustments
-        const retrievability = memoryRetention(card.stability, elapsedDays, w);
-        const hardStability = card.stability * w[4] * Math.pow(retrievability, -w[2]);
-        
-        result.stability = hardStability;
-        result.difficulty = Math.min(Math.max(0, result.difficulty + w[8]), 1);
-        
-        // Calculate new interval based on updated stability
-        result.interval = nextInterval(hardStability, requestRetention);
-        result.dueDate = new Date(now.getTime() + result.interval * 24 * 60 * 60 * 1000);
-      }
-      result.state = card.state === 'relearning' ? 'review' : card.state;
-      break;
-      
-    case 3: // Good
-      if (card.state === 'new' || card.state === 'learning') {
-        result.state = 'review';
-        // First review interval for new/learning cards
-        result.interval = 1;
-        result.dueDate = new Date(now.getTime() + 24 * 60 * 60 * 1000); // Next day
-      } else if (card.state === 'relearning') {
-        result.state = 'review';
-        // Relearning cards get interval based on adjusted stability
-        const retrievability = memoryRetention(card.stability, elapsedDays, w);
-        const goodStability = card.stability * w[5] * Math.pow(retrievability, -w[2]);
-        
-        result.stability = goodStability;
-        result.interval = nextInterval(goodStability, requestRetention);
-        result.dueDate = new Date(now.getTime() + result.interval * 24 * 60 * 60 * 1000);
-      } else {
-        // Regular review
-        const retrievability = memoryRetention(card.stability, elapsedDays, w);
-        const goodStability = card.stability * w[5] * Math.pow(retrievability, -w[2]);
-        
-        result.stability = goodStability;
-        result.interval = nextInterval(goodStability, requestRetention);
-        result.dueDate = new Date(now.getTime() + result.interval * 24 * 60 * 60 * 1000);
-      }
-      
-      result.difficulty = Math.min(Math.max(0, result.difficulty + w[9]), 1);
-      break;
-      
-    case 4: // Easy
-      if (card.state === 'new' || card.state === 'learning' || card.state === 'relearning') {
-        result.state = 'review';
-        // First review interval for new/learning/relearning cards with Easy rating
-        result.interval = 4; // Jump ahead more days for "Easy"
-        result.dueDate = new Date(now.getTime() + 4 * 24 * 60 * 60 * 1000);
-      } else {
-        // Regular review with Easy rating
-        const retrievability = memoryRetention(card.stability, elapsedDays, w);
-        const easyStability = card.stability * w[6] * Math.pow(retrievability, -w[2]);
-        
-        result.stability = easyStability;
-        result.interval = nextInterval(easyStability, requestRetention);
-        result.dueDate = new Date(now.getTime() + result.interval * 24 * 60 * 60 * 1000);
-      }
-      
-      result.difficulty = Math.min(Math.max(0, result.difficulty + w[10]), 1);
-      break;
+  // Work out which step list (if any) the card is moving through
+  let steps: number[] = [];
+  let step = card.step;
+  let relearning = false;
+
+  if (card.state === 'new' || card.state === 'learning') {
+    steps = learningSteps;
+    if (card.state === 'new') step = 0;
+  } else if (card.state === 'relearning') {
+    steps = lapseSteps;
+    relearning = true;
+  } else if (rating === 1) {
+    // A lapse starts relearning from the first lapse step
+    result.lapses += 1;
+    steps = lapseSteps;
+    step = 0;
+    relearning = true;
   }
-  
+
+  const delay = steps.length > 0 ? nextStepDelay(steps, step, rating) : null;
+
+  if (delay !== null) {
+    // Stay in (re)learning and come back after the step's delay
+    result.state = relearning ? 'relearning' : 'learning';
+    result.step = rating === 1 ? 0 : rating === 3 ? step + 1 : step;
+    result.interval = 0;
+    result.dueDate = new Date(now.getTime() + delay * MINUTE_MS);
+  } else {
+    // Graduate (or stay) in review with an FSRS interval
+    result.state = 'review';
+    result.step = 0;
+    result.interval = nextInterval(result.stability, requestRetention);
+    if (enableFuzz && fuzzSeed) {
+      result.interval = applyFuzz(result.interval, fuzzSeed);
+    }
+    // Reviews fall due at the start of the study day `interval` days from now
+    result.dueDate = addDays(getStudyDayStart(now, dayStartHour), result.interval);
+  }
+
   // Update last review time
   result.lastReview = now;
-  
+
   return result;
 };
 
+// Rebuild a card's memory state by replaying its review history
+// (fuzzSeed, if given, fuzzes the interval scheduled by the final review)
+export const replayHistory = (
+  history: ReviewEntry[],
+  params: FSRSParameters = DEFAULT_PARAMETERS,
+  fuzzSeed?: string
+): FSRSCard => {
+  let card = initializeCard();
+
+  const sortedHistory = [...history].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  sortedHistory.forEach((entry, index) => {
+    const isLast = index === sortedHistory.length - 1;
+    card = scheduleReview(card, entry.rating, new Date(entry.date), params, isLast ? fuzzSeed : undefined);
+  });
+
+  return card;
+};
+
 // Calculate the memory retention for a card
-export const calculateRetention = (card: FSRSCard, now: Date = new Date(), params: FSRSParameters = DEFAULT_PARAMETERS): number => {
+export const calculateRetention = (card: FSRSCard, now: Date = new Date()): number => {
   if (!card.lastReview || card.state === 'new') return 0;
-  
-  const elapsedDays = (now.getTime() - card.lastReview.getTime()) / (24 * 60 * 60 * 1000);
-  return memoryRetention(card.stability, elapsedDays, params.w);
+
+  const elapsedDays = (now.getTime() - card.lastReview.getTime()) / DAY_MS;
+  return forgettingCurve(elapsedDays, card.stability);
 };
 
 // Determine if a card is due for review
@@ -189,18 +372,21 @@ export const isDue = (card: FSRSCard, now: Date = new Date()): boolean => {
   return card.dueDate.getTime() <= now.getTime();
 };
 
-// Calculate optimal intervals for each rating
+// Calculate the time until the next review for each rating
+// (in days, fractional while the card is moving through learning steps)
 export const calculateOptimalIntervals = (
   card: FSRSCard,
   now: Date = new Date(),
   params: FSRSParameters = DEFAULT_PARAMETERS
 ): { [key in Rating]: number } => {
   const result: { [key in Rating]: number } = { 1: 0, 2: 0, 3: 0, 4: 0 };
-  
+
   for (let rating = 1; rating <= 4; rating++) {
     const scheduledCard = scheduleReview(card, rating as Rating, now, params);
-    result[rating as Rating] = scheduledCard.interval;
+    result[rating as Rating] = scheduledCard.state === 'review' || !scheduledCard.dueDate
+      ? scheduledCard.interval
+      : (scheduledCard.dueDate.getTime() - now.getTime()) / DAY_MS;
   }
-  
+
   return result;
-};
\ No newline at end of file
+};
@@ -0,0 +1,221 @@
+import { AyahProgress, FreezePeriod, FSRSCard, FSRSParameters, Rating } from '../../types';
+import {
+  DEFAULT_PARAMETERS,
+  elapsedDaysBetween,
+  forgettingCurve,
+  initializeCard,
+  scheduleReview
+} from './index';
+
+/**
+ * On-device FSRS parameter optimizer
+ * Fits the 19 FSRS-5 weights to the user's own review history by minimizing
+ * the log-loss of the predicted retrievability at each review.
+ */
+
+// Minimum number of predictable reviews before optimizing is worthwhile
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 50;
+
+// Allowed range for each weight (mirrors the bounds used by the FSRS optimizer)
+const PARAMETER_BOUNDS: [number, number][] = [
+  [0.01, 100], // w₀
+  [0.01, 100], // w₁
+  [0.01, 100], // w₂
+  [0.01, 100], // w₃
+  [1, 10], // w₄
+  [0.001, 4], // w₅
+  [0.001, 4], // w₆
+  [0.001, 0.75], // w₇
+  [0, 4.5], // w₈
+  [0, 0.8], // w₉
+  [0.001, 3.5], // w₁₀
+  [0.001, 5], // w₁₁
+  [0.001, 0.25], // w₁₂
+  [0.001, 0.9], // w₁₃
+  [0, 4], // w₁₄
+  [0, 1], // w₁₅
+  [1, 6], // w₁₆
+  [0, 2], // w₁₇
+  [0, 2] // w₁₈
+];
+
+// A single ayah's reviews in chronological order. Reviews after a gap that overlaps a freeze
+// still update the memory state but aren't predicted, since the gap wasn't a real interval.
+export interface ReviewSequence {
+  id: string;
+  reviews: { date: Date; rating: Rating; afterFreeze: boolean }[];
+}
+
+// Goodness of fit for a set of weights
+export interface ModelMetrics {
+  logLoss: number;
+  rmse: number;
+  reviewCount: number;
+}
+
+export interface OptimizationResult {
+  w: number[];
+  before: ModelMetrics;
+  after: ModelMetrics;
+}
+
+export interface OptimizerOptions {
+  iterations?: number;
+  learningRate?: number;
+  onProgress?: (progress: number) => void;
+}
+
+// Rebuild review sequences from stored ayah progress history, flagging reviews that
+// follow a freeze
+export const buildReviewSequences = (
+  progress: AyahProgress[],
+  freezePeriods: FreezePeriod[] = []
+): ReviewSequence[] => {
+  return progress
+    .filter(p => p.history.length > 1)
+    .map(p => {
+      const reviews = p.history
+        .map(entry => ({ date: new Date(entry.date), rating: entry.rating }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+      return {
+        id: p.id,
+        reviews: reviews.map((review, index) => ({
+          ...review,
+          afterFreeze: index > 0 && spansFreeze(reviews[index - 1].date, review.date, freezePeriods)
+        }))
+      };
+    });
+};
+
+// Whether the time between two reviews overlaps a freeze
+const spansFreeze = (from: Date, to: Date, periods: FreezePeriod[]): boolean => {
+  return periods.some(period => period.startDate < to && (period.resumedAt ?? new Date()) > from);
+};
+
+// Measure how well a set of weights predicts the recorded reviews, replayed with the rest of
+// `baseParams` (the user's study day start and learning steps) as the scheduler would
+export const evaluateParameters = (
+  w: number[],
+  sequences: ReviewSequence[],
+  baseParams: FSRSParameters = DEFAULT_PARAMETERS
+): ModelMetrics => {
+  const params = { ...baseParams, w };
+  let logLoss = 0;
+  let squaredError = 0;
+  let reviewCount = 0;
+
+  for (const sequence of sequences) {
+    let card: FSRSCard = initializeCard();
+
+    sequence.reviews.forEach((review, index) => {
+      if (index > 0 && card.lastReview) {
+        const elapsedDays = elapsedDaysBetween(card.lastReview, review.date, params.dayStartHour);
+
+        // Same-day reviews are handled by short-term stability and aren't predicted
+        if (elapsedDays > 0 && !review.afterFreeze) {
+          const retrievability = Math.min(
+            Math.max(forgettingCurve(elapsedDays, card.stability), 1e-6),
+            1 - 1e-6
+          );
+          const recalled = review.rating > 1 ? 1 : 0;
+
+          logLoss -= recalled * Math.log(retrievability) + (1 - recalled) * Math.log(1 - retrievability);
+          squaredError += Math.pow(retrievability - recalled, 2);
+          reviewCount++;
+        }
+      }
+
+      card = scheduleReview(card, review.rating, review.date, params);
+    });
+  }
+
+  if (reviewCount === 0) {
+    return { logLoss: 0, rmse: 0, reviewCount: 0 };
+  }
+
+  return {
+    logLoss: logLoss / reviewCount,
+    rmse: Math.sqrt(squaredError / reviewCount),
+    reviewCount
+  };
+};
+
+// Clamp each weight into its allowed range
+const clampParameters = (w: number[]): number[] => {
+  return w.map((value, i) => Math.min(Math.max(value, PARAMETER_BOUNDS[i][0]), PARAMETER_BOUNDS[i][1]));
+};
+
+// Yield to the UI thread so a long optimization doesn't freeze the app
+const yieldToUI = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Fit personal weights with Adam, using finite-difference gradients of the log-loss. Starts from
+// the weights in `params` and replays reviews with the rest of its settings.
+export const optimizeParameters = async (
+  sequences: ReviewSequence[],
+  params: FSRSParameters = DEFAULT_PARAMETERS,
+  options: OptimizerOptions = {}
+): Promise<OptimizationResult> => {
+  const { iterations = 100, learningRate = 0.04, onProgress } = options;
+  const initialW = params.w;
+
+  const before = evaluateParameters(initialW, sequences, params);
+
+  if (before.reviewCount < MIN_REVIEWS_FOR_OPTIMIZATION) {
+    throw new Error(
+      `Not enough review history to optimize (${before.reviewCount} of ${MIN_REVIEWS_FOR_OPTIMIZATION} reviews)`
+    );
+  }
+
+  // Adam state
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+  const epsilon = 1e-8;
+  const m = new Array(initialW.length).fill(0);
+  const v = new Array(initialW.length).fill(0);
+
+  let w = clampParameters(initialW);
+  let loss = evaluateParameters(w, sequences, params).logLoss;
+  let bestW = w;
+  let bestLoss = loss;
+
+  for (let step = 1; step <= iterations; step++) {
+    // Forward-difference gradient for each weight. Each one replays the whole history, so
+    // yield between them rather than only once per step.
+    const gradient: number[] = [];
+
+    for (let i = 0; i < w.length; i++) {
+      const h = 1e-4 * Math.max(1, Math.abs(w[i]));
+      const shifted = [...w];
+      shifted[i] = w[i] + h;
+      gradient.push((evaluateParameters(shifted, sequences, params).logLoss - loss) / h);
+
+      await yieldToUI();
+    }
+
+    w = clampParameters(w.map((value, i) => {
+      m[i] = beta1 * m[i] + (1 - beta1) * gradient[i];
+      v[i] = beta2 * v[i] + (1 - beta2) * gradient[i] * gradient[i];
+      const mHat = m[i] / (1 - Math.pow(beta1, step));
+      const vHat = v[i] / (1 - Math.pow(beta2, step));
+      return value - learningRate * mHat / (Math.sqrt(vHat) + epsilon);
+    }));
+
+    loss = evaluateParameters(w, sequences, params).logLoss;
+    if (loss < bestLoss) {
+      bestLoss = loss;
+      bestW = w;
+    }
+
+    onProgress?.(step / iterations);
+  }
+
+  // Round for storage; four decimal places is well below the model's sensitivity
+  const optimizedW = bestW.map(value => Math.round(value * 10000) / 10000);
+
+  return {
+    w: optimizedW,
+    before,
+    after: evaluateParameters(optimizedW, sequences, params)
+  };
+};
@@ -234,7 +234,7 @@ const mapRowToAyah = (row: any): Ayah => {
   }
   
   // Ensure audioPath is properly handled
-  let audioPath = row.audioPath || null;
+  const audioPath = row.audioPath || null;
   
   // If we have an audioPath, verify it exists
   if (audioPath) {
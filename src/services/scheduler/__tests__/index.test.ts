@@ -0,0 +1,296 @@
+import { executeQuery } from '../../database';
+import { getSettings } from '../../database/settings';
+import { getDueAyahs } from '../../database/ayahProgress';
+import { AyahProgress, CustomSessionOptions, UserSettings } from '../../../types';
+import { getCustomSessionAyahs, getSessionAyahs, getTodayDueReviews } from '../index';
+
+jest.mock('uuid', () => ({ v4: () => 'session-id' }));
+jest.mock('../../database', () => ({
+  executeQuery: jest.fn(),
+  executeUpdate: jest.fn()
+}));
+jest.mock('../../database/settings', () => ({
+  getSettings: jest.fn()
+}));
+jest.mock('../../database/ayahProgress', () => ({
+  AVAILABLE_AYAH_CONDITION: '1 = 1',
+  getDueAyahs: jest.fn(),
+  getLeechAyahs: jest.fn()
+}));
+
+const mockExecuteQuery = executeQuery as jest.Mock;
+const mockGetSettings = getSettings as jest.Mock;
+const mockGetDueAyahs = getDueAyahs as jest.Mock;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ayah = (id: string, overrides: Partial<AyahProgress> = {}): AyahProgress => ({
+  id,
+  cardType: 'ayah',
+  surahNumber: 1,
+  ayahNumber: 1,
+  groupId: `group-${id}`,
+  recallScore: 0,
+  lastReviewed: null,
+  nextReview: null,
+  easeFactor: 2.5,
+  stability: 0,
+  difficulty: 0,
+  lapses: 0,
+  state: 'new',
+  interval: 0,
+  learningStep: 0,
+  createdAt: new Date(),
+  history: [],
+  testWithGroup: false,
+  groupPosition: 1,
+  leech: false,
+  suspended: false,
+  buriedUntil: null,
+  promptAyahNumber: null,
+  juzNumber: null,
+  ...overrides
+});
+
+// The same ayah as a stored row (dates as ISO strings, flags as 0/1)
+const toRow = (progress: AyahProgress) => ({
+  ...progress,
+  lastReviewed: progress.lastReviewed?.toISOString() ?? null,
+  nextReview: progress.nextReview?.toISOString() ?? null,
+  createdAt: progress.createdAt.toISOString(),
+  history: JSON.stringify(progress.history),
+  testWithGroup: progress.testWithGroup ? 1 : 0,
+  leech: 0,
+  suspended: 0
+});
+
+const reviewAyah = (id: string, ayahNumber: number) => ayah(id, {
+  ayahNumber,
+  state: 'review',
+  stability: 10,
+  interval: 10,
+  lastReviewed: new Date(Date.now() - 10 * DAY_MS),
+  nextReview: new Date()
+});
+
+// Rows returned by the database: today's reviewed cards, ayahs of each group, each surah's
+// groups for the new material queue, and the ayahs matching a custom session's filters
+const mockDatabase = ({
+  reviewedToday = [] as AyahProgress[],
+  groups = {} as Record<string, AyahProgress[]>,
+  queues = {} as Record<number, object[]>,
+  custom = [] as AyahProgress[]
+}) => {
+  mockExecuteQuery.mockImplementation(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('FROM ayah_progress WHERE lastReviewed >= ?')) {
+      return reviewedToday.map(toRow);
+    }
+    if (sql.includes('WHERE groupId = ?')) {
+      return (groups[params[0] as string] ?? []).map(toRow);
+    }
+    if (sql.includes('GROUP BY groupId')) {
+      return queues[params[0] as number] ?? [];
+    }
+    if (sql.includes('ORDER BY') && sql.includes('surahNumber ASC, ayahNumber ASC')) {
+      return custom.map(toRow);
+    }
+    return [];
+  });
+};
+
+const settings = (overrides: Partial<UserSettings> = {}) => {
+  mockGetSettings.mockResolvedValue({
+    newAyahsPerDay: 3,
+    reviewLimit: 50,
+    reviewSortOrder: 'retrievability',
+    dayStartHour: 0,
+    revisionMode: 'fsrs',
+    sequentialUnlock: false,
+    unlockStability: 3,
+    ...overrides
+  });
+};
+
+const sessionIds = async () => (await getSessionAyahs()).map(progress => progress.id);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  mockDatabase({});
+  settings();
+});
+
+describe('new material quota', () => {
+  it('introduces new ayahs up to the daily quota', async () => {
+    mockGetDueAyahs.mockResolvedValue([1, 2, 3, 4, 5].map(n => ayah(`1:${n}`, { ayahNumber: n })));
+
+    expect(await sessionIds()).toEqual(['1:1', '1:2', '1:3']);
+  });
+
+  it('counts ayahs introduced earlier today against the quota', async () => {
+    mockDatabase({
+      reviewedToday: [ayah('2:1', { state: 'learning', history: [{ date: new Date(), rating: 3 }] })]
+    });
+    mockGetDueAyahs.mockResolvedValue([1, 2, 3].map(n => ayah(`1:${n}`, { ayahNumber: n })));
+
+    expect(await sessionIds()).toEqual(['1:1', '1:2']);
+    expect((await getTodayDueReviews()).newRemaining).toBe(2);
+  });
+
+  it('holds back the rest of a surah once a group does not fit', async () => {
+    const group = [2, 3, 4].map(n => ayah(`1:${n}`, { ayahNumber: n, groupId: 'big', testWithGroup: true, groupPosition: n - 1 }));
+    mockDatabase({ groups: { big: group } });
+    mockGetDueAyahs.mockResolvedValue([
+      ayah('1:1', { ayahNumber: 1 }),
+      ...group,
+      ayah('1:5', { ayahNumber: 5 }),
+      ayah('2:1', { surahNumber: 2 })
+    ]);
+
+    expect(await sessionIds()).toEqual(['1:1', '2:1']);
+  });
+
+  it('lets a large group in when nothing new has been introduced yet', async () => {
+    const group = [1, 2, 3, 4].map(n => ayah(`1:${n}`, { ayahNumber: n, groupId: 'big', testWithGroup: true, groupPosition: n }));
+    mockDatabase({ groups: { big: group } });
+    mockGetDueAyahs.mockResolvedValue(group);
+
+    expect(await sessionIds()).toEqual(['1:1', '1:2', '1:3', '1:4']);
+  });
+});
+
+describe('sequential unlocking', () => {
+  const queueRow = (groupId: string, startAyah: number, overrides: object = {}) => ({
+    groupId,
+    startAyah,
+    endAyah: startAyah,
+    stability: 0,
+    ayahCount: 1,
+    newCount: 1,
+    unsettledCount: 1,
+    ...overrides
+  });
+
+  it('introduces a surah only up to its next group', async () => {
+    settings({ sequentialUnlock: true });
+    mockDatabase({
+      queues: {
+        1: [
+          queueRow('group-1:1', 1, { newCount: 0, unsettledCount: 0, stability: 5 }),
+          queueRow('group-1:2', 2),
+          queueRow('group-1:3', 3)
+        ]
+      }
+    });
+    mockGetDueAyahs.mockResolvedValue([2, 3].map(n => ayah(`1:${n}`, { ayahNumber: n })));
+
+    expect(await sessionIds()).toEqual(['1:2']);
+  });
+
+  it('waits until the previous group is stable enough', async () => {
+    settings({ sequentialUnlock: true, unlockStability: 3 });
+    mockDatabase({
+      queues: {
+        1: [
+          queueRow('group-1:1', 1, { newCount: 0, unsettledCount: 0, stability: 1 }),
+          queueRow('group-1:2', 2)
+        ],
+        2: [queueRow('group-2:1', 1)]
+      }
+    });
+    mockGetDueAyahs.mockResolvedValue([
+      ayah('1:2', { ayahNumber: 2 }),
+      ayah('2:1', { surahNumber: 2 })
+    ]);
+
+    expect(await sessionIds()).toEqual(['2:1']);
+  });
+});
+
+describe('review quota', () => {
+  it('caps reviews at the review limit but never holds back learning cards', async () => {
+    settings({ reviewLimit: 2 });
+    mockGetDueAyahs.mockResolvedValue([
+      ayah('1:9', { ayahNumber: 9, state: 'learning', history: [{ date: new Date(), rating: 3 }] }),
+      ...[1, 2, 3].map(n => reviewAyah(`1:${n}`, n))
+    ]);
+
+    expect(await sessionIds()).toEqual(['1:9', '1:1', '1:2']);
+  });
+
+  it('counts reviews done earlier today against the limit', async () => {
+    settings({ reviewLimit: 2 });
+    const earlier = reviewAyah('2:1', 1);
+    earlier.history = [
+      { date: new Date(Date.now() - 10 * DAY_MS), rating: 3 },
+      { date: new Date(), rating: 3, previousInterval: 10 }
+    ];
+    mockDatabase({ reviewedToday: [earlier] });
+    mockGetDueAyahs.mockResolvedValue([1, 2, 3].map(n => reviewAyah(`1:${n}`, n)));
+
+    expect(await sessionIds()).toEqual(['1:1']);
+    expect((await getTodayDueReviews()).reviewRemaining).toBe(1);
+  });
+
+  it('does not count reviews done ahead of time against the limit', async () => {
+    settings({ reviewLimit: 2 });
+    const ahead = reviewAyah('2:1', 1);
+    ahead.history = [
+      { date: new Date(Date.now() - 10 * DAY_MS), rating: 3 },
+      { date: new Date(), rating: 3, previousInterval: 10, studyAhead: true }
+    ];
+    mockDatabase({ reviewedToday: [ahead] });
+    mockGetDueAyahs.mockResolvedValue([1, 2, 3].map(n => reviewAyah(`1:${n}`, n)));
+
+    expect(await sessionIds()).toEqual(['1:1', '1:2']);
+  });
+
+  it('does not count learning steps taken today as reviews', async () => {
+    settings({ reviewLimit: 2, newAyahsPerDay: 0 });
+    const learning = ayah('2:1', {
+      state: 'learning',
+      history: [
+        { date: new Date(Date.now() - DAY_MS), rating: 1 },
+        { date: new Date(), rating: 3 }
+      ]
+    });
+    mockDatabase({ reviewedToday: [learning] });
+    mockGetDueAyahs.mockResolvedValue([1, 2, 3].map(n => reviewAyah(`1:${n}`, n)));
+
+    expect(await sessionIds()).toEqual(['1:1', '1:2']);
+  });
+});
+
+describe('custom sessions', () => {
+  const options = (overrides: Partial<CustomSessionOptions> = {}): CustomSessionOptions => ({
+    surahNumber: null,
+    juzRange: null,
+    pageRange: null,
+    states: ['new'],
+    leechesOnly: false,
+    lowestRecall: null,
+    failedWithinDays: null,
+    reviewedToday: false,
+    cram: false,
+    reviewMode: null,
+    ...overrides
+  });
+
+  const customIds = async (overrides: Partial<CustomSessionOptions> = {}) =>
+    (await getCustomSessionAyahs(options(overrides))).map(progress => progress.id);
+
+  beforeEach(() => {
+    mockDatabase({
+      reviewedToday: [ayah('2:1', { state: 'learning', history: [{ date: new Date(), rating: 3 }] })],
+      custom: [1, 2, 3, 4, 5].map(n => ayah(`1:${n}`, { ayahNumber: n }))
+    });
+  });
+
+  it('keeps new ayahs within what is left of the daily quota', async () => {
+    expect(await customIds()).toEqual(['1:1', '1:2']);
+  });
+
+  it('lets cram sessions past the quota', async () => {
+    expect(await customIds({ cram: true })).toEqual(['1:1', '1:2', '1:3', '1:4', '1:5']);
+  });
+});
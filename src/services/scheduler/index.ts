@@ -1,59 +1,434 @@
 import { v4 as uuidv4 } from 'uuid';
 import { executeQuery, executeUpdate } from '../database';
 import { getSettings } from '../database/settings';
-import { getDueAyahs } from '../database/ayahProgress';
-import { AyahProgress, SessionStatistics } from '../../types';
+import { AVAILABLE_AYAH_CONDITION, getDueAyahs, getLeechAyahs } from '../database/ayahProgress';
+import { getFreezePeriods, getFrozenStudyDays } from '../database/freeze';
+import {
+  AyahProgress,
+  CustomSessionOptions,
+  DailyStatistics,
+  ReviewEntry,
+  RevisionTier,
+  SessionStatistics,
+  UserSettings
+} from '../../types';
+import { addDays, getStudyDayKey, getStudyDayStart, studyDaysBetween } from '../../utils/studyDay';
+import { getJuzNumber, JUZ_STARTS } from '../../utils/juz';
 
-// Get today's due reviews
-export const getTodayDueReviews = async (): Promise<{
+// A reviewed group stays in sabqi while its weakest ayah is less stable than this (days),
+// however long ago it was learned
+const SABQI_MAX_STABILITY = 21;
+
+// A card row as stored (dates as ISO strings, flags as 0/1). Link and consolidation card rows
+// carry the extra columns of their own tables.
+interface AyahProgressRow {
+  id: string;
+  surahNumber: number;
+  ayahNumber: number;
+  groupId: string;
+  recallScore: number;
+  lastReviewed: string | null;
+  nextReview: string | null;
+  easeFactor: number;
+  stability: number;
+  difficulty: number;
+  lapses: number;
+  state: AyahProgress['state'];
+  interval: number;
+  learningStep: number | null;
+  createdAt: string;
+  history: string | null;
+  testWithGroup: number;
+  groupPosition: number;
+  leech: number;
+  suspended: number;
+  buriedUntil: string | null;
+  cardType?: AyahProgress['cardType'];
+  fromGroupId?: string;
+  promptAyahNumber?: number | null;
+  juzNumber?: number | null;
+}
+
+// A session_statistics row as stored (date as an ISO string, studyAhead as 0/1)
+interface SessionStatisticsRow {
+  id: string;
+  date: string;
+  totalReviewed: number;
+  newLearned: number;
+  reviewTime: number;
+  ratingAgain: number;
+  ratingHard: number;
+  ratingGood: number;
+  ratingEasy: number;
+  retention: number;
+  studyAhead: number;
+}
+
+// Review units (groups or single ayahs) picked for today's session
+interface SessionUnit {
+  id: string;
+  state: AyahProgress['state'];
+  ayahs: AyahProgress[];
+  tier?: RevisionTier;      // Set when sessions are built in three tiers
+}
+
+// Today's due counts (in review units) and what's left of the daily quotas
+export interface TodayDueReviews {
   due: number;
   new: number;
   learning: number;
   review: number;
+  newRemaining: number;     // New ayahs that can still be introduced today
+  reviewRemaining: number;  // Reviews that can still be done today
+  tiers: Record<RevisionTier, number> | null; // Units per tier in three-tier mode
+  manzilJuz: number[];      // Juz covered by today's manzil slice, in order
+}
+
+// Where a queued group stands in the order new material is introduced within its surah
+export type NewMaterialStatus = 'introduced' | 'next' | 'locked' | 'queued';
+
+export interface QueuedGroup {
+  groupId: string;
+  startAyah: number;
+  endAyah: number;
+  stability: number;        // Stability of the group's weakest ayah
+  status: NewMaterialStatus;
+}
+
+// Count what has already been studied today against the quotas, the same way session
+// selection uses them: new ayahs introduced (counted per ayah, matching newAyahsPerDay), and
+// review units reviewed (a group counts once) from review state or as link and consolidation
+// cards. Learning and relearning reviews use neither quota, and reviews done ahead of time in
+// study-ahead sessions come on top of the review quota.
+export const getTodayStudyCounts = async (dayStartHour: number): Promise<{
+  newIntroduced: number;
+  reviewed: number;
 }> => {
-  try {
-    const settings = await getSettings();
-    const now = new Date().toISOString();
+  const dayStart = getStudyDayStart(new Date(), dayStartHour);
+  
+  const rows = await executeQuery(
+    'SELECT * FROM ayah_progress WHERE lastReviewed >= ?',
+    [dayStart.toISOString()]
+  );
+  
+  let newIntroduced = 0;
+  const reviewedUnits = new Set<string>();
+  
+  // Link and consolidation cards never count as new material, so they only use the review quota
+  const linkRows = await executeQuery(
+    'SELECT * FROM link_cards WHERE lastReviewed >= ?',
+    [dayStart.toISOString()]
+  );
+  const consolidationRows = await executeQuery(
+    'SELECT * FROM consolidation_cards WHERE lastReviewed >= ?',
+    [dayStart.toISOString()]
+  );
+  
+  [...rows, ...linkRows, ...consolidationRows].map(mapRowToAyahProgress).forEach(ayah => {
+    const reviewDates = ayah.history.map(entry => new Date(entry.date).getTime());
+    if (reviewDates.length === 0) return;
     
-    // Get all due ayahs
-    const dueAyahs = await executeQuery(
-      `SELECT * FROM ayah_progress 
-       WHERE nextReview IS NULL OR nextReview <= ?`,
-      [now]
+    const unitId = ayah.testWithGroup ? ayah.groupId : ayah.id;
+    const quotaReviews = ayah.history.filter(entry =>
+      new Date(entry.date) >= dayStart && !entry.studyAhead
     );
     
-    if (dueAyahs.length === 0) {
-      return { due: 0, new: 0, learning: 0, review: 0 };
+    if (ayah.cardType !== 'ayah') {
+      if (quotaReviews.length > 0) {
+        reviewedUnits.add(unitId);
+      }
+    } else if (Math.min(...reviewDates) >= dayStart.getTime()) {
+      // First ever review was today
+      newIntroduced++;
+    } else if (quotaReviews.some(entry => (entry.previousInterval ?? 0) > 0)) {
+      // Reviewed today while in review (cards in learning steps have no interval yet)
+      reviewedUnits.add(unitId);
     }
+  });
+  
+  return { newIntroduced, reviewed: reviewedUnits.size };
+};
+
+// All ayahs reviewed together with this one (grouped ayahs come back in group order,
+// leaving out any that are suspended or buried)
+const getUnitAyahs = async (ayah: AyahProgress): Promise<AyahProgress[]> => {
+  if (!ayah.testWithGroup) {
+    return [ayah];
+  }
+  
+  const now = new Date().toISOString();
+  const groupAyahs = await executeQuery(
+    `SELECT * FROM ayah_progress 
+     WHERE groupId = ? AND ${AVAILABLE_AYAH_CONDITION}
+     ORDER BY groupPosition ASC`,
+    [ayah.groupId, now, now]
+  );
+  
+  return groupAyahs.map(mapRowToAyahProgress).filter(a => a.testWithGroup);
+};
+
+// Pick today's review units in queue order, within what's left of the new and review quotas.
+// Learning and relearning cards are already in progress and are never held back.
+// In three-tier mode, ayah reviews come from the sabqi and manzil blocks instead of FSRS due
+// dates; link and consolidation cards keep their FSRS schedule and join the sabqi block.
+const selectSessionUnits = async (): Promise<{
+  units: SessionUnit[];
+  newQuota: number;
+  reviewQuota: number;
+  tiered: boolean;
+}> => {
+  const settings = await getSettings();
+  const { newIntroduced, reviewed } = await getTodayStudyCounts(settings.dayStartHour);
+  
+  const newQuota = Math.max(settings.newAyahsPerDay - newIntroduced, 0);
+  const reviewQuota = Math.max(settings.reviewLimit - reviewed, 0);
+  let newRemaining = newQuota;
+  let reviewRemaining = reviewQuota;
+  
+  // All due ayahs, in the user's preferred order
+  const dueAyahs = await getDueAyahs(undefined, settings.reviewSortOrder, settings.dayStartHour);
+  
+  const units: SessionUnit[] = [];
+  const seenUnits = new Set<string>();
+  const newMaterialQueues = new Map<number, QueuedGroup[]>();
+  const heldBackSurahs = new Set<number>();
+  const tiered = settings.revisionMode === 'tiered';
+  
+  for (const ayah of dueAyahs) {
+    // The sabqi and manzil blocks stand in for the FSRS review queue in three-tier mode
+    if (tiered && ayah.state === 'review' && ayah.cardType === 'ayah') continue;
+    
+    const unitId = ayah.testWithGroup ? ayah.groupId : ayah.id;
+    if (seenUnits.has(unitId)) continue;
+    seenUnits.add(unitId);
     
-    // Process ayahs to count unique groups
-    const groupMap = new Map<string, any[]>();
+    const ayahs = await getUnitAyahs(ayah);
     
-    // Group ayahs by their group ID if they should be tested as a group
-    dueAyahs.forEach(ayah => {
-      if (ayah.testWithGroup === 1) {
-        if (!groupMap.has(ayah.groupId)) {
-          groupMap.set(ayah.groupId, []);
+    if (ayah.state === 'new' && ayah.cardType === 'ayah') {
+      // New groups come in mushaf order: once one of a surah's groups is held back,
+      // every group after it in that surah waits too
+      if (heldBackSurahs.has(ayah.surahNumber)) continue;
+      
+      // With sequential unlocking, only each surah's next group can be introduced
+      if (settings.sequentialUnlock) {
+        if (!newMaterialQueues.has(ayah.surahNumber)) {
+          newMaterialQueues.set(ayah.surahNumber, await getNewMaterialQueue(ayah.surahNumber, settings));
+        }
+        const queued = newMaterialQueues.get(ayah.surahNumber)!.find(g => g.groupId === ayah.groupId);
+        if (queued?.status !== 'next') {
+          heldBackSurahs.add(ayah.surahNumber);
+          continue;
         }
-        groupMap.get(ayah.groupId)?.push(ayah);
+      }
+      
+      // A group uses one new slot per ayah; one that doesn't fit waits for tomorrow,
+      // unless nothing new has been introduced yet (so large groups aren't stuck forever)
+      const fitsQuota = ayahs.length <= newRemaining ||
+        (newRemaining > 0 && newRemaining === settings.newAyahsPerDay);
+      if (!fitsQuota) {
+        heldBackSurahs.add(ayah.surahNumber);
+        continue;
+      }
+      
+      newRemaining = Math.max(newRemaining - ayahs.length, 0);
+    } else if (ayah.state === 'review' || ayah.cardType !== 'ayah') {
+      // New link and consolidation cards only drill material already learned, so they count as reviews
+      if (reviewRemaining <= 0) continue;
+      
+      reviewRemaining--;
+    }
+    
+    units.push({ id: unitId, state: ayah.state, ayahs });
+  }
+  
+  // In three-tier mode the sabaq block (new and learning units) keeps its quotas. Link and
+  // consolidation cards in review go with the sabqi block, and what's left of the review
+  // quota is filled from the sabqi block and then today's manzil slice.
+  if (tiered) {
+    const sabaq = units
+      .filter(unit => unit.state !== 'review')
+      .map(unit => ({ ...unit, tier: 'sabaq' as const }));
+    const scheduledSabqi = units
+      .filter(unit => unit.state === 'review')
+      .map(unit => ({ ...unit, tier: 'sabqi' as const }));
+    const { sabqi, manzil } = await selectRevisionBlocks(settings);
+    
+    return {
+      units: [...sabaq, ...scheduledSabqi, ...[...sabqi, ...manzil].slice(0, reviewRemaining)],
+      newQuota,
+      reviewQuota,
+      tiered: true
+    };
+  }
+  
+  return { units, newQuota, reviewQuota, tiered: false };
+};
+
+// A surah's queued groups in mushaf order, with the next one to introduce. New groups are
+// introduced strictly in order; with sequential unlocking, the next group also waits until
+// every ayah of the group before it is in review with at least the unlock stability.
+export const getNewMaterialQueue = async (
+  surahNumber: number,
+  settings?: UserSettings
+): Promise<QueuedGroup[]> => {
+  const { sequentialUnlock, unlockStability } = settings ?? await getSettings();
+  
+  const rows = await executeQuery(
+    `SELECT groupId,
+       MIN(ayahNumber) AS startAyah,
+       MAX(ayahNumber) AS endAyah,
+       MIN(stability) AS stability,
+       COUNT(*) AS ayahCount,
+       SUM(CASE WHEN state = 'new' THEN 1 ELSE 0 END) AS newCount,
+       SUM(CASE WHEN state = 'review' THEN 0 ELSE 1 END) AS unsettledCount
+     FROM ayah_progress
+     WHERE surahNumber = ?
+     GROUP BY groupId
+     ORDER BY startAyah ASC`,
+    [surahNumber]
+  );
+  
+  let nextFound = false;
+  
+  return rows.map((row, index) => {
+    let status: NewMaterialStatus = 'introduced';
+    
+    if (row.newCount > 0) {
+      if (nextFound) {
+        status = 'queued';
       } else {
-        // For ayahs not tested as groups, use their ID as a unique "group"
-        groupMap.set(ayah.id, [ayah]);
+        const previous = index > 0 ? rows[index - 1] : null;
+        // A group that's partly introduced has already been unlocked
+        const unlocked = !sequentialUnlock || !previous || row.newCount < row.ayahCount ||
+          (previous.unsettledCount === 0 && previous.stability >= unlockStability);
+        
+        status = unlocked ? 'next' : 'locked';
+        nextFound = true;
       }
-    });
+    }
+    
+    return {
+      groupId: row.groupId,
+      startAyah: row.startAyah,
+      endAyah: row.endAyah,
+      stability: row.stability,
+      status
+    };
+  });
+};
+
+// Tier of a review unit: still being learned (sabaq), learned recently or not yet
+// stable (sabqi), or long memorized (manzil)
+export const getRevisionTier = (
+  ayahs: AyahProgress[],
+  sabqiDays: number,
+  now: Date = new Date(),
+  dayStartHour?: number
+): RevisionTier => {
+  if (ayahs.some(ayah => ayah.state !== 'review')) {
+    return 'sabaq';
+  }
+  
+  // Age counts from the unit's first ever review
+  const firstReview = Math.min(...ayahs.map(ayah =>
+    ayah.history.length > 0 ? new Date(ayah.history[0].date).getTime() : ayah.createdAt.getTime()
+  ));
+  const age = studyDaysBetween(new Date(firstReview), now, dayStartHour);
+  const stability = Math.min(...ayahs.map(ayah => ayah.stability));
+  
+  return age < sabqiDays || stability < SABQI_MAX_STABILITY ? 'sabqi' : 'manzil';
+};
+
+// Build the sabqi block (every recent unit, daily) and today's manzil slice (the juz holding
+// old units, split into manzilCycleDays parts taken one per day, each unit going with the juz
+// it starts in), leaving out anything already reviewed today. Both blocks are in mushaf order.
+const selectRevisionBlocks = async (settings: UserSettings): Promise<{
+  sabqi: SessionUnit[];
+  manzil: SessionUnit[];
+}> => {
+  const now = new Date();
+  const dayStart = getStudyDayStart(now, settings.dayStartHour);
+  
+  const rows = await executeQuery(
+    `SELECT * FROM ayah_progress 
+     WHERE state = 'review' AND ${AVAILABLE_AYAH_CONDITION}
+     ORDER BY surahNumber ASC, ayahNumber ASC`,
+    [now.toISOString(), now.toISOString()]
+  );
+  
+  // Collect units in mushaf order
+  const unitAyahs = new Map<string, AyahProgress[]>();
+  rows.map(mapRowToAyahProgress).forEach(ayah => {
+    const unitId = ayah.testWithGroup ? ayah.groupId : ayah.id;
+    if (!unitAyahs.has(unitId)) {
+      unitAyahs.set(unitId, []);
+    }
+    unitAyahs.get(unitId)!.push(ayah);
+  });
+  
+  const sabqi: SessionUnit[] = [];
+  const manzil: SessionUnit[] = [];
+  
+  unitAyahs.forEach((ayahs, id) => {
+    const unit: SessionUnit = {
+      id,
+      state: 'review',
+      ayahs: ayahs.sort((a, b) => a.groupPosition - b.groupPosition),
+      tier: getRevisionTier(ayahs, settings.sabqiDays, now, settings.dayStartHour)
+    };
+    
+    if (unit.tier === 'sabqi') {
+      sabqi.push(unit);
+    } else {
+      manzil.push(unit);
+    }
+  });
+  
+  // Split the memorized juz (in mushaf order) into the cycle's parts, so each day covers a
+  // share of whole juz. The cycle position follows the study day, so each part comes round
+  // every manzilCycleDays.
+  const unitJuz = (unit: SessionUnit) => getJuzNumber(unit.ayahs[0].surahNumber, unit.ayahs[0].ayahNumber);
+  const manzilJuz = Array.from(new Set(manzil.map(unitJuz)));
+  const cycleDays = Math.max(settings.manzilCycleDays, 1);
+  const slice = studyDaysBetween(new Date(0), now, settings.dayStartHour) % cycleDays;
+  const sliceJuz = new Set(manzilJuz.filter((_, index) =>
+    Math.floor((index * cycleDays) / manzilJuz.length) === slice
+  ));
+  
+  const reviewedToday = (unit: SessionUnit) =>
+    unit.ayahs.some(ayah => ayah.lastReviewed && ayah.lastReviewed >= dayStart);
+  
+  return {
+    sabqi: sabqi.filter(unit => !reviewedToday(unit)),
+    manzil: manzil.filter(unit => sliceJuz.has(unitJuz(unit)) && !reviewedToday(unit))
+  };
+};
+
+// Get today's due reviews
+export const getTodayDueReviews = async (): Promise<TodayDueReviews> => {
+  try {
+    // Count the same units today's session would pick
+    const { units, newQuota, reviewQuota, tiered } = await selectSessionUnits();
     
     // Count states for unique groups
     let newCount = 0;
     let learningCount = 0;
     let reviewCount = 0;
     
-    groupMap.forEach((groupAyahs, groupId) => {
-      // Use the first ayah in the group to determine the state
-      const firstAyah = groupAyahs[0];
+    const tiers: Record<RevisionTier, number> = { sabaq: 0, sabqi: 0, manzil: 0 };
+    const manzilJuz = new Set<number>();
+    
+    units.forEach(unit => {
+      if (unit.tier) {
+        tiers[unit.tier]++;
+      }
+      if (unit.tier === 'manzil') {
+        unit.ayahs.forEach(ayah => manzilJuz.add(getJuzNumber(ayah.surahNumber, ayah.ayahNumber)));
+      }
       
-      if (firstAyah.state === 'new') {
+      if (unit.state === 'new') {
         newCount++;
-      } else if (firstAyah.state === 'review') {
+      } else if (unit.state === 'review') {
         reviewCount++;
       } else {
         // learning or relearning
@@ -62,65 +437,226 @@ export const getTodayDueReviews = async (): Promise<{
     });
     
     return {
-      due: groupMap.size,
+      due: units.length,
       new: newCount,
       learning: learningCount,
-      review: reviewCount
+      review: reviewCount,
+      newRemaining: newQuota,
+      reviewRemaining: reviewQuota,
+      tiers: tiered ? tiers : null,
+      manzilJuz: Array.from(manzilJuz).sort((a, b) => a - b)
     };
   } catch (error) {
     console.error('Error getting due reviews:', error);
-    return { due: 0, new: 0, learning: 0, review: 0 };
+    return { due: 0, new: 0, learning: 0, review: 0, newRemaining: 0, reviewRemaining: 0, tiers: null, manzilJuz: [] };
+  }
+};
+
+// Get ayahs for today's session, optionally only the first `maxUnits` review units
+// (the rest of the day's queue is picked up by the next session)
+export const getSessionAyahs = async (maxUnits?: number): Promise<AyahProgress[]> => {
+  try {
+    const { units } = await selectSessionUnits();
+    
+    // Flatten units so grouped ayahs stay together
+    return units.slice(0, maxUnits).flatMap(unit => unit.ayahs);
+  } catch (error) {
+    console.error('Error getting session ayahs:', error);
+    return [];
+  }
+};
+
+// Get ayahs for a study-ahead session: reviews coming due within the next
+// reviewAheadDays study days, soonest first. Reviewing early needs no special
+// handling in FSRS, which works from the real elapsed time and retrievability.
+export const getStudyAheadAyahs = async (maxUnits?: number): Promise<AyahProgress[]> => {
+  try {
+    const settings = await getSettings();
+    if (settings.reviewAheadDays <= 0) {
+      return [];
+    }
+    
+    const now = new Date();
+    const dayEnd = addDays(getStudyDayStart(now, settings.dayStartHour), 1);
+    const aheadEnd = addDays(dayEnd, settings.reviewAheadDays);
+    
+    const rows = await executeQuery(
+      `SELECT * FROM ayah_progress 
+       WHERE state = 'review' AND ${AVAILABLE_AYAH_CONDITION}
+         AND nextReview >= ? AND nextReview < ?
+       ORDER BY nextReview ASC`,
+      [now.toISOString(), now.toISOString(), dayEnd.toISOString(), aheadEnd.toISOString()]
+    );
+    
+    const limit = Math.min(settings.reviewLimit, maxUnits ?? settings.reviewLimit);
+    const sessionAyahs: AyahProgress[] = [];
+    const seenUnits = new Set<string>();
+    
+    for (const ayah of rows.map(mapRowToAyahProgress)) {
+      const unitId = ayah.testWithGroup ? ayah.groupId : ayah.id;
+      if (seenUnits.has(unitId)) continue;
+      if (seenUnits.size >= limit) break;
+      seenUnits.add(unitId);
+      
+      sessionAyahs.push(...await getUnitAyahs(ayah));
+    }
+    
+    return sessionAyahs;
+  } catch (error) {
+    console.error('Error getting study-ahead ayahs:', error);
+    return [];
   }
 };
 
-// Get ayahs for today's session
-export const getSessionAyahs = async (): Promise<AyahProgress[]> => {
+// Get ayahs for a leech session: every leech (suspended or not), most lapses first.
+// Grouped leeches stay together, but only the ayahs tagged as leeches are rated.
+export const getLeechSessionAyahs = async (maxUnits?: number): Promise<AyahProgress[]> => {
+  try {
+    const leeches = await getLeechAyahs();
+    const units = new Map<string, AyahProgress[]>();
+    
+    leeches.forEach(ayah => {
+      const unitId = ayah.testWithGroup ? ayah.groupId : ayah.id;
+      if (!units.has(unitId)) {
+        units.set(unitId, []);
+      }
+      units.get(unitId)!.push(ayah);
+    });
+    
+    return Array.from(units.values())
+      .slice(0, maxUnits)
+      .flatMap(ayahs => ayahs.sort((a, b) => a.groupPosition - b.groupPosition));
+  } catch (error) {
+    console.error('Error getting leech session ayahs:', error);
+    return [];
+  }
+};
+
+// Get ayahs for a custom session: available ayahs matching every filter that's set, in mushaf
+// order (or weakest first when only the lowest recall scores are wanted). Grouped ayahs come
+// back with the rest of their group.
+export const getCustomSessionAyahs = async (
+  options: CustomSessionOptions,
+  maxUnits?: number
+): Promise<AyahProgress[]> => {
   try {
     const settings = await getSettings();
+    const now = new Date();
+    const conditions = [AVAILABLE_AYAH_CONDITION];
+    const params: (string | number)[] = [now.toISOString(), now.toISOString()];
+    
+    if (options.surahNumber !== null) {
+      conditions.push('surahNumber = ?');
+      params.push(options.surahNumber);
+    }
+    
+    if (options.states.length > 0) {
+      conditions.push(`state IN (${options.states.map(() => '?').join(', ')})`);
+      params.push(...options.states);
+    }
+    
+    if (options.leechesOnly) {
+      conditions.push('leech = 1');
+    }
+    
+    if (options.reviewedToday) {
+      conditions.push('lastReviewed >= ?');
+      params.push(getStudyDayStart(now, settings.dayStartHour).toISOString());
+    }
+    
+    // Juz run from the first ayah of the first juz up to (not including) the first ayah
+    // of the juz after the last one
+    if (options.juzRange) {
+      const [firstSurah, firstAyah] = JUZ_STARTS[options.juzRange[0] - 1];
+      conditions.push('(surahNumber > ? OR (surahNumber = ? AND ayahNumber >= ?))');
+      params.push(firstSurah, firstSurah, firstAyah);
+      
+      if (options.juzRange[1] < JUZ_STARTS.length) {
+        const [endSurah, endAyah] = JUZ_STARTS[options.juzRange[1]];
+        conditions.push('(surahNumber < ? OR (surahNumber = ? AND ayahNumber < ?))');
+        params.push(endSurah, endSurah, endAyah);
+      }
+    }
+    
+    if (options.pageRange) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM quran_ayahs q
+         WHERE q.surahNumber = ayah_progress.surahNumber AND q.ayahNumber = ayah_progress.ayahNumber
+           AND q.page BETWEEN ? AND ?)`
+      );
+      params.push(...options.pageRange);
+    }
+    
+    // Anything failed since then was reviewed since then; which reviews failed is only in
+    // the history, checked below
+    const failedSince = options.failedWithinDays !== null
+      ? addDays(now, -options.failedWithinDays)
+      : null;
+    
+    if (failedSince) {
+      conditions.push('lastReviewed >= ?');
+      params.push(failedSince.toISOString());
+    }
     
-    // Limit is the sum of review limit and new ayahs per day
-    const limit = settings.reviewLimit;
-    
-    // Get due ayahs up to the limit
-    const dueAyahs = await getDueAyahs(limit);
-    
-    // Process ayahs to handle group testing
-    const processedAyahs: AyahProgress[] = [];
-    const processedGroupIds = new Set<string>();
-    
-    for (const ayah of dueAyahs) {
-      // If this ayah should be tested with its group and we haven't processed this group yet
-      if (ayah.testWithGroup && !processedGroupIds.has(ayah.groupId)) {
-        // Get all ayahs in this group
-        const groupAyahs = await executeQuery(
-          `SELECT * FROM ayah_progress 
-           WHERE groupId = ? 
-           ORDER BY groupPosition ASC`,
-          [ayah.groupId]
-        );
+    const rows: AyahProgressRow[] = await executeQuery(
+      `SELECT * FROM ayah_progress 
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${options.lowestRecall !== null ? 'recallScore ASC, ' : ''}surahNumber ASC, ayahNumber ASC`,
+      params
+    );
+    
+    const matches = rows.map(mapRowToAyahProgress).filter(ayah =>
+      !failedSince || ayah.history.some(entry => entry.rating === 1 && new Date(entry.date) >= failedSince)
+    );
+    
+    const limit = Math.min(options.lowestRecall ?? Infinity, maxUnits ?? Infinity);
+    const sessionAyahs: AyahProgress[] = [];
+    const seenUnits = new Set<string>();
+    const heldBackSurahs = new Set<number>();
+    let unitCount = 0;
+    
+    // Only cram sessions (which leave the schedule alone) may go past today's new-material quota
+    let newRemaining = Infinity;
+    if (!options.cram) {
+      const { newIntroduced } = await getTodayStudyCounts(settings.dayStartHour);
+      newRemaining = Math.max(settings.newAyahsPerDay - newIntroduced, 0);
+    }
+    
+    for (const ayah of matches) {
+      const unitId = ayah.testWithGroup ? ayah.groupId : ayah.id;
+      if (seenUnits.has(unitId)) continue;
+      if (unitCount >= limit) break;
+      seenUnits.add(unitId);
+      
+      const ayahs = await getUnitAyahs(ayah);
+      
+      // New groups fill the quota the same way as in today's due sessions
+      if (ayah.state === 'new') {
+        if (heldBackSurahs.has(ayah.surahNumber)) continue;
         
-        // Map rows to AyahProgress objects and add to processed ayahs
-        const mappedGroupAyahs = groupAyahs.map(mapRowToAyahProgress);
-        processedAyahs.push(...mappedGroupAyahs);
+        const fitsQuota = ayahs.length <= newRemaining ||
+          (newRemaining > 0 && newRemaining === settings.newAyahsPerDay);
+        if (!fitsQuota) {
+          heldBackSurahs.add(ayah.surahNumber);
+          continue;
+        }
         
-        // Mark this group as processed
-        processedGroupIds.add(ayah.groupId);
-      } 
-      // If this ayah should not be tested with its group or we've already processed this group
-      else if (!ayah.testWithGroup) {
-        processedAyahs.push(ayah);
+        newRemaining = Math.max(newRemaining - ayahs.length, 0);
       }
+      
+      unitCount++;
+      sessionAyahs.push(...ayahs);
     }
     
-    return processedAyahs;
+    return sessionAyahs;
   } catch (error) {
-    console.error('Error getting session ayahs:', error);
+    console.error('Error getting custom session ayahs:', error);
     return [];
   }
 };
 
 // Create a new session statistics record
-export const createSessionStatistics = async (): Promise<SessionStatistics> => {
+export const createSessionStatistics = async (studyAhead: boolean = false): Promise<SessionStatistics> => {
   const id = uuidv4();
   const now = new Date();
   
@@ -136,14 +672,15 @@ export const createSessionStatistics = async (): Promise<SessionStatistics> => {
       good: 0,
       easy: 0
     },
-    retention: 0
+    retention: 0,
+    studyAhead
   };
   
   await executeUpdate(
     `INSERT INTO session_statistics (
       id, date, totalReviewed, newLearned, reviewTime, 
-      ratingAgain, ratingHard, ratingGood, ratingEasy, retention
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ratingAgain, ratingHard, ratingGood, ratingEasy, retention, studyAhead
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       sessionStats.id,
       sessionStats.date.toISOString(),
@@ -154,7 +691,8 @@ export const createSessionStatistics = async (): Promise<SessionStatistics> => {
       sessionStats.ratings.hard,
       sessionStats.ratings.good,
       sessionStats.ratings.easy,
-      sessionStats.retention
+      sessionStats.retention,
+      sessionStats.studyAhead ? 1 : 0
     ]
   );
   
@@ -229,12 +767,12 @@ export const getSessionStatistics = async (id: string): Promise<SessionStatistic
   return mapRowToSessionStats(rows[0]);
 };
 
-// Get recent session statistics
+// Get session statistics for the last `days` study days (including today)
 export const getRecentSessionStatistics = async (
   days: number = 30
 ): Promise<SessionStatistics[]> => {
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
+  const settings = await getSettings();
+  const startDate = addDays(getStudyDayStart(new Date(), settings.dayStartHour), -(days - 1));
   
   const rows = await executeQuery(
     'SELECT * FROM session_statistics WHERE date >= ? ORDER BY date DESC',
@@ -244,8 +782,92 @@ export const getRecentSessionStatistics = async (
   return rows.map(mapRowToSessionStats);
 };
 
+// Combine sessions into one entry per local study day, oldest first
+export const groupSessionsByStudyDay = (
+  sessions: SessionStatistics[],
+  dayStartHour: number
+): DailyStatistics[] => {
+  const days = new Map<string, DailyStatistics>();
+  
+  sessions.forEach(session => {
+    const key = getStudyDayKey(session.date, dayStartHour);
+    
+    if (!days.has(key)) {
+      days.set(key, {
+        day: key,
+        date: getStudyDayStart(session.date, dayStartHour),
+        sessions: 0,
+        totalReviewed: 0,
+        newLearned: 0,
+        reviewTime: 0,
+        ratings: { again: 0, hard: 0, good: 0, easy: 0 },
+        retention: 0
+      });
+    }
+    
+    const day = days.get(key)!;
+    day.sessions++;
+    day.totalReviewed += session.totalReviewed;
+    day.newLearned += session.newLearned;
+    day.reviewTime += session.reviewTime;
+    day.ratings.again += session.ratings.again;
+    day.ratings.hard += session.ratings.hard;
+    day.ratings.good += session.ratings.good;
+    day.ratings.easy += session.ratings.easy;
+  });
+  
+  // Retention over all of the day's ratings (anything but "again" counts as passed)
+  days.forEach(day => {
+    const { again, hard, good, easy } = day.ratings;
+    const total = again + hard + good + easy;
+    day.retention = total > 0 ? ((hard + good + easy) / total) * 100 : 0;
+  });
+  
+  return Array.from(days.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// Get per-study-day statistics for the last `days` study days
+export const getDailyStatistics = async (days: number = 30): Promise<DailyStatistics[]> => {
+  const settings = await getSettings();
+  const sessions = await getRecentSessionStatistics(days);
+  
+  return groupSessionsByStudyDay(sessions, settings.dayStartHour);
+};
+
+// Count consecutive study days with at least one review, ending today
+// (or yesterday, so the streak isn't lost before today's session).
+// Frozen days neither count towards the streak nor break it.
+export const getStudyStreak = async (): Promise<number> => {
+  const settings = await getSettings();
+  const rows = await executeQuery(
+    'SELECT date FROM session_statistics WHERE totalReviewed > 0'
+  );
+  
+  const studiedDays = new Set(
+    rows.map(row => getStudyDayKey(new Date(row.date), settings.dayStartHour))
+  );
+  const frozenDays = getFrozenStudyDays(await getFreezePeriods(), settings.dayStartHour);
+  
+  let day = getStudyDayStart(new Date(), settings.dayStartHour);
+  if (!studiedDays.has(getStudyDayKey(day, settings.dayStartHour))) {
+    day = addDays(day, -1);
+  }
+  
+  let streak = 0;
+  let key = getStudyDayKey(day, settings.dayStartHour);
+  while (studiedDays.has(key) || frozenDays.has(key)) {
+    if (studiedDays.has(key)) {
+      streak++;
+    }
+    day = addDays(day, -1);
+    key = getStudyDayKey(day, settings.dayStartHour);
+  }
+  
+  return streak;
+};
+
 // Helper function to map database row to SessionStatistics object
-const mapRowToSessionStats = (row: any): SessionStatistics => {
+const mapRowToSessionStats = (row: SessionStatisticsRow): SessionStatistics => {
   return {
     id: row.id,
     date: new Date(row.date),
@@ -258,13 +880,14 @@ const mapRowToSessionStats = (row: any): SessionStatistics => {
       good: row.ratingGood,
       easy: row.ratingEasy
     },
-    retention: row.retention
+    retention: row.retention,
+    studyAhead: row.studyAhead === 1
   };
 };
 
 // Helper function to map database row to AyahProgress object
-const mapRowToAyahProgress = (row: any): AyahProgress => {
-  let history: any[] = [];
+const mapRowToAyahProgress = (row: AyahProgressRow): AyahProgress => {
+  let history: ReviewEntry[] = [];
   try {
     history = JSON.parse(row.history || '[]');
   } catch (error) {
@@ -285,9 +908,16 @@ const mapRowToAyahProgress = (row: any): AyahProgress => {
     lapses: row.lapses,
     state: row.state as 'new' | 'learning' | 'review' | 'relearning',
     interval: row.interval,
+    learningStep: row.learningStep || 0,
     createdAt: new Date(row.createdAt),
     history: history,
     testWithGroup: row.testWithGroup === 1,
-    groupPosition: row.groupPosition
+    groupPosition: row.groupPosition,
+    leech: row.leech === 1,
+    suspended: row.suspended === 1,
+    buriedUntil: row.buriedUntil ? new Date(row.buriedUntil) : null,
+    cardType: row.cardType ?? (row.fromGroupId ? 'link' : 'ayah'),
+    promptAyahNumber: row.promptAyahNumber ?? null,
+    juzNumber: row.juzNumber ?? null
   };
 };
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { AyahProgress } from '../../../types';
+import { addDays } from '../../../utils/studyDay';
+import { DEFAULT_PARAMETERS } from '../../fsrs';
+import { getAverageReviewTimes, SimulationProfile, simulateWorkload } from '../index';
+
+const START = new Date(2025, 0, 10, 8);
+
+const ayah = (overrides: Partial<AyahProgress>): AyahProgress => ({
+  id: `${overrides.surahNumber ?? 1}:${overrides.ayahNumber ?? 1}`,
+  cardType: 'ayah',
+  surahNumber: 1,
+  ayahNumber: 1,
+  groupId: `group-${overrides.surahNumber ?? 1}:${overrides.ayahNumber ?? 1}`,
+  recallScore: 0,
+  lastReviewed: null,
+  nextReview: null,
+  easeFactor: 2.5,
+  stability: 0,
+  difficulty: 0,
+  lapses: 0,
+  state: 'new',
+  interval: 0,
+  learningStep: 0,
+  createdAt: START,
+  history: [],
+  testWithGroup: false,
+  groupPosition: 1,
+  leech: false,
+  suspended: false,
+  buriedUntil: null,
+  promptAyahNumber: null,
+  juzNumber: null,
+  ...overrides
+});
+
+// A reviewed ayah due `dueIn` days after START
+const reviewAyah = (ayahNumber: number, dueIn: number): AyahProgress => ayah({
+  ayahNumber,
+  state: 'review',
+  stability: 10,
+  difficulty: 5,
+  lastReviewed: addDays(START, dueIn - 10),
+  nextReview: addDays(START, dueIn),
+  interval: 10
+});
+
+const profile = (overrides: Partial<SimulationProfile> = {}): SimulationProfile => ({
+  newAyahsPerDay: 2,
+  reviewLimit: 100,
+  params: DEFAULT_PARAMETERS,
+  ...overrides
+});
+
+describe('simulateWorkload', () => {
+  const newAyahs = Array.from({ length: 10 }, (_, i) => ayah({ ayahNumber: i + 1 }));
+
+  it('introduces new ayahs up to the daily quota and takes them through the learning steps', () => {
+    const result = simulateWorkload(newAyahs, profile(), 3, START);
+
+    expect(result.days.map(day => day.newAyahs)).toEqual([2, 2, 2]);
+    expect(result.days[0].reviews).toBe(2 * DEFAULT_PARAMETERS.learningSteps.length);
+    expect(result.days[0].memorized).toBe(2);
+  });
+
+  it('counts a group tested together as one review unit with all its ayahs', () => {
+    const group = [1, 2, 3].map(ayahNumber => ayah({ ayahNumber, groupId: 'group', testWithGroup: true }));
+    const result = simulateWorkload(group, profile({ newAyahsPerDay: 1 }), 1, START);
+
+    expect(result.days[0].newAyahs).toBe(3);
+    expect(result.days[0].reviews).toBe(DEFAULT_PARAMETERS.learningSteps.length);
+    expect(result.projectedMemorized).toBe(3);
+  });
+
+  it('holds back groups larger than what is left of the quota', () => {
+    const groups = [1, 2, 3, 4].map(ayahNumber =>
+      ayah({ ayahNumber, groupId: `group-${Math.ceil(ayahNumber / 2)}`, testWithGroup: true })
+    );
+    const single = ayah({ surahNumber: 2, ayahNumber: 1 });
+    const result = simulateWorkload([...groups, single], profile({ newAyahsPerDay: 3 }), 2, START);
+
+    expect(result.days.map(day => day.newAyahs)).toEqual([3, 2]);
+  });
+
+  it('caps due reviews at the review limit', () => {
+    const due = Array.from({ length: 10 }, (_, i) => reviewAyah(i + 1, 0));
+    const result = simulateWorkload(due, profile({ reviewLimit: 4 }), 1, START);
+
+    expect(result.days[0].reviews).toBeGreaterThanOrEqual(4);
+    expect(result.days[0].reviews).toBeLessThan(10);
+  });
+
+  it('leaves reviews alone until they fall due', () => {
+    const result = simulateWorkload([reviewAyah(1, 5)], profile(), 7, START);
+
+    expect(result.days.slice(0, 4).every(day => day.reviews === 0)).toBe(true);
+    expect(result.totalReviews).toBeGreaterThan(0);
+  });
+
+  it('gives the same result for the same input', () => {
+    const progress = [...newAyahs, ...Array.from({ length: 5 }, (_, i) => reviewAyah(20 + i, i))];
+
+    expect(simulateWorkload(progress, profile(), 20, START))
+      .toEqual(simulateWorkload(progress, profile(), 20, START));
+  });
+});
+
+describe('getAverageReviewTimes', () => {
+  it('averages first reviews and later reviews separately', () => {
+    const progress = [
+      ayah({
+        history: [
+          { date: START, rating: 3, elapsedTime: 90000 },
+          { date: START, rating: 3, elapsedTime: 20000 },
+          { date: START, rating: 3, elapsedTime: 40000 }
+        ]
+      })
+    ];
+
+    expect(getAverageReviewTimes(progress)).toEqual({ newMs: 90000, reviewMs: 30000 });
+  });
+
+  it('falls back to defaults without recorded times', () => {
+    const { newMs, reviewMs } = getAverageReviewTimes([ayah({})]);
+
+    expect(newMs).toBeGreaterThan(0);
+    expect(reviewMs).toBeGreaterThan(0);
+  });
+});
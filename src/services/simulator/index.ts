@@ -0,0 +1,207 @@
+import { AyahProgress, FSRSCard, FSRSParameters, Rating } from '../../types';
+import { forgettingCurve, scheduleReview, seededRandom } from '../fsrs';
+
+/**
+ * Workload simulator
+ * Runs the FSRS model forward from the current ayah progress to preview how a
+ * settings profile would affect the daily review load.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fallback review durations when there is no recorded history
+const DEFAULT_NEW_REVIEW_MS = 60 * 1000;
+const DEFAULT_REVIEW_MS = 30 * 1000;
+
+// Settings that shape the simulated workload
+export interface SimulationProfile {
+  newAyahsPerDay: number;
+  reviewLimit: number;
+  params: FSRSParameters;
+}
+
+export interface SimulationDay {
+  date: Date;
+  reviews: number;           // Review interactions (a group counts once)
+  newAyahs: number;          // New ayahs introduced
+  minutes: number;           // Expected study time
+  memorized: number;         // Ayahs in review state at the end of the day
+}
+
+export interface SimulationResult {
+  days: SimulationDay[];
+  totalReviews: number;
+  averageMinutesPerDay: number;
+  projectedMemorized: number;
+}
+
+// A group (or single ayah) that is reviewed as one card
+interface SimulationUnit {
+  id: string;
+  surahNumber: number;
+  ayahNumber: number;
+  ayahCount: number;
+  card: FSRSCard;
+}
+
+// Build review units from ayah progress, treating group-tested ayahs as one card
+const buildUnits = (progress: AyahProgress[]): SimulationUnit[] => {
+  const units = new Map<string, SimulationUnit>();
+
+  for (const ayah of progress) {
+    const unitId = ayah.testWithGroup ? ayah.groupId : ayah.id;
+    const existing = units.get(unitId);
+
+    if (existing) {
+      existing.ayahCount++;
+      existing.ayahNumber = Math.min(existing.ayahNumber, ayah.ayahNumber);
+      continue;
+    }
+
+    units.set(unitId, {
+      id: unitId,
+      surahNumber: ayah.surahNumber,
+      ayahNumber: ayah.ayahNumber,
+      ayahCount: 1,
+      card: {
+        state: ayah.state,
+        easeFactor: ayah.easeFactor,
+        stability: ayah.stability,
+        difficulty: ayah.difficulty,
+        lapses: ayah.lapses,
+        lastReview: ayah.lastReviewed,
+        dueDate: ayah.nextReview,
+        interval: ayah.interval,
+        step: ayah.learningStep
+      }
+    });
+  }
+
+  // Introduce new material in mushaf order
+  return Array.from(units.values()).sort(
+    (a, b) => a.surahNumber - b.surahNumber || a.ayahNumber - b.ayahNumber
+  );
+};
+
+// Average time spent on first reviews and on later reviews, from recorded history
+export const getAverageReviewTimes = (progress: AyahProgress[]): { newMs: number; reviewMs: number } => {
+  const newTimes: number[] = [];
+  const reviewTimes: number[] = [];
+
+  for (const ayah of progress) {
+    ayah.history.forEach((entry, index) => {
+      if (entry.elapsedTime && entry.elapsedTime > 0) {
+        (index === 0 ? newTimes : reviewTimes).push(entry.elapsedTime);
+      }
+    });
+  }
+
+  const average = (values: number[], fallback: number) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : fallback;
+
+  return {
+    newMs: average(newTimes, DEFAULT_NEW_REVIEW_MS),
+    reviewMs: average(reviewTimes, DEFAULT_REVIEW_MS)
+  };
+};
+
+// Review a unit once and keep going through any same-day (re)learning steps,
+// returning the number of review interactions
+const simulateReview = (
+  unit: SimulationUnit,
+  now: Date,
+  dayEnd: Date,
+  params: FSRSParameters,
+  seed: string
+): number => {
+  let reviews = 0;
+  let time = now;
+
+  do {
+    // Recall succeeds with probability equal to the predicted retrievability
+    const elapsedDays = unit.card.lastReview
+      ? (time.getTime() - unit.card.lastReview.getTime()) / DAY_MS
+      : 0;
+    const retrievability = unit.card.state === 'new' || elapsedDays < 1
+      ? 1
+      : forgettingCurve(elapsedDays, unit.card.stability);
+    const recalled = seededRandom(`${seed}:${reviews}`) < retrievability;
+    const rating: Rating = recalled ? 3 : 1;
+
+    unit.card = scheduleReview(unit.card, rating, time, params, `${unit.id}:${seed}`);
+    time = unit.card.dueDate || time;
+    reviews++;
+  } while (unit.card.state !== 'review' && time < dayEnd && reviews < 20);
+
+  return reviews;
+};
+
+// Run the FSRS model forward `days` days under a settings profile
+export const simulateWorkload = (
+  progress: AyahProgress[],
+  profile: SimulationProfile,
+  days: number = 30,
+  start: Date = new Date()
+): SimulationResult => {
+  const units = buildUnits(progress);
+  const { newMs, reviewMs } = getAverageReviewTimes(progress);
+  const results: SimulationDay[] = [];
+
+  for (let day = 0; day < days; day++) {
+    const dayStart = new Date(start.getTime() + day * DAY_MS);
+    const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+
+    let reviews = 0;
+    let newAyahs = 0;
+    let minutes = 0;
+
+    // Due reviews first, most overdue first, up to the review limit
+    const dueUnits = units
+      .filter(unit => unit.card.state !== 'new' && (!unit.card.dueDate || unit.card.dueDate < dayEnd))
+      .sort((a, b) => (a.card.dueDate?.getTime() || 0) - (b.card.dueDate?.getTime() || 0));
+
+    for (const unit of dueUnits) {
+      if (reviews >= profile.reviewLimit) break;
+
+      const count = simulateReview(unit, dayStart, dayEnd, profile.params, `${unit.id}:${day}`);
+      reviews += count;
+      minutes += count * reviewMs / 60000;
+    }
+
+    // Then new material up to the daily quota, as session selection fills it: a group that
+    // doesn't fit what's left waits (along with the rest of its surah), unless nothing new has
+    // been introduced yet
+    const heldBackSurahs = new Set<number>();
+
+    for (const unit of units) {
+      if (newAyahs >= profile.newAyahsPerDay) break;
+      if (unit.card.state !== 'new' || heldBackSurahs.has(unit.surahNumber)) continue;
+
+      if (newAyahs + unit.ayahCount > profile.newAyahsPerDay && newAyahs > 0) {
+        heldBackSurahs.add(unit.surahNumber);
+        continue;
+      }
+
+      const count = simulateReview(unit, dayStart, dayEnd, profile.params, `${unit.id}:${day}`);
+      reviews += count;
+      newAyahs += unit.ayahCount;
+      minutes += (newMs + (count - 1) * reviewMs) / 60000;
+    }
+
+    const memorized = units
+      .filter(unit => unit.card.state === 'review')
+      .reduce((sum, unit) => sum + unit.ayahCount, 0);
+
+    results.push({ date: dayStart, reviews, newAyahs, minutes, memorized });
+  }
+
+  const totalReviews = results.reduce((sum, day) => sum + day.reviews, 0);
+  const totalMinutes = results.reduce((sum, day) => sum + day.minutes, 0);
+
+  return {
+    days: results,
+    totalReviews,
+    averageMinutesPerDay: results.length > 0 ? totalMinutes / results.length : 0,
+    projectedMemorized: results.length > 0 ? results[results.length - 1].memorized : 0
+  };
+};
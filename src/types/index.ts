@@ -24,8 +24,13 @@ export interface Ayah {
   }
   
   // src/types/progress.ts
+  // Kind of card: a single ayah (or one ayah of a group), a link across the seam
+  // between two adjacent groups, or a whole mastered surah or juz recited in one go
+  export type CardType = 'ayah' | 'link' | 'surah' | 'juz';
+  
   export interface AyahProgress {
     id: string;                // UUID
+    cardType: CardType;        // What the card tests
     surahNumber: number;       // Surah reference
     ayahNumber: number;        // Ayah reference
     groupId: string;           // ID of the group this ayah belongs to
@@ -33,15 +38,21 @@ export interface Ayah {
     lastReviewed: Date | null; // Last review date
     nextReview: Date | null;   // FSRS-calculated next review date
     easeFactor: number;        // FSRS parameter
-    stability: number;         // FSRS stability parameter
-    difficulty: number;        // FSRS difficulty parameter
+    stability: number;         // FSRS stability (days until retention drops to 90%)
+    difficulty: number;        // FSRS difficulty (1-10, 0 for new ayahs)
     lapses: number;            // Count of "Again" responses
     state: 'new' | 'learning' | 'review' | 'relearning'; // Current learning state
     interval: number;          // Current interval in days
+    learningStep: number;      // Current (re)learning step (0-based)
     createdAt: Date;           // When this ayah was added to learning
     history: ReviewEntry[];    // Review history
     testWithGroup: boolean;    // Whether this ayah should be tested with its group
     groupPosition: number;     // Position within the group (1-based)
+    leech: boolean;            // Lapsed often enough to be tagged as a leech
+    suspended: boolean;        // Left out of scheduled sessions until unsuspended
+    buriedUntil: Date | null;  // Left out of scheduled sessions until this time
+    promptAyahNumber: number | null; // Link cards: last ayah of the previous group, shown as the prompt
+    juzNumber: number | null;  // Juz cards: the juz to recite
   }
   
   export interface ReviewEntry {
@@ -50,6 +61,9 @@ export interface Ayah {
     elapsedTime?: number;      // Time spent on review (milliseconds)
     previousInterval?: number; // Previous interval before this review
     scheduledInterval?: number; // Scheduled interval after this review
+    hints?: number;            // Hints used before grading, in hint mode
+    misplaced?: boolean;       // Put out of order in a group ordering quiz (rated Again for it)
+    studyAhead?: boolean;      // Reviewed ahead of time in a study-ahead session
   }
   
   export interface AyahGroup {
@@ -62,6 +76,26 @@ export interface Ayah {
     state: 'new' | 'learning' | 'review' | 'complete';
     ayahIds: string[];         // IDs of AyahProgress items in this group
     testAsGroup: boolean;      // Whether to test ayahs as a group
+    suspended: boolean;        // All ayahs left out of scheduled sessions until unsuspended
+    buriedUntil: Date | null;  // All ayahs left out of scheduled sessions until this time
+  }
+  
+  // Where a session's ayahs come from: today's due queue, reviews coming due soon, leeches,
+  // or a custom selection built from filters
+  export type SessionType = 'due' | 'studyAhead' | 'leeches' | 'custom';
+  
+  // Filters for a custom session. Every filter that's set must match; null/empty means any.
+  export interface CustomSessionOptions {
+    surahNumber: number | null;
+    juzRange: [number, number] | null;     // First and last juz, inclusive
+    pageRange: [number, number] | null;    // First and last mushaf page, inclusive
+    states: AyahProgress['state'][];       // Card states to include
+    leechesOnly: boolean;
+    lowestRecall: number | null;           // Only the N units with the lowest recall score
+    failedWithinDays: number | null;       // Rated Again within the last N days
+    reviewedToday: boolean;                // Already reviewed this study day
+    cram: boolean;                         // Practice only: ratings don't change the schedule
+    reviewMode: ReviewMode | null;         // Review mode for every card, or null for the settings
   }
   
   export interface SessionStatistics {
@@ -77,9 +111,60 @@ export interface Ayah {
       easy: number;
     };
     retention: number;         // Retention rate (percentage)
+    studyAhead: boolean;       // Whether cards were reviewed before they were due
+  }
+  
+  export interface DailyStatistics {
+    day: string;               // Study day key (local YYYY-MM-DD)
+    date: Date;                // Start of the study day
+    sessions: number;          // Sessions started on this study day
+    totalReviewed: number;     // Total ayahs reviewed
+    newLearned: number;        // New ayahs introduced
+    reviewTime: number;        // Total time spent (milliseconds)
+    ratings: {                 // Count of each rating
+      again: number;
+      hard: number;
+      good: number;
+      easy: number;
+    };
+    retention: number;         // Retention rate (percentage)
   }
   
   // src/types/settings.ts
+  // Order of the due review queue
+  export type ReviewSortOrder = 'retrievability' | 'overdue' | 'mushaf' | 'random';
+  
+  // What happens to an ayah once it's tagged as a leech
+  export type LeechAction = 'suspend' | 'relearn';
+  
+  // How daily sessions are built: purely from FSRS due dates, or in the traditional
+  // three tiers of new lesson (sabaq), recent portion (sabqi) and rotating old portions (manzil)
+  export type RevisionMode = 'fsrs' | 'tiered';
+  export type RevisionTier = 'sabaq' | 'sabqi' | 'manzil';
+  
+  // How the backlog is handled when a frozen schedule resumes: push every due date back by
+  // the length of the freeze, or spread what's overdue across a few catch-up days
+  export type FreezeResumeMode = 'shift' | 'spread';
+  
+  // How cards are tested: recited from memory, with some words blanked out to fill in,
+  // continued from the ayah before (or the surah name and basmala at the start of a surah),
+  // typed out and checked word by word, or (for groups) put back in order after a shuffle
+  export type ReviewMode = 'recite' | 'cloze' | 'nextAyah' | 'typed' | 'order';
+  
+  // How cloze blanks are picked (at random or leaning on words missed before), and filled in
+  export type ClozeSelection = 'random' | 'weighted';
+  export type ClozeInput = 'bank' | 'typed';
+  
+  // A stretch of time (travel, illness) during which the schedule is paused
+  export interface FreezePeriod {
+    id: string;
+    startDate: Date;           // Start of the first frozen study day
+    endDate: Date;             // Start of the study day the freeze is planned to end on
+    resumedAt: Date | null;    // When the schedule actually resumed (at the latest, the planned end)
+    resumeMode: FreezeResumeMode | null; // How the backlog was handled on resume
+    createdAt: Date;
+  }
+  
   export interface UserSettings {
     id: string;                // UUID (default 'default')
     easeFactor: number;        // Default FSRS parameter (default 2.5)
@@ -93,10 +178,29 @@ export interface Ayah {
     audioEnabled: boolean;     // Whether audio plays automatically
     offlineMode: boolean;      // Whether Quran is downloaded for offline
     knownSurahs: number[];     // Array of surah numbers the user already knows
-    w: number[];               // FSRS weight parameters [w₀, w₁, ..., w₁₁]
+    w: number[];               // FSRS-5 weight parameters [w₀, w₁, ..., w₁₈]
     learningSteps: number[];   // Steps in minutes for learning cards
     lapseSteps: number[];      // Steps in minutes for lapsed cards
     maxReviewsPerSession: number; // Max reviews per session (default 20)
+    enableFuzz: boolean;       // Spread review intervals with per-card fuzz
+    loadBalancing: boolean;    // Pick the least-loaded day inside the fuzz window
+    reviewSortOrder: ReviewSortOrder; // Order in which due reviews are queued
+    dayStartHour: number;      // Local hour at which a new study day begins (default 4)
+    leechThreshold: number;    // Lapses before an ayah is tagged as a leech (default 8)
+    leechAction: LeechAction;  // Suspend leeches or send them back through the learning steps
+    revisionMode: RevisionMode; // How daily sessions are built (default 'fsrs')
+    sabqiDays: number;         // Days a group stays in sabqi after it's first learned (default 30)
+    manzilCycleDays: number;   // Days to rotate through all manzil portions once (default 30)
+    consolidationStability: number; // Stability (days) every ayah needs before a surah or juz card is created (default 60)
+    freezeResumeMode: FreezeResumeMode; // How to catch up after a freeze (default 'shift')
+    catchUpDays: number;       // Days to spread the backlog over when resuming with 'spread' (default 7)
+    sequentialUnlock: boolean; // Hold each new group back until the previous one is stable enough
+    unlockStability: number;   // Stability (days) the previous group needs before the next unlocks (default 3)
+    reviewMode: ReviewMode;    // How ayah cards are tested (default 'recite')
+    consolidationReviewMode: ReviewMode; // How surah and juz cards are tested, 'recite' or 'nextAyah' (default 'recite')
+    clozeShare: number;        // Share of words blanked out in cloze mode (default 0.3)
+    clozeSelection: ClozeSelection; // How cloze blanks are picked (default 'random')
+    clozeInput: ClozeInput;    // How cloze blanks are filled in (default 'bank')
     reviewAheadDays: number;   // How many days ahead to allow reviews
     createdAt: Date;           // When settings were created
     updatedAt: Date;           // When settings were last updated
@@ -104,8 +208,12 @@ export interface Ayah {
   
   // src/types/fsrs.ts
   export interface FSRSParameters {
-    w: number[];               // Weights [w₀, w₁, ..., w₁₁]
+    w: number[];               // FSRS-5 weights [w₀, w₁, ..., w₁₈]
     requestRetention: number;  // Target retention rate (0-1)
+    learningSteps: number[];   // Steps in minutes for new/learning cards
+    lapseSteps: number[];      // Steps in minutes for relearning cards
+    enableFuzz: boolean;       // Whether to randomize review intervals slightly
+    dayStartHour: number;      // Local hour at which a new study day begins
   }
   
   export interface FSRSCard {
@@ -117,6 +225,7 @@ export interface Ayah {
     lastReview: Date | null;
     dueDate: Date | null;
     interval: number;          // Current interval in days
+    step: number;              // Current (re)learning step (0-based)
   }
   
   export interface SchedulingInfo {
@@ -126,6 +235,8 @@ export interface Ayah {
     difficulty: number;
     lapses: number;
     interval: number;
+    step: number;
+    lastReview: Date | null;
     dueDate: Date | null;
   }
   
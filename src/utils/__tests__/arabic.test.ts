@@ -0,0 +1,56 @@
+import { matchesWord, normalizeArabic, tokenizeAyah } from '../arabic';
+
+describe('tokenizeAyah', () => {
+  it('drops the ayah-end marker', () => {
+    expect(tokenizeAyah('بِسْمِ ٱللَّهِ ٱلرَّحْمَٰنِ ٱلرَّحِيمِ ١')).toEqual([
+      'بِسْمِ',
+      'ٱللَّهِ',
+      'ٱلرَّحْمَٰنِ',
+      'ٱلرَّحِيمِ'
+    ]);
+  });
+
+  it('drops waqf signs standing on their own (Uthmani)', () => {
+    expect(tokenizeAyah('لَا رَيْبَ ۛ فِيهِ ۛ هُدًى')).toEqual(['لَا', 'رَيْبَ', 'فِيهِ', 'هُدًى']);
+  });
+
+  it('strips waqf signs and ayah numbers attached to a word (IndoPak)', () => {
+    expect(tokenizeAyah('لَا رَیْبَۛ فِیْهِۛ هُدًی لِّلْمُتَّقِیْنَ۝۲')).toEqual([
+      'لَا',
+      'رَیْبَ',
+      'فِیْهِ',
+      'هُدًی',
+      'لِّلْمُتَّقِیْنَ'
+    ]);
+  });
+});
+
+describe('normalizeArabic', () => {
+  it('drops tashkeel and unifies letter forms', () => {
+    expect(normalizeArabic('بِسْمِ')).toBe('بسم');
+    expect(normalizeArabic('ٱللَّهِ')).toBe(normalizeArabic('الله'));
+    expect(normalizeArabic('أَحَدٌ')).toBe('احد');
+    expect(normalizeArabic('رَحْمَةٌ')).toBe(normalizeArabic('رحمه'));
+  });
+
+  it('treats Uthmani and IndoPak spellings of a word the same', () => {
+    expect(normalizeArabic('هُدًى')).toBe(normalizeArabic('هُدًی'));
+  });
+});
+
+describe('matchesWord', () => {
+  it('ignores diacritics and letter forms', () => {
+    expect(matchesWord('ٱلرَّحِيمِ', 'الرحيم')).toBe(true);
+    expect(matchesWord('أَعُوذُ', 'اعوذ')).toBe(true);
+  });
+
+  it('accepts a small letter typed out in full or left out', () => {
+    expect(matchesWord('ٱلرَّحْمَٰنِ', 'الرحمن')).toBe(true);
+    expect(matchesWord('ٱلرَّحْمَٰنِ', 'الرحمان')).toBe(true);
+  });
+
+  it('rejects a different word', () => {
+    expect(matchesWord('ٱلرَّحْمَٰنِ', 'الرحيم')).toBe(false);
+    expect(matchesWord('بِسْمِ', 'باسم')).toBe(false);
+  });
+});
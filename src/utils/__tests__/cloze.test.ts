@@ -0,0 +1,51 @@
+import { ClozeWord, selectBlanks, suggestRatingFromCloze } from '../cloze';
+
+const words: ClozeWord[] = ['بِسْمِ', 'ٱللَّهِ', 'ٱلرَّحْمَٰنِ', 'ٱلرَّحِيمِ', 'ٱلْحَمْدُ', 'لِلَّهِ'].map((word, index) => ({
+  ayahIndex: index < 4 ? 0 : 1,
+  wordIndex: index < 4 ? index : index - 4,
+  word
+}));
+
+describe('selectBlanks', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('blanks the given share of the words, in reading order', () => {
+    const blanks = selectBlanks(words, 0.5);
+
+    expect(blanks).toHaveLength(3);
+    expect(blanks).toEqual(
+      [...blanks].sort((a, b) => a.ayahIndex - b.ayahIndex || a.wordIndex - b.wordIndex)
+    );
+    expect(new Set(blanks).size).toBe(3);
+  });
+
+  it('blanks at least one word and at most all of them', () => {
+    expect(selectBlanks(words, 0)).toHaveLength(1);
+    expect(selectBlanks(words, 2)).toHaveLength(words.length);
+  });
+
+  it('favours words missed before', () => {
+    // Always draw from the start of the weighted range
+    jest.spyOn(Math, 'random').mockReturnValue(0.2);
+
+    const blanks = selectBlanks(words, 0.2, word => (word.word === 'ٱلرَّحِيمِ' ? 5 : 0));
+
+    expect(blanks).toEqual([words[3]]);
+  });
+});
+
+describe('suggestRatingFromCloze', () => {
+  it('suggests Good when every blank is right', () => {
+    expect(suggestRatingFromCloze(4, 4)).toBe(3);
+  });
+
+  it('suggests Hard when most blanks are right', () => {
+    expect(suggestRatingFromCloze(3, 4)).toBe(2);
+  });
+
+  it('suggests Again otherwise', () => {
+    expect(suggestRatingFromCloze(1, 4)).toBe(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { countErrors, diffWords, suggestRatingFromErrors } from '../diff';
+
+const EXPECTED = ['بِسْمِ', 'ٱللَّهِ', 'ٱلرَّحْمَٰنِ', 'ٱلرَّحِيمِ'];
+
+const types = (expected: string[], typed: string[]) => diffWords(expected, typed).map(entry => entry.type);
+
+describe('diffWords', () => {
+  it('matches a correct recitation typed without diacritics', () => {
+    expect(types(EXPECTED, ['بسم', 'الله', 'الرحمن', 'الرحيم'])).toEqual([
+      'correct',
+      'correct',
+      'correct',
+      'correct'
+    ]);
+  });
+
+  it('marks a skipped word as missing without shifting the rest', () => {
+    expect(types(EXPECTED, ['بسم', 'الرحمن', 'الرحيم'])).toEqual([
+      'correct',
+      'missing',
+      'correct',
+      'correct'
+    ]);
+  });
+
+  it('marks an added word as extra', () => {
+    expect(types(EXPECTED, ['بسم', 'الله', 'رب', 'الرحمن', 'الرحيم'])).toEqual([
+      'correct',
+      'correct',
+      'extra',
+      'correct',
+      'correct'
+    ]);
+  });
+
+  it('marks a substituted word as wrong', () => {
+    const diff = diffWords(EXPECTED, ['بسم', 'الله', 'الرحيم', 'الرحيم']);
+
+    expect(diff.map(entry => entry.type)).toEqual(['correct', 'correct', 'wrong', 'correct']);
+    expect(diff[2]).toEqual({ type: 'wrong', expected: 'ٱلرَّحْمَٰنِ', typed: 'الرحيم' });
+  });
+
+  it('handles empty input', () => {
+    expect(types(EXPECTED, [])).toEqual(['missing', 'missing', 'missing', 'missing']);
+    expect(diffWords([], [])).toEqual([]);
+  });
+});
+
+describe('countErrors', () => {
+  it('counts every entry that is not correct', () => {
+    expect(countErrors(diffWords(EXPECTED, ['بسم', 'الرحيم', 'الرحيم', 'كلمه']))).toBe(3);
+  });
+});
+
+describe('suggestRatingFromErrors', () => {
+  it('suggests Good for no errors', () => {
+    expect(suggestRatingFromErrors(0, 20)).toBe(3);
+  });
+
+  it('suggests Hard for up to a tenth of the words, and at least one', () => {
+    expect(suggestRatingFromErrors(1, 4)).toBe(2);
+    expect(suggestRatingFromErrors(2, 20)).toBe(2);
+  });
+
+  it('suggests Again for more errors', () => {
+    expect(suggestRatingFromErrors(2, 4)).toBe(1);
+    expect(suggestRatingFromErrors(3, 20)).toBe(1);
+  });
+});
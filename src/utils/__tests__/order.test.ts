@@ -0,0 +1,26 @@
+import { findMisplaced } from '../order';
+
+describe('findMisplaced', () => {
+  it('finds nothing out of order in reading order', () => {
+    expect(findMisplaced([0, 1, 2, 3, 4])).toEqual([]);
+  });
+
+  it('counts one ayah moved to the wrong place once', () => {
+    expect(findMisplaced([1, 2, 3, 4, 0])).toEqual([0]);
+    expect(findMisplaced([0, 3, 1, 2, 4])).toEqual([3]);
+  });
+
+  it('counts swapped neighbours as one misplacement', () => {
+    expect(findMisplaced([0, 2, 1, 3])).toHaveLength(1);
+  });
+
+  it('keeps the longest in-order run in place', () => {
+    expect(findMisplaced([4, 3, 2, 1, 0])).toHaveLength(4);
+    expect(findMisplaced([2, 0, 1, 4, 3])).toHaveLength(2);
+  });
+
+  it('handles empty and single arrangements', () => {
+    expect(findMisplaced([])).toEqual([]);
+    expect(findMisplaced([0])).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+import { addDays, getStudyDayKey, getStudyDayStart, studyDaysBetween } from '../studyDay';
+
+describe('getStudyDayStart', () => {
+  it('starts the study day at the day start hour', () => {
+    expect(getStudyDayStart(new Date(2025, 0, 10, 15, 30), 4)).toEqual(new Date(2025, 0, 10, 4));
+  });
+
+  it('counts the hours before the day start hour towards the day before', () => {
+    expect(getStudyDayStart(new Date(2025, 0, 10, 2, 59), 4)).toEqual(new Date(2025, 0, 9, 4));
+  });
+
+  it('starts a new study day exactly at the day start hour', () => {
+    expect(getStudyDayStart(new Date(2025, 0, 10, 4), 4)).toEqual(new Date(2025, 0, 10, 4));
+  });
+});
+
+describe('studyDaysBetween', () => {
+  it('counts study-day boundaries rather than elapsed hours', () => {
+    // 11pm to 1am is the same study day; 1am to 5am crosses the 4am boundary
+    expect(studyDaysBetween(new Date(2025, 0, 10, 23), new Date(2025, 0, 11, 1), 4)).toBe(0);
+    expect(studyDaysBetween(new Date(2025, 0, 11, 1), new Date(2025, 0, 11, 5), 4)).toBe(1);
+  });
+
+  it('is negative when going back in time', () => {
+    expect(studyDaysBetween(new Date(2025, 0, 15, 12), new Date(2025, 0, 10, 12))).toBe(-5);
+  });
+
+  it('counts whole days across month ends', () => {
+    expect(studyDaysBetween(new Date(2025, 0, 30, 12), addDays(new Date(2025, 0, 30, 12), 7))).toBe(7);
+  });
+});
+
+describe('getStudyDayKey', () => {
+  it('keys a date by the local date its study day started on', () => {
+    expect(getStudyDayKey(new Date(2025, 2, 5, 12), 4)).toBe('2025-03-05');
+    expect(getStudyDayKey(new Date(2025, 2, 5, 1), 4)).toBe('2025-03-04');
+  });
+
+  it('gives the same key to every moment of a study day', () => {
+    const keys = [new Date(2025, 11, 31, 4), new Date(2025, 11, 31, 23), new Date(2026, 0, 1, 3, 59)]
+      .map(date => getStudyDayKey(date, 4));
+
+    expect(new Set(keys)).toEqual(new Set(['2025-12-31']));
+  });
+});
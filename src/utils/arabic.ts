@@ -0,0 +1,73 @@
+// Word handling for Quranic text in either script. Uthmani text (from the API) and IndoPak
+// text mark pauses differently: Uthmani puts waqf signs after a space as tokens of their own,
+// while IndoPak often attaches them to the end of the word, and both may carry an ayah-end
+// marker with the ayah number. None of those are words to recite.
+
+// Arabic letters (including the alif wasla, farsi ya and other letters used in IndoPak text)
+const ARABIC_LETTER = /[\u0621-\u063A\u0641-\u064A\u066E\u066F\u0671-\u06D3\u06D5\u06EE\u06EF\u06FA-\u06FC\u06FF]/;
+
+// Tashkeel and Quranic annotation marks that sit on a letter
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E4\u06E7\u06E8\u06EA-\u06ED]/g;
+
+// Waqf (pause) signs along with the rub el hizb and sajdah signs; and the end-of-ayah sign,
+// ornate parentheses and digits that make up ayah-end markers
+const WAQF_MARKS = /[\u06D6-\u06DC\u06DE\u06E9]/g;
+const AYAH_END_MARKERS = /[\u06DD\uFD3E\uFD3F\u0660-\u0669\u06F0-\u06F90-9]/g;
+
+// Zero-width characters and direction marks some sources leave around words
+const INVISIBLE_MARKS = /[\u200B-\u200F\u2060\uFEFF]/g;
+
+// Split an ayah's text into the words to recite, in reading order, leaving out waqf signs
+// and ayah-end markers whether they stand alone or are attached to a word
+export const tokenizeAyah = (text: string): string[] => {
+  return text
+    .split(/\s+/)
+    .map(token => token
+      .replace(WAQF_MARKS, '')
+      .replace(AYAH_END_MARKERS, '')
+      .replace(INVISIBLE_MARKS, ''))
+    .filter(token => ARABIC_LETTER.test(token));
+};
+
+// Letter forms that plain typing doesn't tell apart: the alif with hamza, madda or wasla,
+// the hamza on waw or ya (and on its own), alif maqsura and the IndoPak ya forms, ta marbuta
+// and the IndoPak ha forms, and the IndoPak kaf
+const LETTER_FORMS: [RegExp, string][] = [
+  [/[\u0622\u0623\u0625\u0671-\u0673]/g, '\u0627'],
+  [/\u0624/g, '\u0648'],
+  [/[\u0626\u0649\u06CC\u06D0\u06D2\u06D3]/g, '\u064A'],
+  [/[\u0629\u06BE\u06C0-\u06C3]/g, '\u0647'],
+  [/\u06A9/g, '\u0643'],
+  [/\u0621/g, '']
+];
+
+// Small letters (the dagger and subscript alif, small waw and small ya) standing for a letter
+// that ordinary spelling sometimes writes out in full and sometimes leaves out
+const SMALL_LETTERS: [RegExp, string][] = [
+  [/[\u0670\u0656]/g, '\u0627'],
+  [/\u06E5/g, '\u0648'],
+  [/[\u06E6\u06E7]/g, '\u064A']
+];
+
+// Normalize a word for comparison: drop tashkeel, annotation marks, small letters and
+// tatweel, and unify the letter forms above. Works the same on Uthmani and IndoPak text.
+export const normalizeArabic = (word: string): string => {
+  const unified = LETTER_FORMS.reduce((text, [pattern, letter]) => text.replace(pattern, letter), word);
+  return unified.replace(DIACRITICS, '').replace(/[\u06E5\u06E6\u0640]/g, '');
+};
+
+// Whether a typed word matches a word of the Quran text, ignoring diacritics and letter forms.
+// A small letter in the text matches the full letter typed out or nothing at all.
+export const matchesWord = (expected: string, typed: string): boolean => {
+  // Mark each small letter with a placeholder that survives normalization
+  const marked = SMALL_LETTERS.reduce(
+    (text, [pattern], index) => text.replace(pattern, String.fromCharCode(index + 1)),
+    expected
+  );
+  const pattern = SMALL_LETTERS.reduce(
+    (text, [, letter], index) => text.split(String.fromCharCode(index + 1)).join(`${letter}?`),
+    normalizeArabic(marked)
+  );
+
+  return new RegExp(`^${pattern}$`).test(normalizeArabic(typed));
+};
@@ -0,0 +1,72 @@
+import { Rating } from '../types';
+
+// A word of an ayah or group, located by ayah (within the card) and position in the ayah
+export interface ClozeWord {
+  ayahIndex: number;
+  wordIndex: number;
+  word: string;
+}
+
+// Outcome of a cloze review
+export interface ClozeResult {
+  total: number;             // Blanks to fill
+  correct: number;           // Blanks filled correctly
+  missed: ClozeWord[];       // Blanks filled wrongly
+}
+
+// How much more likely a word is to be blanked for each time it was missed before
+const MISS_WEIGHT = 3;
+
+// Share of blanks that must be right for a pass graded Hard rather than Again
+const HARD_SHARE = 0.75;
+
+// Shuffle a copy of an array (Fisher-Yates)
+export const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+};
+
+// Pick a share of the words to blank out (at least one), in reading order. With `getMisses`,
+// words missed more often before are more likely to be picked.
+export const selectBlanks = (
+  words: ClozeWord[],
+  share: number,
+  getMisses?: (word: ClozeWord) => number
+): ClozeWord[] => {
+  const count = Math.min(words.length, Math.max(1, Math.round(words.length * share)));
+  const candidates = words.map(word => ({ word, weight: 1 + (getMisses ? getMisses(word) * MISS_WEIGHT : 0) }));
+  const blanks: ClozeWord[] = [];
+
+  // Weighted sampling without replacement
+  while (blanks.length < count) {
+    const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0);
+    let target = Math.random() * total;
+    let index = 0;
+
+    while (index < candidates.length - 1 && target >= candidates[index].weight) {
+      target -= candidates[index].weight;
+      index++;
+    }
+
+    blanks.push(candidates[index].word);
+    candidates.splice(index, 1);
+  }
+
+  return blanks.sort((a, b) => a.ayahIndex - b.ayahIndex || a.wordIndex - b.wordIndex);
+};
+
+// Rating suggested by a cloze result: every blank right is Good, most of them Hard,
+// and fewer than that Again
+export const suggestRatingFromCloze = (correct: number, total: number): Rating => {
+  if (correct >= total) {
+    return 3;
+  }
+
+  return correct / total >= HARD_SHARE ? 2 : 1;
+};
@@ -0,0 +1,78 @@
+import { Rating } from '../types';
+import { matchesWord } from './arabic';
+
+// One step of a word-level diff between the Quran text and what the student typed
+export interface WordDiff {
+  type: 'correct' | 'missing' | 'extra' | 'wrong';
+  expected: string | null;   // Word of the text (null for extra words)
+  typed: string | null;      // Word typed (null for missing words)
+}
+
+// Errors up to this share of the words in the text still count as a shaky (Hard) recall
+const HARD_ERROR_SHARE = 0.1;
+
+// Cost of a wrong word when aligning. Above the cost of a missing or extra word, so a skipped
+// word doesn't turn the rest of a line into wrong words, but below the two together.
+const WRONG_COST = 1.5;
+
+// Align the typed words with the expected ones (as few missing, extra and wrong words as possible),
+// comparing words with matchesWord so diacritics and letter forms don't count as mistakes
+export const diffWords = (expected: string[], typed: string[]): WordDiff[] => {
+  const rows = expected.length + 1;
+  const cols = typed.length + 1;
+
+  // costs[i][j]: cheapest edits turning the first i expected words into the first j typed words
+  const costs: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const substitution = matchesWord(expected[i - 1], typed[j - 1]) ? 0 : WRONG_COST;
+
+      costs[i][j] = Math.min(
+        costs[i - 1][j - 1] + substitution,
+        costs[i - 1][j] + 1,
+        costs[i][j - 1] + 1
+      );
+    }
+  }
+
+  // Walk back from the end to recover the edits
+  const diff: WordDiff[] = [];
+  let i = expected.length;
+  let j = typed.length;
+
+  while (i > 0 || j > 0) {
+    const match = i > 0 && j > 0 && matchesWord(expected[i - 1], typed[j - 1]);
+
+    if (i > 0 && j > 0 && costs[i][j] === costs[i - 1][j - 1] + (match ? 0 : WRONG_COST)) {
+      diff.push({ type: match ? 'correct' : 'wrong', expected: expected[i - 1], typed: typed[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && costs[i][j] === costs[i - 1][j] + 1) {
+      diff.push({ type: 'missing', expected: expected[i - 1], typed: null });
+      i--;
+    } else {
+      diff.push({ type: 'extra', expected: null, typed: typed[j - 1] });
+      j--;
+    }
+  }
+
+  return diff.reverse();
+};
+
+// Number of missing, extra and wrong words in a diff
+export const countErrors = (diff: WordDiff[]): number => {
+  return diff.filter(entry => entry.type !== 'correct').length;
+};
+
+// Rating suggested by how many words were missing, extra or wrong: none is Good, a few
+// (at most a tenth of the words, and at least one) is Hard, and any more is Again
+export const suggestRatingFromErrors = (errors: number, wordCount: number): Rating => {
+  if (errors === 0) {
+    return 3;
+  }
+
+  return errors <= Math.max(1, Math.round(wordCount * HARD_ERROR_SHARE)) ? 2 : 1;
+};
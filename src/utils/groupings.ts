@@ -159,7 +159,9 @@ const createFixedGroups = async (
       progress: 0,
       state: 'new',
       ayahIds: [],
-      testAsGroup: true
+      testAsGroup: true,
+      suspended: false,
+      buriedUntil: null
     };
     
     groups.push(group);
@@ -253,7 +255,9 @@ const createRukuGroups = async (surah: Surah): Promise<AyahGroup[]> => {
       progress: 0,
       state: 'new',
       ayahIds: [],
-      testAsGroup: true
+      testAsGroup: true,
+      suspended: false,
+      buriedUntil: null
     };
     
     groups.push(group);
@@ -350,7 +354,9 @@ const createPageGroups = async (surah: Surah): Promise<AyahGroup[]> => {
       progress: 0,
       state: 'new',
       ayahIds: [],
-      testAsGroup: true
+      testAsGroup: true,
+      suspended: false,
+      buriedUntil: null
     };
     
     groups.push(group);
@@ -412,6 +418,34 @@ export const addAyahToGroup = async (groupId: string, ayahId: string): Promise<v
   );
 };
 
+// Suspend or unsuspend a group (all of its ayahs are left out of scheduled sessions)
+export const setGroupSuspended = async (groupId: string, suspended: boolean): Promise<void> => {
+  await executeUpdate(
+    'UPDATE ayah_groups SET suspended = ? WHERE id = ?',
+    [suspended ? 1 : 0, groupId]
+  );
+};
+
+// Bury a group until the given time (null unburies it)
+export const setGroupBuriedUntil = async (groupId: string, buriedUntil: Date | null): Promise<void> => {
+  await executeUpdate(
+    'UPDATE ayah_groups SET buriedUntil = ? WHERE id = ?',
+    [buriedUntil ? buriedUntil.toISOString() : null, groupId]
+  );
+};
+
+// Get groups that are suspended or still buried
+export const getSuspendedGroups = async (): Promise<AyahGroup[]> => {
+  const rows = await executeQuery(
+    `SELECT * FROM ayah_groups 
+     WHERE suspended = 1 OR buriedUntil > ?
+     ORDER BY surahNumber, startAyah`,
+    [new Date().toISOString()]
+  );
+  
+  return rows.map(mapRowToGroup);
+};
+
 // Save a group to the database
 const saveGroupToDatabase = async (group: AyahGroup): Promise<void> => {
   await executeUpdate(
@@ -451,6 +485,8 @@ const mapRowToGroup = (row: any): AyahGroup => {
     progress: row.progress,
     state: row.state as 'new' | 'learning' | 'review' | 'complete',
     ayahIds: ayahIds,
-    testAsGroup: row.testAsGroup === 1
+    testAsGroup: row.testAsGroup === 1,
+    suspended: row.suspended === 1,
+    buriedUntil: row.buriedUntil ? new Date(row.buriedUntil) : null
   };
 };
\ No newline at end of file
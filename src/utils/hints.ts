@@ -0,0 +1,30 @@
+import { Rating } from '../types';
+
+// Arabic diacritics and Quranic annotation marks that belong to the letter before them
+const COMBINING_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/;
+
+// Hints up to this share of the words in an ayah still count as a shaky (Hard) recall
+const HARD_HINT_SHARE = 0.1;
+
+// First letter of a word along with its diacritics, followed by a tatweel so it reads as
+// the start of a longer word
+export const getFirstLetter = (word: string): string => {
+  const chars = Array.from(word);
+  let end = 1;
+
+  while (end < chars.length && COMBINING_MARKS.test(chars[end])) {
+    end++;
+  }
+
+  return `${chars.slice(0, end).join('')}\u0640`;
+};
+
+// Rating suggested by how many hints were needed: none is Good, a few (at most a tenth
+// of the words, and at least one) is Hard, and any more is Again
+export const suggestRatingFromHints = (hints: number, wordCount: number): Rating => {
+  if (hints === 0) {
+    return 3;
+  }
+
+  return hints <= Math.max(1, Math.round(wordCount * HARD_HINT_SHARE)) ? 2 : 1;
+};
@@ -0,0 +1,36 @@
+// First ayah of each of the 30 juz, as [surahNumber, ayahNumber]
+export const JUZ_STARTS: [number, number][] = [
+  [1, 1], [2, 142], [2, 253], [3, 93], [4, 24],
+  [4, 148], [5, 82], [6, 111], [7, 88], [8, 41],
+  [9, 93], [11, 6], [12, 53], [15, 1], [17, 1],
+  [18, 75], [21, 1], [23, 1], [25, 21], [27, 56],
+  [29, 46], [33, 31], [36, 28], [39, 32], [41, 47],
+  [46, 1], [51, 31], [58, 1], [67, 1], [78, 1]
+];
+
+// Juz (1-30) containing the given ayah
+export const getJuzNumber = (surahNumber: number, ayahNumber: number): number => {
+  let juz = 1;
+
+  for (let i = 0; i < JUZ_STARTS.length; i++) {
+    const [startSurah, startAyah] = JUZ_STARTS[i];
+
+    if (surahNumber > startSurah || (surahNumber === startSurah && ayahNumber >= startAyah)) {
+      juz = i + 1;
+    } else {
+      break;
+    }
+  }
+
+  return juz;
+};
+
+// Last surah with ayahs in the given juz
+export const getJuzLastSurah = (juz: number): number => {
+  if (juz >= JUZ_STARTS.length) {
+    return 114;
+  }
+
+  const [surahNumber, ayahNumber] = JUZ_STARTS[juz];
+  return ayahNumber === 1 ? surahNumber - 1 : surahNumber;
+};
@@ -0,0 +1,35 @@
+// Outcome of an ordering quiz
+export interface OrderResult {
+  total: number;             // Ayahs to put in order
+  misplaced: number[];       // Ayahs put out of order, as indices in reading order
+}
+
+// Find the ayahs put out of order, given the order they were arranged in (as indices in reading
+// order). Those are the fewest ayahs that need moving to fix the order: everything outside the
+// longest run that is already in order, so one ayah moved to the wrong place counts as one
+// misplacement rather than shifting every ayah after it.
+export const findMisplaced = (arranged: number[]): number[] => {
+  // lengths[i]: longest in-order run ending at arranged[i]; previous[i]: the entry before it
+  const lengths = arranged.map(() => 1);
+  const previous = arranged.map(() => -1);
+
+  for (let i = 1; i < arranged.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (arranged[j] < arranged[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+
+  const inOrder = new Set<number>();
+  let last = lengths.indexOf(Math.max(0, ...lengths));
+
+  while (last !== -1) {
+    inOrder.add(arranged[last]);
+    last = previous[last];
+  }
+
+  return arranged.filter(index => !inOrder.has(index)).sort((a, b) => a - b);
+};
+
@@ -0,0 +1,46 @@
+// A "study day" runs from the user's day start hour to the same hour the next day,
+// in local time, so late-night sessions count towards the day they started on
+
+// Default hour at which a new study day begins (4am)
+export const DEFAULT_DAY_START_HOUR = 4;
+
+// Start of the study day containing `date`
+export const getStudyDayStart = (date: Date, dayStartHour: number = DEFAULT_DAY_START_HOUR): Date => {
+  const start = new Date(date);
+
+  if (start.getHours() < dayStartHour) {
+    start.setDate(start.getDate() - 1);
+  }
+  start.setHours(dayStartHour, 0, 0, 0);
+
+  return start;
+};
+
+// Add whole calendar days in local time (keeps the hour across DST changes)
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Number of study-day boundaries crossed between two dates
+export const studyDaysBetween = (
+  from: Date,
+  to: Date,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): number => {
+  const fromStart = getStudyDayStart(from, dayStartHour);
+  const toStart = getStudyDayStart(to, dayStartHour);
+
+  // Round to absorb the 23/25-hour days around DST changes
+  return Math.round((toStart.getTime() - fromStart.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+// Local date key (YYYY-MM-DD) of the study day containing `date`
+export const getStudyDayKey = (date: Date, dayStartHour: number = DEFAULT_DAY_START_HOUR): string => {
+  const start = getStudyDayStart(date, dayStartHour);
+  const month = `${start.getMonth() + 1}`.padStart(2, '0');
+  const day = `${start.getDate()}`.padStart(2, '0');
+
+  return `${start.getFullYear()}-${month}-${day}`;
+};